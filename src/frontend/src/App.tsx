@@ -1,11 +1,12 @@
 import { useInternetIdentity } from './hooks/useInternetIdentity';
 import { useGetCallerUserProfile, useSaveCallerUserProfile, useIsCallerAdmin } from './hooks/useQueries';
 import { useState, useEffect } from 'react';
+import { createRootRoute, createRoute, createRouter, Link, Outlet, RouterProvider, useNavigate, useRouterState } from '@tanstack/react-router';
 import { Button } from './components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './components/ui/dialog';
 import { Input } from './components/ui/input';
 import { Label } from './components/ui/label';
-import { Loader2 } from 'lucide-react';
+import { Home, Loader2 } from 'lucide-react';
 import Header from './components/Header';
 import Footer from './components/Footer';
 import Dashboard from './pages/Dashboard';
@@ -13,17 +14,21 @@ import AgentsPage from './pages/AgentsPage';
 import PropertiesPage from './pages/PropertiesPage';
 import InquiriesPage from './pages/InquiriesPage';
 import ReportsPage from './pages/ReportsPage';
+import SiteVisitsPage from './pages/SiteVisitsPage';
+import CustomersPage from './pages/CustomersPage';
+import PropertyDetailPage from './pages/PropertyDetailPage';
+import ListingsPage from './pages/ListingsPage';
+import { validateAgentsSearch, validateCustomersSearch, validateInquiriesSearch, validateListingsSearch, validatePropertiesSearch, validateReportsSearch, validateVisitsSearch } from './utils/routeSearch';
 import { Toaster } from './components/ui/sonner';
 import { ThemeProvider } from 'next-themes';
 
-type Page = 'dashboard' | 'agents' | 'properties' | 'inquiries' | 'reports';
-
-export default function App() {
+function AppLayout() {
   const { identity, loginStatus } = useInternetIdentity();
   const { data: userProfile, isLoading: profileLoading, isFetched } = useGetCallerUserProfile();
   const { data: isAdmin } = useIsCallerAdmin();
   const saveProfile = useSaveCallerUserProfile();
-  const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  const navigate = useNavigate();
+  const pathname = useRouterState({ select: (state) => state.location.pathname });
 
   const [profileForm, setProfileForm] = useState({ name: '', contactInfo: '' });
 
@@ -32,16 +37,32 @@ export default function App() {
 
   // Redirect to dashboard if trying to access admin-only pages without permission
   useEffect(() => {
-    if (isAuthenticated && currentPage === 'agents' && isAdmin === false) {
-      setCurrentPage('dashboard');
+    if (isAuthenticated && pathname.startsWith('/agents') && isAdmin === false) {
+      navigate({ to: '/', replace: true });
     }
-  }, [isAuthenticated, currentPage, isAdmin]);
+  }, [isAuthenticated, pathname, isAdmin, navigate]);
 
   const handleSaveProfile = async () => {
     if (!profileForm.name.trim() || !profileForm.contactInfo.trim()) return;
     await saveProfile.mutateAsync(profileForm);
   };
 
+  // The buyer-facing listing portal is open to everyone, signed in or not
+  if (pathname.startsWith('/listings')) {
+    return (
+      <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
+        <div className="flex min-h-screen flex-col bg-background">
+          <Header />
+          <main className="flex-1">
+            <Outlet />
+          </main>
+          <Footer />
+          <Toaster />
+        </div>
+      </ThemeProvider>
+    );
+  }
+
   if (loginStatus === 'initializing' || (isAuthenticated && profileLoading)) {
     return (
       <div className="flex h-screen items-center justify-center bg-background">
@@ -57,7 +78,7 @@ export default function App() {
     return (
       <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
         <div className="flex min-h-screen flex-col bg-gradient-to-br from-background via-background to-accent/5">
-          <Header currentPage={currentPage} onNavigate={setCurrentPage} />
+          <Header />
           <main className="flex flex-1 items-center justify-center px-4">
             <div className="w-full max-w-md text-center">
               <img 
@@ -74,6 +95,12 @@ export default function App() {
               </p>
               <div className="rounded-lg border bg-card p-8 shadow-lg">
                 <p className="mb-6 text-muted-foreground">Please login to access the dashboard</p>
+                <Button variant="outline" className="w-full" asChild>
+                  <Link to="/listings">
+                    <Home className="mr-2 h-4 w-4" />
+                    Browse Available Properties
+                  </Link>
+                </Button>
               </div>
             </div>
           </main>
@@ -86,13 +113,9 @@ export default function App() {
   return (
     <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
       <div className="flex min-h-screen flex-col bg-background">
-        <Header currentPage={currentPage} onNavigate={setCurrentPage} />
+        <Header />
         <main className="flex-1">
-          {currentPage === 'dashboard' && <Dashboard />}
-          {currentPage === 'agents' && <AgentsPage />}
-          {currentPage === 'properties' && <PropertiesPage />}
-          {currentPage === 'inquiries' && <InquiriesPage />}
-          {currentPage === 'reports' && <ReportsPage />}
+          <Outlet />
         </main>
         <Footer />
 
@@ -140,3 +163,96 @@ export default function App() {
     </ThemeProvider>
   );
 }
+
+function NotFoundPage() {
+  return (
+    <div className="container mx-auto px-4 py-16 text-center">
+      <h1 className="mb-2 text-2xl font-bold">Page not found</h1>
+      <p className="mb-6 text-muted-foreground">The link you followed does not match any page.</p>
+      <Button asChild>
+        <Link to="/">Back to Dashboard</Link>
+      </Button>
+    </div>
+  );
+}
+
+function PropertyDetailRoute() {
+  const { propertyId } = propertyDetailRoute.useParams();
+  return <PropertyDetailPage propertyId={propertyId} />;
+}
+
+// Routes use browser history, so the caffeineAdminToken hash is left untouched for useActor
+const rootRoute = createRootRoute({ component: AppLayout, notFoundComponent: NotFoundPage });
+
+const dashboardRoute = createRoute({ getParentRoute: () => rootRoute, path: '/', component: Dashboard });
+const agentsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/agents',
+  component: AgentsPage,
+  validateSearch: validateAgentsSearch,
+});
+const propertiesRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/properties',
+  component: PropertiesPage,
+  validateSearch: validatePropertiesSearch,
+});
+const propertyDetailRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/properties/$propertyId',
+  component: PropertyDetailRoute,
+});
+const listingsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/listings',
+  component: ListingsPage,
+  validateSearch: validateListingsSearch,
+});
+const inquiriesRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/inquiries',
+  component: InquiriesPage,
+  validateSearch: validateInquiriesSearch,
+});
+const customersRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/customers',
+  component: CustomersPage,
+  validateSearch: validateCustomersSearch,
+});
+const visitsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/visits',
+  component: SiteVisitsPage,
+  validateSearch: validateVisitsSearch,
+});
+const reportsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/reports',
+  component: ReportsPage,
+  validateSearch: validateReportsSearch,
+});
+
+const routeTree = rootRoute.addChildren([
+  dashboardRoute,
+  agentsRoute,
+  propertiesRoute,
+  propertyDetailRoute,
+  listingsRoute,
+  inquiriesRoute,
+  customersRoute,
+  visitsRoute,
+  reportsRoute,
+]);
+
+const router = createRouter({ routeTree });
+
+declare module '@tanstack/react-router' {
+  interface Register {
+    router: typeof router;
+  }
+}
+
+export default function App() {
+  return <RouterProvider router={router} />;
+}
@@ -84,6 +84,20 @@ export interface Property {
     price: bigint;
     furnishing: Furnishing;
     location: Location;
+    archived: boolean;
+    coordinates: Coordinates;
+    images: Array<ExternalBlob>;
+}
+export interface PublicListing {
+    id: string;
+    title: string;
+    propertyType: PropertyType;
+    description: string;
+    category: Category;
+    configuration: Configuration;
+    price: bigint;
+    furnishing: Furnishing;
+    location: Location;
     coordinates: Coordinates;
     images: Array<ExternalBlob>;
 }
@@ -188,6 +202,29 @@ export interface CombinedAnalytics {
     propertyTypeDistribution: Array<PropertyTypeDistribution>;
     regionalDistribution: Array<RegionalDistribution>;
 }
+export interface Activity {
+    kind: ActivityKind;
+    createdAt: Time;
+    text: string;
+    author: Principal;
+}
+export interface SiteVisit {
+    id: string;
+    agent: Principal;
+    bookedBy: Principal;
+    startsAt: Time;
+    createdAt: Time;
+    propertyId: string;
+    outcome?: VisitOutcome;
+    endsAt: Time;
+    inquiryId: string;
+}
+export interface Closure {
+    finalPrice: bigint;
+    lostReason: string;
+    closedAt: Time;
+    outcome: Outcome;
+}
 export interface Inquiry {
     id: string;
     customerName: string;
@@ -197,8 +234,123 @@ export interface Inquiry {
     assignedAgent: Principal;
     createdAt: Time;
     propertyId: string;
+    closure?: Closure;
+    updatedAt: Time;
+    customerId: string;
+    followUpAt?: Time;
+    activity: Array<Activity>;
+    followUpNote: string;
+}
+export interface MapPreset {
+    id: string;
+    filters: SearchCriteria;
+    owner: Principal;
+    name: string;
+    createdAt: Time;
+    sharedWithTeam: boolean;
     updatedAt: Time;
-    notes: string;
+    pinnedBy: Array<Principal>;
+}
+export interface MatchAlert {
+    id: string;
+    agent: Principal;
+    requirementId: string;
+    createdAt: Time;
+    propertyId: string;
+}
+export interface Requirement {
+    id: string;
+    agent: Principal;
+    note: string;
+    open: boolean;
+    createdAt: Time;
+    updatedAt: Time;
+    filter: AdvancedFilter;
+    customerId: string;
+}
+export interface Customer {
+    id: string;
+    preferredConfigurations: Array<Configuration>;
+    name: string;
+    createdAt: Time;
+    email: string;
+    updatedAt: Time;
+    preferredSuburbs: Array<string>;
+    phone: string;
+    budgetMax: bigint;
+    budgetMin: bigint;
+}
+export interface DataSnapshot {
+    assignmentCursors: Array<[string, bigint]>;
+    propertyHistory: Array<[string, Array<PropertyChange>]>;
+    createdAt: Time;
+    requirementAlerts: Array<MatchAlert>;
+    agents: Array<Profile>;
+    priceHistory: Array<[string, Array<PricePoint>]>;
+    siteVisits: Array<SiteVisit>;
+    properties: Array<Property>;
+    userProfiles: Array<[Principal, UserProfile]>;
+    zones: Array<Zone>;
+    requirements: Array<Requirement>;
+    assignmentRules: Array<Rule>;
+    mapPresets: Array<MapPreset>;
+    customers: Array<Customer>;
+    inquiries: Array<Inquiry>;
+}
+export interface ResetScope {
+    agents: boolean;
+    properties: boolean;
+    userProfiles: boolean;
+    inquiries: boolean;
+}
+export interface FieldChange {
+    field: string;
+    oldValue: string;
+    newValue: string;
+}
+export interface PropertyChange {
+    changedAt: Time;
+    changedBy: Principal;
+    changes: Array<FieldChange>;
+}
+export interface PricePoint {
+    changedAt: Time;
+    changedBy: Principal;
+    price: bigint;
+}
+export interface PriceReduction {
+    region: string;
+    reducedCount: bigint;
+    averageDaysToReduction?: number;
+    averageReductionPercent?: number;
+    regionType: RegionType;
+    listingCount: bigint;
+}
+export interface Rule {
+    id: string;
+    strategy: Strategy;
+    name: string;
+    createdAt: Time;
+    agents: Array<Principal>;
+    enabled: boolean;
+    updatedAt: Time;
+    sources: Array<Source>;
+    priority: bigint;
+    location: string;
+}
+export interface Zone {
+    id: string;
+    name: string;
+    createdAt: Time;
+    createdBy: Principal;
+    updatedAt: Time;
+    points: Array<Coordinates>;
+}
+export enum ActivityKind {
+    siteVisit = "siteVisit",
+    call = "call",
+    note = "note",
+    message = "message"
 }
 export enum Category {
     rental = "rental",
@@ -226,6 +378,10 @@ export enum Furnishing {
     furnished = "furnished",
     unfurnished = "unfurnished"
 }
+export enum Outcome {
+    won = "won",
+    lost = "lost"
+}
 export enum PropertyType {
     commercial = "commercial",
     residential = "residential",
@@ -263,45 +419,105 @@ export enum Status__1 {
     followUp = "followUp",
     inProgress = "inProgress"
 }
+export enum Strategy {
+    byArea = "byArea",
+    bySuburb = "bySuburb",
+    roundRobin = "roundRobin",
+    listingAgent = "listingAgent",
+    bySource = "bySource"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
+export enum VisitOutcome {
+    done = "done",
+    noShow = "noShow"
+}
 export interface backendInterface {
     addAgent(agentPrincipal: Principal, name: string, contactInfo: string, role: Role): Promise<void>;
-    addInquiry(propertyId: string, customerName: string, contactInfo: string, source: Source, assignedAgent: Principal, notes: string): Promise<string>;
+    addAssignmentRule(name: string, strategy: Strategy, location: string, sources: Array<Source>, agentIds: Array<Principal>): Promise<string>;
+    addCustomer(name: string, phone: string, email: string, budgetMin: bigint, budgetMax: bigint, preferredSuburbs: Array<string>, preferredConfigurations: Array<Configuration>): Promise<string>;
+    addInquiry(propertyId: string, customerName: string, contactInfo: string, source: Source, assignedAgent: Principal | null, notes: string): Promise<string>;
+    addInquiryActivity(inquiryId: string, kind: ActivityKind, text: string): Promise<void>;
     addProperty(title: string, description: string, location: Location, coordinates: Coordinates, price: bigint, category: Category, propertyType: PropertyType, configuration: Configuration, furnishing: Furnishing, images: Array<ExternalBlob>): Promise<string>;
+    addRequirement(customerId: string, agent: Principal, filter: AdvancedFilter, note: string): Promise<string>;
+    addZone(name: string, points: Array<Coordinates>): Promise<string>;
     advancedFilterProperties(advancedFilters: AdvancedFilter): Promise<Array<Property>>;
+    archiveProperty(propertyId: string): Promise<void>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    cancelSiteVisit(visitId: string): Promise<void>;
+    closeInquiry(inquiryId: string, outcome: Outcome, finalPrice: bigint, lostReason: string): Promise<void>;
     deactivateAgent(agentId: Principal): Promise<void>;
+    deleteAssignmentRule(ruleId: string): Promise<void>;
+    deleteCustomer(customerId: string): Promise<void>;
+    deleteInquiry(inquiryId: string): Promise<void>;
+    deleteMapPreset(presetId: string): Promise<void>;
+    deleteProperty(propertyId: string): Promise<void>;
+    deleteRequirement(requirementId: string): Promise<void>;
+    deleteZone(zoneId: string): Promise<void>;
+    dismissRequirementAlert(alertId: string): Promise<void>;
+    exportDataSnapshot(): Promise<DataSnapshot>;
     filterPropertiesByCategoryAndConfig(category: Category, configuration: Configuration): Promise<Array<Property>>;
     filterPropertiesByConfiguration(configuration: Configuration): Promise<Array<Property>>;
     getAgent(agentId: Principal): Promise<Profile>;
     getAllAgents(): Promise<Array<Profile>>;
     getAllCities(): Promise<Array<string>>;
     getAllInquiries(): Promise<Array<Inquiry>>;
+    getAllPriceHistories(): Promise<Array<[string, Array<PricePoint>]>>;
     getAllProperties(): Promise<Array<Property>>;
+    getArchivedProperties(): Promise<Array<Property>>;
     getAreasForSuburb(city: string, suburb: string): Promise<Array<string>>;
+    getAssignmentRules(): Promise<Array<Rule>>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
     getCombinedAnalytics(): Promise<CombinedAnalytics>;
     getConfigurationDistribution(): Promise<Array<ConfigurationDistribution>>;
+    getCustomers(): Promise<Array<Customer>>;
     getFurnishingDistribution(): Promise<Array<FurnishingDistribution>>;
     getInquiriesByAgent(agentId: Principal): Promise<Array<Inquiry>>;
     getInquiriesByProperty(propertyId: string): Promise<Array<Inquiry>>;
     getInquiry(inquiryId: string): Promise<Inquiry>;
+    getMapPresets(): Promise<Array<MapPreset>>;
+    getPriceHistory(propertyId: string): Promise<Array<PricePoint>>;
+    getPriceReductionBySuburb(): Promise<Array<PriceReduction>>;
     getPropertiesByCategory(category: Category): Promise<Array<Property>>;
     getPropertiesByCategoryAndType(category: Category, propertyType: PropertyType): Promise<Array<Property>>;
     getPropertiesByPropertyType(propertyType: PropertyType): Promise<Array<Property>>;
     getProperty(propertyId: string): Promise<Property>;
+    getPropertyHistory(propertyId: string): Promise<Array<PropertyChange>>;
+    getPublicListings(): Promise<Array<PublicListing>>;
+    getRequirementAlerts(): Promise<Array<MatchAlert>>;
+    getRequirementMatches(requirementId: string): Promise<Array<Property>>;
+    getRequirements(): Promise<Array<Requirement>>;
+    getSiteVisits(): Promise<Array<SiteVisit>>;
     getSuburbsForCity(city: string): Promise<Array<string>>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
+    getZones(): Promise<Array<Zone>>;
+    isAppEmpty(): Promise<boolean>;
     isCallerAdmin(): Promise<boolean>;
+    mergeInquiries(inquiryIds: Array<string>): Promise<string>;
+    reorderAssignmentRules(ruleIds: Array<string>): Promise<void>;
+    rescheduleSiteVisit(visitId: string, agentId: Principal, startsAt: Time, endsAt: Time): Promise<void>;
+    resetSelectedData(scope: ResetScope): Promise<void>;
     resetToFreshDraft(): Promise<void>;
+    restoreDataSnapshot(snapshot: DataSnapshot): Promise<void>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
+    saveMapPreset(name: string, filters: SearchCriteria, sharedWithTeam: boolean): Promise<string>;
+    scheduleSiteVisit(inquiryId: string, propertyId: string, agentId: Principal, startsAt: Time, endsAt: Time): Promise<string>;
     searchAndFilterProperties(criteria: SearchCriteria): Promise<Array<Property>>;
+    seedDemoData(): Promise<void>;
+    setMapPresetPinned(presetId: string, pinned: boolean): Promise<void>;
+    setSiteVisitOutcome(visitId: string, outcome: VisitOutcome): Promise<void>;
+    submitPublicInquiry(propertyId: string, customerName: string, contactInfo: string, notes: string): Promise<string>;
+    unarchiveProperty(propertyId: string): Promise<void>;
     updateAgent(agentId: Principal, name: string, contactInfo: string, role: Role): Promise<void>;
-    updateInquiry(inquiryId: string, customerName: string, contactInfo: string, source: Source, status: Status__1, assignedAgent: Principal, notes: string): Promise<void>;
+    updateAssignmentRule(ruleId: string, name: string, strategy: Strategy, location: string, sources: Array<Source>, agentIds: Array<Principal>, enabled: boolean): Promise<void>;
+    updateCustomer(customerId: string, name: string, phone: string, email: string, budgetMin: bigint, budgetMax: bigint, preferredSuburbs: Array<string>, preferredConfigurations: Array<Configuration>): Promise<void>;
+    updateInquiry(inquiryId: string, customerName: string, contactInfo: string, source: Source, status: Status__1, assignedAgent: Principal, followUpAt: Time | null, followUpNote: string): Promise<void>;
+    updateMapPreset(presetId: string, name: string, filters: SearchCriteria, sharedWithTeam: boolean): Promise<void>;
     updateProperty(propertyId: string, title: string, description: string, location: Location, coordinates: Coordinates, price: bigint, category: Category, propertyType: PropertyType, configuration: Configuration, furnishing: Furnishing, status: Status, images: Array<ExternalBlob>): Promise<void>;
+    updateRequirement(requirementId: string, agent: Principal, filter: AdvancedFilter, note: string, open: boolean): Promise<void>;
+    updateZone(zoneId: string, name: string, points: Array<Coordinates>): Promise<void>;
 }
@@ -170,6 +170,20 @@ export interface Property {
     price: bigint;
     furnishing: Furnishing;
     location: Location;
+    archived: boolean;
+    coordinates: Coordinates;
+    images: Array<ExternalBlob>;
+}
+export interface PublicListing {
+    id: string;
+    title: string;
+    propertyType: PropertyType;
+    description: string;
+    category: Category;
+    configuration: Configuration;
+    price: bigint;
+    furnishing: Furnishing;
+    location: Location;
     coordinates: Coordinates;
     images: Array<ExternalBlob>;
 }
@@ -274,6 +288,29 @@ export interface CombinedAnalytics {
     propertyTypeDistribution: Array<PropertyTypeDistribution>;
     regionalDistribution: Array<RegionalDistribution>;
 }
+export interface Activity {
+    kind: ActivityKind;
+    createdAt: Time;
+    text: string;
+    author: Principal;
+}
+export interface SiteVisit {
+    id: string;
+    agent: Principal;
+    bookedBy: Principal;
+    startsAt: Time;
+    createdAt: Time;
+    propertyId: string;
+    outcome?: VisitOutcome;
+    endsAt: Time;
+    inquiryId: string;
+}
+export interface Closure {
+    finalPrice: bigint;
+    lostReason: string;
+    closedAt: Time;
+    outcome: Outcome;
+}
 export interface Inquiry {
     id: string;
     customerName: string;
@@ -283,8 +320,123 @@ export interface Inquiry {
     assignedAgent: Principal;
     createdAt: Time;
     propertyId: string;
+    closure?: Closure;
+    updatedAt: Time;
+    customerId: string;
+    followUpAt?: Time;
+    activity: Array<Activity>;
+    followUpNote: string;
+}
+export interface MapPreset {
+    id: string;
+    filters: SearchCriteria;
+    owner: Principal;
+    name: string;
+    createdAt: Time;
+    sharedWithTeam: boolean;
+    updatedAt: Time;
+    pinnedBy: Array<Principal>;
+}
+export interface MatchAlert {
+    id: string;
+    agent: Principal;
+    requirementId: string;
+    createdAt: Time;
+    propertyId: string;
+}
+export interface Requirement {
+    id: string;
+    agent: Principal;
+    note: string;
+    open: boolean;
+    createdAt: Time;
     updatedAt: Time;
-    notes: string;
+    filter: AdvancedFilter;
+    customerId: string;
+}
+export interface Customer {
+    id: string;
+    preferredConfigurations: Array<Configuration>;
+    name: string;
+    createdAt: Time;
+    email: string;
+    updatedAt: Time;
+    preferredSuburbs: Array<string>;
+    phone: string;
+    budgetMax: bigint;
+    budgetMin: bigint;
+}
+export interface DataSnapshot {
+    assignmentCursors: Array<[string, bigint]>;
+    propertyHistory: Array<[string, Array<PropertyChange>]>;
+    createdAt: Time;
+    requirementAlerts: Array<MatchAlert>;
+    agents: Array<Profile>;
+    priceHistory: Array<[string, Array<PricePoint>]>;
+    siteVisits: Array<SiteVisit>;
+    properties: Array<Property>;
+    userProfiles: Array<[Principal, UserProfile]>;
+    zones: Array<Zone>;
+    requirements: Array<Requirement>;
+    assignmentRules: Array<Rule>;
+    mapPresets: Array<MapPreset>;
+    customers: Array<Customer>;
+    inquiries: Array<Inquiry>;
+}
+export interface ResetScope {
+    agents: boolean;
+    properties: boolean;
+    userProfiles: boolean;
+    inquiries: boolean;
+}
+export interface FieldChange {
+    field: string;
+    oldValue: string;
+    newValue: string;
+}
+export interface PropertyChange {
+    changedAt: Time;
+    changedBy: Principal;
+    changes: Array<FieldChange>;
+}
+export interface PricePoint {
+    changedAt: Time;
+    changedBy: Principal;
+    price: bigint;
+}
+export interface PriceReduction {
+    region: string;
+    reducedCount: bigint;
+    averageDaysToReduction?: number;
+    averageReductionPercent?: number;
+    regionType: RegionType;
+    listingCount: bigint;
+}
+export interface Rule {
+    id: string;
+    strategy: Strategy;
+    name: string;
+    createdAt: Time;
+    agents: Array<Principal>;
+    enabled: boolean;
+    updatedAt: Time;
+    sources: Array<Source>;
+    priority: bigint;
+    location: string;
+}
+export interface Zone {
+    id: string;
+    name: string;
+    createdAt: Time;
+    createdBy: Principal;
+    updatedAt: Time;
+    points: Array<Coordinates>;
+}
+export enum ActivityKind {
+    siteVisit = "siteVisit",
+    call = "call",
+    note = "note",
+    message = "message"
 }
 export enum Category {
     rental = "rental",
@@ -312,6 +464,10 @@ export enum Furnishing {
     furnished = "furnished",
     unfurnished = "unfurnished"
 }
+export enum Outcome {
+    won = "won",
+    lost = "lost"
+}
 export enum PropertyType {
     commercial = "commercial",
     residential = "residential",
@@ -349,11 +505,22 @@ export enum Status__1 {
     followUp = "followUp",
     inProgress = "inProgress"
 }
+export enum Strategy {
+    byArea = "byArea",
+    bySuburb = "bySuburb",
+    roundRobin = "roundRobin",
+    listingAgent = "listingAgent",
+    bySource = "bySource"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
+export enum VisitOutcome {
+    done = "done",
+    noShow = "noShow"
+}
 export interface backendInterface {
     _caffeineStorageBlobIsLive(hash: Uint8Array): Promise<boolean>;
     _caffeineStorageBlobsToDelete(): Promise<Array<Uint8Array>>;
@@ -363,42 +530,91 @@ export interface backendInterface {
     _caffeineStorageUpdateGatewayPrincipals(): Promise<void>;
     _initializeAccessControlWithSecret(userSecret: string): Promise<void>;
     addAgent(agentPrincipal: Principal, name: string, contactInfo: string, role: Role): Promise<void>;
-    addInquiry(propertyId: string, customerName: string, contactInfo: string, source: Source, assignedAgent: Principal, notes: string): Promise<string>;
+    addAssignmentRule(name: string, strategy: Strategy, location: string, sources: Array<Source>, agentIds: Array<Principal>): Promise<string>;
+    addCustomer(name: string, phone: string, email: string, budgetMin: bigint, budgetMax: bigint, preferredSuburbs: Array<string>, preferredConfigurations: Array<Configuration>): Promise<string>;
+    addInquiry(propertyId: string, customerName: string, contactInfo: string, source: Source, assignedAgent: Principal | null, notes: string): Promise<string>;
+    addInquiryActivity(inquiryId: string, kind: ActivityKind, text: string): Promise<void>;
     addProperty(title: string, description: string, location: Location, coordinates: Coordinates, price: bigint, category: Category, propertyType: PropertyType, configuration: Configuration, furnishing: Furnishing, images: Array<ExternalBlob>): Promise<string>;
+    addRequirement(customerId: string, agent: Principal, filter: AdvancedFilter, note: string): Promise<string>;
+    addZone(name: string, points: Array<Coordinates>): Promise<string>;
     advancedFilterProperties(advancedFilters: AdvancedFilter): Promise<Array<Property>>;
+    archiveProperty(propertyId: string): Promise<void>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    cancelSiteVisit(visitId: string): Promise<void>;
+    closeInquiry(inquiryId: string, outcome: Outcome, finalPrice: bigint, lostReason: string): Promise<void>;
     deactivateAgent(agentId: Principal): Promise<void>;
+    deleteAssignmentRule(ruleId: string): Promise<void>;
+    deleteCustomer(customerId: string): Promise<void>;
+    deleteInquiry(inquiryId: string): Promise<void>;
+    deleteMapPreset(presetId: string): Promise<void>;
+    deleteProperty(propertyId: string): Promise<void>;
+    deleteRequirement(requirementId: string): Promise<void>;
+    deleteZone(zoneId: string): Promise<void>;
+    dismissRequirementAlert(alertId: string): Promise<void>;
+    exportDataSnapshot(): Promise<DataSnapshot>;
     filterPropertiesByCategoryAndConfig(category: Category, configuration: Configuration): Promise<Array<Property>>;
     filterPropertiesByConfiguration(configuration: Configuration): Promise<Array<Property>>;
     getAgent(agentId: Principal): Promise<Profile>;
     getAllAgents(): Promise<Array<Profile>>;
     getAllCities(): Promise<Array<string>>;
     getAllInquiries(): Promise<Array<Inquiry>>;
+    getAllPriceHistories(): Promise<Array<[string, Array<PricePoint>]>>;
     getAllProperties(): Promise<Array<Property>>;
+    getArchivedProperties(): Promise<Array<Property>>;
     getAreasForSuburb(city: string, suburb: string): Promise<Array<string>>;
+    getAssignmentRules(): Promise<Array<Rule>>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
     getCombinedAnalytics(): Promise<CombinedAnalytics>;
     getConfigurationDistribution(): Promise<Array<ConfigurationDistribution>>;
+    getCustomers(): Promise<Array<Customer>>;
     getFurnishingDistribution(): Promise<Array<FurnishingDistribution>>;
     getInquiriesByAgent(agentId: Principal): Promise<Array<Inquiry>>;
     getInquiriesByProperty(propertyId: string): Promise<Array<Inquiry>>;
     getInquiry(inquiryId: string): Promise<Inquiry>;
+    getMapPresets(): Promise<Array<MapPreset>>;
+    getPriceHistory(propertyId: string): Promise<Array<PricePoint>>;
+    getPriceReductionBySuburb(): Promise<Array<PriceReduction>>;
     getPropertiesByCategory(category: Category): Promise<Array<Property>>;
     getPropertiesByCategoryAndType(category: Category, propertyType: PropertyType): Promise<Array<Property>>;
     getPropertiesByPropertyType(propertyType: PropertyType): Promise<Array<Property>>;
     getProperty(propertyId: string): Promise<Property>;
+    getPropertyHistory(propertyId: string): Promise<Array<PropertyChange>>;
+    getPublicListings(): Promise<Array<PublicListing>>;
+    getRequirementAlerts(): Promise<Array<MatchAlert>>;
+    getRequirementMatches(requirementId: string): Promise<Array<Property>>;
+    getRequirements(): Promise<Array<Requirement>>;
+    getSiteVisits(): Promise<Array<SiteVisit>>;
     getSuburbsForCity(city: string): Promise<Array<string>>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
+    getZones(): Promise<Array<Zone>>;
+    isAppEmpty(): Promise<boolean>;
     isCallerAdmin(): Promise<boolean>;
+    mergeInquiries(inquiryIds: Array<string>): Promise<string>;
+    reorderAssignmentRules(ruleIds: Array<string>): Promise<void>;
+    rescheduleSiteVisit(visitId: string, agentId: Principal, startsAt: Time, endsAt: Time): Promise<void>;
+    resetSelectedData(scope: ResetScope): Promise<void>;
     resetToFreshDraft(): Promise<void>;
+    restoreDataSnapshot(snapshot: DataSnapshot): Promise<void>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
+    saveMapPreset(name: string, filters: SearchCriteria, sharedWithTeam: boolean): Promise<string>;
+    scheduleSiteVisit(inquiryId: string, propertyId: string, agentId: Principal, startsAt: Time, endsAt: Time): Promise<string>;
     searchAndFilterProperties(criteria: SearchCriteria): Promise<Array<Property>>;
+    seedDemoData(): Promise<void>;
+    setMapPresetPinned(presetId: string, pinned: boolean): Promise<void>;
+    setSiteVisitOutcome(visitId: string, outcome: VisitOutcome): Promise<void>;
+    submitPublicInquiry(propertyId: string, customerName: string, contactInfo: string, notes: string): Promise<string>;
+    unarchiveProperty(propertyId: string): Promise<void>;
     updateAgent(agentId: Principal, name: string, contactInfo: string, role: Role): Promise<void>;
-    updateInquiry(inquiryId: string, customerName: string, contactInfo: string, source: Source, status: Status__1, assignedAgent: Principal, notes: string): Promise<void>;
+    updateAssignmentRule(ruleId: string, name: string, strategy: Strategy, location: string, sources: Array<Source>, agentIds: Array<Principal>, enabled: boolean): Promise<void>;
+    updateCustomer(customerId: string, name: string, phone: string, email: string, budgetMin: bigint, budgetMax: bigint, preferredSuburbs: Array<string>, preferredConfigurations: Array<Configuration>): Promise<void>;
+    updateInquiry(inquiryId: string, customerName: string, contactInfo: string, source: Source, status: Status__1, assignedAgent: Principal, followUpAt: Time | null, followUpNote: string): Promise<void>;
+    updateMapPreset(presetId: string, name: string, filters: SearchCriteria, sharedWithTeam: boolean): Promise<void>;
     updateProperty(propertyId: string, title: string, description: string, location: Location, coordinates: Coordinates, price: bigint, category: Category, propertyType: PropertyType, configuration: Configuration, furnishing: Furnishing, status: Status, images: Array<ExternalBlob>): Promise<void>;
+    updateRequirement(requirementId: string, agent: Principal, filter: AdvancedFilter, note: string, open: boolean): Promise<void>;
+    updateZone(zoneId: string, name: string, points: Array<Coordinates>): Promise<void>;
 }
-import type { AdvancedFilter as _AdvancedFilter, Category as _Category, CategoryDistribution as _CategoryDistribution, CombinedAnalytics as _CombinedAnalytics, Configuration as _Configuration, ConfigurationDistribution as _ConfigurationDistribution, Coordinates as _Coordinates, ExternalBlob as _ExternalBlob, Furnishing as _Furnishing, FurnishingDistribution as _FurnishingDistribution, Inquiry as _Inquiry, Location as _Location, PricingHeatmap as _PricingHeatmap, Profile as _Profile, Property as _Property, PropertyDensity as _PropertyDensity, PropertyType as _PropertyType, PropertyTypeDistribution as _PropertyTypeDistribution, RegionType as _RegionType, RegionalDistribution as _RegionalDistribution, Role as _Role, SearchCriteria as _SearchCriteria, Source as _Source, Status as _Status, Status__1 as _Status__1, Time as _Time, UserProfile as _UserProfile, UserRole as _UserRole, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
+import type { Activity as _Activity, ActivityKind as _ActivityKind, AdvancedFilter as _AdvancedFilter, Category as _Category, CategoryDistribution as _CategoryDistribution, Closure as _Closure, CombinedAnalytics as _CombinedAnalytics, Configuration as _Configuration, ConfigurationDistribution as _ConfigurationDistribution, Coordinates as _Coordinates, Customer as _Customer, DataSnapshot as _DataSnapshot, ExternalBlob as _ExternalBlob, Furnishing as _Furnishing, FurnishingDistribution as _FurnishingDistribution, Inquiry as _Inquiry, Location as _Location, MapPreset as _MapPreset, MatchAlert as _MatchAlert, Outcome as _Outcome, PricePoint as _PricePoint, PriceReduction as _PriceReduction, PricingHeatmap as _PricingHeatmap, Profile as _Profile, Property as _Property, PropertyChange as _PropertyChange, PropertyDensity as _PropertyDensity, PropertyType as _PropertyType, PropertyTypeDistribution as _PropertyTypeDistribution, PublicListing as _PublicListing, RegionType as _RegionType, RegionalDistribution as _RegionalDistribution, Requirement as _Requirement, ResetScope as _ResetScope, Role as _Role, Rule as _Rule, SearchCriteria as _SearchCriteria, SiteVisit as _SiteVisit, Source as _Source, Status as _Status, Status__1 as _Status__1, Strategy as _Strategy, Time as _Time, UserProfile as _UserProfile, UserRole as _UserRole, VisitOutcome as _VisitOutcome, Zone as _Zone, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
     async _caffeineStorageBlobIsLive(arg0: Uint8Array): Promise<boolean> {
@@ -513,424 +729,970 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async addInquiry(arg0: string, arg1: string, arg2: string, arg3: Source, arg4: Principal, arg5: string): Promise<string> {
+    async addAssignmentRule(arg0: string, arg1: Strategy, arg2: string, arg3: Array<Source>, arg4: Array<Principal>): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.addInquiry(arg0, arg1, arg2, to_candid_Source_n10(this._uploadFile, this._downloadFile, arg3), arg4, arg5);
+                const result = await this.actor.addAssignmentRule(arg0, to_candid_Strategy_n113(this._uploadFile, this._downloadFile, arg1), arg2, to_candid_vec_n115(this._uploadFile, this._downloadFile, arg3), arg4);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addInquiry(arg0, arg1, arg2, to_candid_Source_n10(this._uploadFile, this._downloadFile, arg3), arg4, arg5);
+            const result = await this.actor.addAssignmentRule(arg0, to_candid_Strategy_n113(this._uploadFile, this._downloadFile, arg1), arg2, to_candid_vec_n115(this._uploadFile, this._downloadFile, arg3), arg4);
             return result;
         }
     }
-    async addProperty(arg0: string, arg1: string, arg2: Location, arg3: Coordinates, arg4: bigint, arg5: Category, arg6: PropertyType, arg7: Configuration, arg8: Furnishing, arg9: Array<ExternalBlob>): Promise<string> {
+    async addCustomer(arg0: string, arg1: string, arg2: string, arg3: bigint, arg4: bigint, arg5: Array<string>, arg6: Array<Configuration>): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.addProperty(arg0, arg1, arg2, arg3, arg4, to_candid_Category_n12(this._uploadFile, this._downloadFile, arg5), to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg6), to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg7), to_candid_Furnishing_n18(this._uploadFile, this._downloadFile, arg8), await to_candid_vec_n20(this._uploadFile, this._downloadFile, arg9));
+                const result = await this.actor.addCustomer(arg0, arg1, arg2, arg3, arg4, arg5, to_candid_vec_n25(this._uploadFile, this._downloadFile, arg6));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addProperty(arg0, arg1, arg2, arg3, arg4, to_candid_Category_n12(this._uploadFile, this._downloadFile, arg5), to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg6), to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg7), to_candid_Furnishing_n18(this._uploadFile, this._downloadFile, arg8), await to_candid_vec_n20(this._uploadFile, this._downloadFile, arg9));
+            const result = await this.actor.addCustomer(arg0, arg1, arg2, arg3, arg4, arg5, to_candid_vec_n25(this._uploadFile, this._downloadFile, arg6));
             return result;
         }
     }
-    async advancedFilterProperties(arg0: AdvancedFilter): Promise<Array<Property>> {
+    async addInquiry(arg0: string, arg1: string, arg2: string, arg3: Source, arg4: Principal | null, arg5: string): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.advancedFilterProperties(to_candid_AdvancedFilter_n22(this._uploadFile, this._downloadFile, arg0));
-                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.addInquiry(arg0, arg1, arg2, to_candid_Source_n10(this._uploadFile, this._downloadFile, arg3), to_candid_opt_n116(this._uploadFile, this._downloadFile, arg4), arg5);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.advancedFilterProperties(to_candid_AdvancedFilter_n22(this._uploadFile, this._downloadFile, arg0));
-            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.addInquiry(arg0, arg1, arg2, to_candid_Source_n10(this._uploadFile, this._downloadFile, arg3), to_candid_opt_n116(this._uploadFile, this._downloadFile, arg4), arg5);
+            return result;
         }
     }
-    async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
+    async addInquiryActivity(arg0: string, arg1: ActivityKind, arg2: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n49(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.addInquiryActivity(arg0, to_candid_ActivityKind_n131(this._uploadFile, this._downloadFile, arg1), arg2);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n49(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.addInquiryActivity(arg0, to_candid_ActivityKind_n131(this._uploadFile, this._downloadFile, arg1), arg2);
             return result;
         }
     }
-    async deactivateAgent(arg0: Principal): Promise<void> {
+    async addProperty(arg0: string, arg1: string, arg2: Location, arg3: Coordinates, arg4: bigint, arg5: Category, arg6: PropertyType, arg7: Configuration, arg8: Furnishing, arg9: Array<ExternalBlob>): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.deactivateAgent(arg0);
+                const result = await this.actor.addProperty(arg0, arg1, arg2, arg3, arg4, to_candid_Category_n12(this._uploadFile, this._downloadFile, arg5), to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg6), to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg7), to_candid_Furnishing_n18(this._uploadFile, this._downloadFile, arg8), await to_candid_vec_n20(this._uploadFile, this._downloadFile, arg9));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deactivateAgent(arg0);
+            const result = await this.actor.addProperty(arg0, arg1, arg2, arg3, arg4, to_candid_Category_n12(this._uploadFile, this._downloadFile, arg5), to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg6), to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg7), to_candid_Furnishing_n18(this._uploadFile, this._downloadFile, arg8), await to_candid_vec_n20(this._uploadFile, this._downloadFile, arg9));
             return result;
         }
     }
-    async filterPropertiesByCategoryAndConfig(arg0: Category, arg1: Configuration): Promise<Array<Property>> {
+    async addRequirement(arg0: string, arg1: Principal, arg2: AdvancedFilter, arg3: string): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.filterPropertiesByCategoryAndConfig(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0), to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg1));
-                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.addRequirement(arg0, arg1, to_candid_AdvancedFilter_n22(this._uploadFile, this._downloadFile, arg2), arg3);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.filterPropertiesByCategoryAndConfig(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0), to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg1));
-            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.addRequirement(arg0, arg1, to_candid_AdvancedFilter_n22(this._uploadFile, this._downloadFile, arg2), arg3);
+            return result;
         }
     }
-    async filterPropertiesByConfiguration(arg0: Configuration): Promise<Array<Property>> {
+    async addZone(arg0: string, arg1: Array<Coordinates>): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.filterPropertiesByConfiguration(to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg0));
-                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.addZone(arg0, arg1);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.filterPropertiesByConfiguration(to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg0));
-            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.addZone(arg0, arg1);
+            return result;
         }
     }
-    async getAgent(arg0: Principal): Promise<Profile> {
+    async advancedFilterProperties(arg0: AdvancedFilter): Promise<Array<Property>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAgent(arg0);
-                return from_candid_Profile_n51(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.advancedFilterProperties(to_candid_AdvancedFilter_n22(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAgent(arg0);
-            return from_candid_Profile_n51(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.advancedFilterProperties(to_candid_AdvancedFilter_n22(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getAllAgents(): Promise<Array<Profile>> {
+    async archiveProperty(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllAgents();
-                return from_candid_vec_n55(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.archiveProperty(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllAgents();
-            return from_candid_vec_n55(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.archiveProperty(arg0);
+            return result;
         }
     }
-    async getAllCities(): Promise<Array<string>> {
+    async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllCities();
+                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n49(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllCities();
+            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n49(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
-    async getAllInquiries(): Promise<Array<Inquiry>> {
+    async cancelSiteVisit(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllInquiries();
-                return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.cancelSiteVisit(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllInquiries();
-            return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.cancelSiteVisit(arg0);
+            return result;
         }
     }
-    async getAllProperties(): Promise<Array<Property>> {
+    async closeInquiry(arg0: string, arg1: Outcome, arg2: bigint, arg3: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllProperties();
-                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.closeInquiry(arg0, to_candid_Outcome_n140(this._uploadFile, this._downloadFile, arg1), arg2, arg3);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllProperties();
-            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.closeInquiry(arg0, to_candid_Outcome_n140(this._uploadFile, this._downloadFile, arg1), arg2, arg3);
+            return result;
         }
     }
-    async getAreasForSuburb(arg0: string, arg1: string): Promise<Array<string>> {
+    async deactivateAgent(arg0: Principal): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAreasForSuburb(arg0, arg1);
+                const result = await this.actor.deactivateAgent(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAreasForSuburb(arg0, arg1);
+            const result = await this.actor.deactivateAgent(arg0);
             return result;
         }
     }
-    async getCallerUserProfile(): Promise<UserProfile | null> {
+    async deleteAssignmentRule(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserProfile();
-                return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteAssignmentRule(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserProfile();
-            return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteAssignmentRule(arg0);
+            return result;
         }
     }
-    async getCallerUserRole(): Promise<UserRole> {
+    async deleteCustomer(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserRole();
-                return from_candid_UserRole_n64(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteCustomer(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserRole();
-            return from_candid_UserRole_n64(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteCustomer(arg0);
+            return result;
         }
     }
-    async getCombinedAnalytics(): Promise<CombinedAnalytics> {
+    async deleteInquiry(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCombinedAnalytics();
-                return from_candid_CombinedAnalytics_n66(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteInquiry(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCombinedAnalytics();
-            return from_candid_CombinedAnalytics_n66(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteInquiry(arg0);
+            return result;
         }
     }
-    async getConfigurationDistribution(): Promise<Array<ConfigurationDistribution>> {
+    async deleteMapPreset(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getConfigurationDistribution();
-                return from_candid_vec_n76(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteMapPreset(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getConfigurationDistribution();
-            return from_candid_vec_n76(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteMapPreset(arg0);
+            return result;
         }
     }
-    async getFurnishingDistribution(): Promise<Array<FurnishingDistribution>> {
+    async deleteProperty(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getFurnishingDistribution();
-                return from_candid_vec_n73(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteProperty(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getFurnishingDistribution();
-            return from_candid_vec_n73(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteProperty(arg0);
+            return result;
         }
     }
-    async getInquiriesByAgent(arg0: Principal): Promise<Array<Inquiry>> {
+    async deleteRequirement(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getInquiriesByAgent(arg0);
-                return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteRequirement(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getInquiriesByAgent(arg0);
-            return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteRequirement(arg0);
+            return result;
         }
     }
-    async getInquiriesByProperty(arg0: string): Promise<Array<Inquiry>> {
+    async deleteZone(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getInquiriesByProperty(arg0);
-                return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteZone(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getInquiriesByProperty(arg0);
-            return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteZone(arg0);
+            return result;
         }
     }
-    async getInquiry(arg0: string): Promise<Inquiry> {
+    async dismissRequirementAlert(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getInquiry(arg0);
-                return from_candid_Inquiry_n57(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.dismissRequirementAlert(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getInquiry(arg0);
-            return from_candid_Inquiry_n57(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.dismissRequirementAlert(arg0);
+            return result;
         }
     }
-    async getPropertiesByCategory(arg0: Category): Promise<Array<Property>> {
+    async exportDataSnapshot(): Promise<DataSnapshot> {
         if (this.processError) {
             try {
-                const result = await this.actor.getPropertiesByCategory(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0));
-                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.exportDataSnapshot();
+                return from_candid_DataSnapshot_n96(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getPropertiesByCategory(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0));
-            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.exportDataSnapshot();
+            return from_candid_DataSnapshot_n96(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getPropertiesByCategoryAndType(arg0: Category, arg1: PropertyType): Promise<Array<Property>> {
+    async filterPropertiesByCategoryAndConfig(arg0: Category, arg1: Configuration): Promise<Array<Property>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getPropertiesByCategoryAndType(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0), to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.filterPropertiesByCategoryAndConfig(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0), to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg1));
                 return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getPropertiesByCategoryAndType(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0), to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.filterPropertiesByCategoryAndConfig(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0), to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg1));
             return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getPropertiesByPropertyType(arg0: PropertyType): Promise<Array<Property>> {
+    async filterPropertiesByConfiguration(arg0: Configuration): Promise<Array<Property>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getPropertiesByPropertyType(to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg0));
+                const result = await this.actor.filterPropertiesByConfiguration(to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg0));
                 return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getPropertiesByPropertyType(to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg0));
+            const result = await this.actor.filterPropertiesByConfiguration(to_candid_Configuration_n16(this._uploadFile, this._downloadFile, arg0));
             return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getProperty(arg0: string): Promise<Property> {
+    async getAgent(arg0: Principal): Promise<Profile> {
         if (this.processError) {
             try {
-                const result = await this.actor.getProperty(arg0);
-                return from_candid_Property_n35(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getAgent(arg0);
+                return from_candid_Profile_n51(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getProperty(arg0);
-            return from_candid_Property_n35(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getAgent(arg0);
+            return from_candid_Profile_n51(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getSuburbsForCity(arg0: string): Promise<Array<string>> {
+    async getAllAgents(): Promise<Array<Profile>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getSuburbsForCity(arg0);
-                return result;
+                const result = await this.actor.getAllAgents();
+                return from_candid_vec_n55(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getSuburbsForCity(arg0);
-            return result;
+            const result = await this.actor.getAllAgents();
+            return from_candid_vec_n55(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
+    async getAllCities(): Promise<Array<string>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUserProfile(arg0);
-                return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getAllCities();
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUserProfile(arg0);
-            return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getAllCities();
+            return result;
         }
     }
-    async isCallerAdmin(): Promise<boolean> {
+    async getAllInquiries(): Promise<Array<Inquiry>> {
         if (this.processError) {
             try {
-                const result = await this.actor.isCallerAdmin();
-                return result;
+                const result = await this.actor.getAllInquiries();
+                return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isCallerAdmin();
-            return result;
+            const result = await this.actor.getAllInquiries();
+            return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
         }
     }
-    async resetToFreshDraft(): Promise<void> {
+    async getAllPriceHistories(): Promise<Array<[string, Array<PricePoint>]>> {
         if (this.processError) {
             try {
-                const result = await this.actor.resetToFreshDraft();
+                const result = await this.actor.getAllPriceHistories();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.resetToFreshDraft();
+            const result = await this.actor.getAllPriceHistories();
             return result;
         }
     }
-    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+    async getAllProperties(): Promise<Array<Property>> {
         if (this.processError) {
             try {
-                const result = await this.actor.saveCallerUserProfile(arg0);
-                return result;
+                const result = await this.actor.getAllProperties();
+                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.saveCallerUserProfile(arg0);
-            return result;
+            const result = await this.actor.getAllProperties();
+            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getArchivedProperties(): Promise<Array<Property>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getArchivedProperties();
+                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getArchivedProperties();
+            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getAreasForSuburb(arg0: string, arg1: string): Promise<Array<string>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAreasForSuburb(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAreasForSuburb(arg0, arg1);
+            return result;
+        }
+    }
+    async getAssignmentRules(): Promise<Array<Rule>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAssignmentRules();
+                return from_candid_vec_n117(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAssignmentRules();
+            return from_candid_vec_n117(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCallerUserProfile(): Promise<UserProfile | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallerUserProfile();
+                return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallerUserProfile();
+            return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCallerUserRole(): Promise<UserRole> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallerUserRole();
+                return from_candid_UserRole_n64(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallerUserRole();
+            return from_candid_UserRole_n64(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCombinedAnalytics(): Promise<CombinedAnalytics> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCombinedAnalytics();
+                return from_candid_CombinedAnalytics_n66(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCombinedAnalytics();
+            return from_candid_CombinedAnalytics_n66(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getConfigurationDistribution(): Promise<Array<ConfigurationDistribution>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getConfigurationDistribution();
+                return from_candid_vec_n76(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getConfigurationDistribution();
+            return from_candid_vec_n76(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCustomers(): Promise<Array<Customer>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCustomers();
+                return from_candid_vec_n150(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCustomers();
+            return from_candid_vec_n150(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getFurnishingDistribution(): Promise<Array<FurnishingDistribution>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getFurnishingDistribution();
+                return from_candid_vec_n73(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getFurnishingDistribution();
+            return from_candid_vec_n73(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getInquiriesByAgent(arg0: Principal): Promise<Array<Inquiry>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getInquiriesByAgent(arg0);
+                return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getInquiriesByAgent(arg0);
+            return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getInquiriesByProperty(arg0: string): Promise<Array<Inquiry>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getInquiriesByProperty(arg0);
+                return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getInquiriesByProperty(arg0);
+            return from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getInquiry(arg0: string): Promise<Inquiry> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getInquiry(arg0);
+                return from_candid_Inquiry_n57(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getInquiry(arg0);
+            return from_candid_Inquiry_n57(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getMapPresets(): Promise<Array<MapPreset>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getMapPresets();
+                return from_candid_vec_n168(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getMapPresets();
+            return from_candid_vec_n168(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPriceHistory(arg0: string): Promise<Array<PricePoint>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPriceHistory(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPriceHistory(arg0);
+            return result;
+        }
+    }
+    async getPriceReductionBySuburb(): Promise<Array<PriceReduction>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPriceReductionBySuburb();
+                return from_candid_vec_n109(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPriceReductionBySuburb();
+            return from_candid_vec_n109(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPropertiesByCategory(arg0: Category): Promise<Array<Property>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPropertiesByCategory(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPropertiesByCategory(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPropertiesByCategoryAndType(arg0: Category, arg1: PropertyType): Promise<Array<Property>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPropertiesByCategoryAndType(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0), to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPropertiesByCategoryAndType(to_candid_Category_n12(this._uploadFile, this._downloadFile, arg0), to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPropertiesByPropertyType(arg0: PropertyType): Promise<Array<Property>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPropertiesByPropertyType(to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPropertiesByPropertyType(to_candid_PropertyType_n14(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getProperty(arg0: string): Promise<Property> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getProperty(arg0);
+                return from_candid_Property_n35(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getProperty(arg0);
+            return from_candid_Property_n35(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPropertyHistory(arg0: string): Promise<Array<PropertyChange>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPropertyHistory(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPropertyHistory(arg0);
+            return result;
+        }
+    }
+    async getPublicListings(): Promise<Array<PublicListing>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPublicListings();
+                return from_candid_vec_n191(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPublicListings();
+            return from_candid_vec_n191(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRequirementAlerts(): Promise<Array<MatchAlert>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRequirementAlerts();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRequirementAlerts();
+            return result;
+        }
+    }
+    async getRequirementMatches(arg0: string): Promise<Array<Property>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRequirementMatches(arg0);
+                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRequirementMatches(arg0);
+            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRequirements(): Promise<Array<Requirement>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRequirements();
+                return from_candid_vec_n157(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRequirements();
+            return from_candid_vec_n157(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getSiteVisits(): Promise<Array<SiteVisit>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getSiteVisits();
+                return from_candid_vec_n142(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getSiteVisits();
+            return from_candid_vec_n142(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getSuburbsForCity(arg0: string): Promise<Array<string>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getSuburbsForCity(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getSuburbsForCity(arg0);
+            return result;
+        }
+    }
+    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUserProfile(arg0);
+                return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUserProfile(arg0);
+            return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getZones(): Promise<Array<Zone>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getZones();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getZones();
+            return result;
+        }
+    }
+    async isAppEmpty(): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.isAppEmpty();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.isAppEmpty();
+            return result;
+        }
+    }
+    async isCallerAdmin(): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.isCallerAdmin();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.isCallerAdmin();
+            return result;
+        }
+    }
+    async mergeInquiries(arg0: Array<string>): Promise<string> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.mergeInquiries(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.mergeInquiries(arg0);
+            return result;
+        }
+    }
+    async reorderAssignmentRules(arg0: Array<string>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.reorderAssignmentRules(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.reorderAssignmentRules(arg0);
+            return result;
+        }
+    }
+    async rescheduleSiteVisit(arg0: string, arg1: Principal, arg2: Time, arg3: Time): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.rescheduleSiteVisit(arg0, arg1, arg2, arg3);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.rescheduleSiteVisit(arg0, arg1, arg2, arg3);
+            return result;
+        }
+    }
+    async resetSelectedData(arg0: ResetScope): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.resetSelectedData(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.resetSelectedData(arg0);
+            return result;
+        }
+    }
+    async resetToFreshDraft(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.resetToFreshDraft();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.resetToFreshDraft();
+            return result;
+        }
+    }
+    async restoreDataSnapshot(arg0: DataSnapshot): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.restoreDataSnapshot(await to_candid_DataSnapshot_n98(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.restoreDataSnapshot(await to_candid_DataSnapshot_n98(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCallerUserProfile(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCallerUserProfile(arg0);
+            return result;
+        }
+    }
+    async saveMapPreset(arg0: string, arg1: SearchCriteria, arg2: boolean): Promise<string> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveMapPreset(arg0, to_candid_SearchCriteria_n92(this._uploadFile, this._downloadFile, arg1), arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveMapPreset(arg0, to_candid_SearchCriteria_n92(this._uploadFile, this._downloadFile, arg1), arg2);
+            return result;
+        }
+    }
+    async scheduleSiteVisit(arg0: string, arg1: string, arg2: Principal, arg3: Time, arg4: Time): Promise<string> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.scheduleSiteVisit(arg0, arg1, arg2, arg3, arg4);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.scheduleSiteVisit(arg0, arg1, arg2, arg3, arg4);
+            return result;
         }
     }
     async searchAndFilterProperties(arg0: SearchCriteria): Promise<Array<Property>> {
@@ -947,6 +1709,76 @@ export class Backend implements backendInterface {
             return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
         }
     }
+    async seedDemoData(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.seedDemoData();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.seedDemoData();
+            return result;
+        }
+    }
+    async setMapPresetPinned(arg0: string, arg1: boolean): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setMapPresetPinned(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setMapPresetPinned(arg0, arg1);
+            return result;
+        }
+    }
+    async setSiteVisitOutcome(arg0: string, arg1: VisitOutcome): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setSiteVisitOutcome(arg0, to_candid_VisitOutcome_n148(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setSiteVisitOutcome(arg0, to_candid_VisitOutcome_n148(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async submitPublicInquiry(arg0: string, arg1: string, arg2: string, arg3: string): Promise<string> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.submitPublicInquiry(arg0, arg1, arg2, arg3);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.submitPublicInquiry(arg0, arg1, arg2, arg3);
+            return result;
+        }
+    }
+    async unarchiveProperty(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.unarchiveProperty(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.unarchiveProperty(arg0);
+            return result;
+        }
+    }
     async updateAgent(arg0: Principal, arg1: string, arg2: string, arg3: Role): Promise<void> {
         if (this.processError) {
             try {
@@ -961,17 +1793,59 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async updateInquiry(arg0: string, arg1: string, arg2: string, arg3: Source, arg4: Status__1, arg5: Principal, arg6: string): Promise<void> {
+    async updateAssignmentRule(arg0: string, arg1: string, arg2: Strategy, arg3: string, arg4: Array<Source>, arg5: Array<Principal>, arg6: boolean): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateAssignmentRule(arg0, arg1, to_candid_Strategy_n113(this._uploadFile, this._downloadFile, arg2), arg3, to_candid_vec_n115(this._uploadFile, this._downloadFile, arg4), arg5, arg6);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateAssignmentRule(arg0, arg1, to_candid_Strategy_n113(this._uploadFile, this._downloadFile, arg2), arg3, to_candid_vec_n115(this._uploadFile, this._downloadFile, arg4), arg5, arg6);
+            return result;
+        }
+    }
+    async updateCustomer(arg0: string, arg1: string, arg2: string, arg3: string, arg4: bigint, arg5: bigint, arg6: Array<string>, arg7: Array<Configuration>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateCustomer(arg0, arg1, arg2, arg3, arg4, arg5, arg6, to_candid_vec_n25(this._uploadFile, this._downloadFile, arg7));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateCustomer(arg0, arg1, arg2, arg3, arg4, arg5, arg6, to_candid_vec_n25(this._uploadFile, this._downloadFile, arg7));
+            return result;
+        }
+    }
+    async updateInquiry(arg0: string, arg1: string, arg2: string, arg3: Source, arg4: Status__1, arg5: Principal, arg6: Time | null, arg7: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateInquiry(arg0, arg1, arg2, to_candid_Source_n10(this._uploadFile, this._downloadFile, arg3), to_candid_Status__1_n94(this._uploadFile, this._downloadFile, arg4), arg5, to_candid_opt_n33(this._uploadFile, this._downloadFile, arg6), arg7);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateInquiry(arg0, arg1, arg2, to_candid_Source_n10(this._uploadFile, this._downloadFile, arg3), to_candid_Status__1_n94(this._uploadFile, this._downloadFile, arg4), arg5, to_candid_opt_n33(this._uploadFile, this._downloadFile, arg6), arg7);
+            return result;
+        }
+    }
+    async updateMapPreset(arg0: string, arg1: string, arg2: SearchCriteria, arg3: boolean): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateInquiry(arg0, arg1, arg2, to_candid_Source_n10(this._uploadFile, this._downloadFile, arg3), to_candid_Status__1_n94(this._uploadFile, this._downloadFile, arg4), arg5, arg6);
+                const result = await this.actor.updateMapPreset(arg0, arg1, to_candid_SearchCriteria_n92(this._uploadFile, this._downloadFile, arg2), arg3);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateInquiry(arg0, arg1, arg2, to_candid_Source_n10(this._uploadFile, this._downloadFile, arg3), to_candid_Status__1_n94(this._uploadFile, this._downloadFile, arg4), arg5, arg6);
+            const result = await this.actor.updateMapPreset(arg0, arg1, to_candid_SearchCriteria_n92(this._uploadFile, this._downloadFile, arg2), arg3);
             return result;
         }
     }
@@ -989,6 +1863,43 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async updateRequirement(arg0: string, arg1: Principal, arg2: AdvancedFilter, arg3: string, arg4: boolean): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateRequirement(arg0, arg1, to_candid_AdvancedFilter_n22(this._uploadFile, this._downloadFile, arg2), arg3, arg4);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateRequirement(arg0, arg1, to_candid_AdvancedFilter_n22(this._uploadFile, this._downloadFile, arg2), arg3, arg4);
+            return result;
+        }
+    }
+    async updateZone(arg0: string, arg1: string, arg2: Array<Coordinates>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateZone(arg0, arg1, arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateZone(arg0, arg1, arg2);
+            return result;
+        }
+    }
+}
+function from_candid_ActivityKind_n126(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ActivityKind): ActivityKind {
+    return from_candid_variant_n127(_uploadFile, _downloadFile, value);
+}
+function from_candid_Activity_n124(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Activity): Activity {
+    return from_candid_record_n125(_uploadFile, _downloadFile, value);
+}
+function from_candid_AdvancedFilter_n160(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AdvancedFilter): AdvancedFilter {
+    return from_candid_record_n161(_uploadFile, _downloadFile, value);
 }
 function from_candid_CategoryDistribution_n80(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CategoryDistribution): CategoryDistribution {
     return from_candid_record_n81(_uploadFile, _downloadFile, value);
@@ -996,6 +1907,9 @@ function from_candid_CategoryDistribution_n80(_uploadFile: (file: ExternalBlob)
 function from_candid_Category_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Category): Category {
     return from_candid_variant_n42(_uploadFile, _downloadFile, value);
 }
+function from_candid_Closure_n134(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Closure): Closure {
+    return from_candid_record_n135(_uploadFile, _downloadFile, value);
+}
 function from_candid_CombinedAnalytics_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CombinedAnalytics): CombinedAnalytics {
     return from_candid_record_n67(_uploadFile, _downloadFile, value);
 }
@@ -1005,6 +1919,9 @@ function from_candid_ConfigurationDistribution_n77(_uploadFile: (file: ExternalB
 function from_candid_Configuration_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Configuration): Configuration {
     return from_candid_variant_n44(_uploadFile, _downloadFile, value);
 }
+function from_candid_Customer_n151(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Customer): Customer {
+    return from_candid_record_n152(_uploadFile, _downloadFile, value);
+}
 async function from_candid_ExternalBlob_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExternalBlob): Promise<ExternalBlob> {
     return await _downloadFile(value);
 }
@@ -1017,6 +1934,15 @@ function from_candid_Furnishing_n45(_uploadFile: (file: ExternalBlob) => Promise
 function from_candid_Inquiry_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Inquiry): Inquiry {
     return from_candid_record_n58(_uploadFile, _downloadFile, value);
 }
+function from_candid_MapPreset_n169(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _MapPreset): MapPreset {
+    return from_candid_record_n170(_uploadFile, _downloadFile, value);
+}
+function from_candid_Outcome_n136(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Outcome): Outcome {
+    return from_candid_variant_n137(_uploadFile, _downloadFile, value);
+}
+function from_candid_PriceReduction_n110(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PriceReduction): PriceReduction {
+    return from_candid_record_n111(_uploadFile, _downloadFile, value);
+}
 function from_candid_PricingHeatmap_n83(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PricingHeatmap): PricingHeatmap {
     return from_candid_record_n84(_uploadFile, _downloadFile, value);
 }
@@ -1035,15 +1961,30 @@ function from_candid_PropertyType_n39(_uploadFile: (file: ExternalBlob) => Promi
 async function from_candid_Property_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Property): Promise<Property> {
     return await from_candid_record_n36(_uploadFile, _downloadFile, value);
 }
+async function from_candid_PublicListing_n192(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PublicListing): Promise<PublicListing> {
+    return await from_candid_record_n193(_uploadFile, _downloadFile, value);
+}
 function from_candid_RegionType_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _RegionType): RegionType {
     return from_candid_variant_n72(_uploadFile, _downloadFile, value);
 }
 function from_candid_RegionalDistribution_n90(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _RegionalDistribution): RegionalDistribution {
     return from_candid_record_n91(_uploadFile, _downloadFile, value);
 }
+function from_candid_Requirement_n158(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Requirement): Requirement {
+    return from_candid_record_n159(_uploadFile, _downloadFile, value);
+}
 function from_candid_Role_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Role): Role {
     return from_candid_variant_n54(_uploadFile, _downloadFile, value);
 }
+function from_candid_Rule_n118(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Rule): Rule {
+    return from_candid_record_n119(_uploadFile, _downloadFile, value);
+}
+function from_candid_SearchCriteria_n171(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SearchCriteria): SearchCriteria {
+    return from_candid_record_n172(_uploadFile, _downloadFile, value);
+}
+function from_candid_SiteVisit_n143(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SiteVisit): SiteVisit {
+    return from_candid_record_n144(_uploadFile, _downloadFile, value);
+}
 function from_candid_Source_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Source): Source {
     return from_candid_variant_n62(_uploadFile, _downloadFile, value);
 }
@@ -1053,12 +1994,45 @@ function from_candid_Status__1_n59(_uploadFile: (file: ExternalBlob) => Promise<
 function from_candid_Status_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Status): Status {
     return from_candid_variant_n38(_uploadFile, _downloadFile, value);
 }
+function from_candid_Strategy_n120(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Strategy): Strategy {
+    return from_candid_variant_n121(_uploadFile, _downloadFile, value);
+}
 function from_candid_UserRole_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
     return from_candid_variant_n65(_uploadFile, _downloadFile, value);
 }
+function from_candid_VisitOutcome_n146(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _VisitOutcome): VisitOutcome {
+    return from_candid_variant_n147(_uploadFile, _downloadFile, value);
+}
 function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
     return from_candid_record_n5(_uploadFile, _downloadFile, value);
 }
+function from_candid_opt_n112(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [number]): number | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n133(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Closure]): Closure | null {
+    return value.length === 0 ? null : from_candid_Closure_n134(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n145(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_VisitOutcome]): VisitOutcome | null {
+    return value.length === 0 ? null : from_candid_VisitOutcome_n146(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n173(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Status]): Status | null {
+    return value.length === 0 ? null : from_candid_Status_n37(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n174(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n175(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_PropertyType]): PropertyType | null {
+    return value.length === 0 ? null : from_candid_PropertyType_n39(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n176(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Category]): Category | null {
+    return value.length === 0 ? null : from_candid_Category_n41(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n177(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Configuration]): Configuration | null {
+    return value.length === 0 ? null : from_candid_Configuration_n43(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n178(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Furnishing]): Furnishing | null {
+    return value.length === 0 ? null : from_candid_Furnishing_n45(_uploadFile, _downloadFile, value[0]);
+}
 function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
     return value.length === 0 ? null : value[0];
 }
@@ -1068,6 +2042,332 @@ function from_candid_opt_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8A
 function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
     return value.length === 0 ? null : value[0];
 }
+function from_candid_record_n119(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    strategy: _Strategy;
+    name: string;
+    createdAt: _Time;
+    agents: Array<Principal>;
+    enabled: boolean;
+    updatedAt: _Time;
+    sources: Array<_Source>;
+    priority: bigint;
+    location: string;
+}): {
+    id: string;
+    strategy: Strategy;
+    name: string;
+    createdAt: Time;
+    agents: Array<Principal>;
+    enabled: boolean;
+    updatedAt: Time;
+    sources: Array<Source>;
+    priority: bigint;
+    location: string;
+} {
+    return {
+        id: value.id,
+        strategy: from_candid_Strategy_n120(_uploadFile, _downloadFile, value.strategy),
+        name: value.name,
+        createdAt: value.createdAt,
+        agents: value.agents,
+        enabled: value.enabled,
+        updatedAt: value.updatedAt,
+        sources: from_candid_vec_n122(_uploadFile, _downloadFile, value.sources),
+        priority: value.priority,
+        location: value.location
+    };
+}
+function from_candid_record_n125(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    kind: _ActivityKind;
+    createdAt: _Time;
+    text: string;
+    author: Principal;
+}): {
+    kind: ActivityKind;
+    createdAt: Time;
+    text: string;
+    author: Principal;
+} {
+    return {
+        kind: from_candid_ActivityKind_n126(_uploadFile, _downloadFile, value.kind),
+        createdAt: value.createdAt,
+        text: value.text,
+        author: value.author
+    };
+}
+function from_candid_record_n135(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    finalPrice: bigint;
+    lostReason: string;
+    closedAt: _Time;
+    outcome: _Outcome;
+}): {
+    finalPrice: bigint;
+    lostReason: string;
+    closedAt: Time;
+    outcome: Outcome;
+} {
+    return {
+        finalPrice: value.finalPrice,
+        lostReason: value.lostReason,
+        closedAt: value.closedAt,
+        outcome: from_candid_Outcome_n136(_uploadFile, _downloadFile, value.outcome)
+    };
+}
+function from_candid_record_n144(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    agent: Principal;
+    bookedBy: Principal;
+    startsAt: _Time;
+    createdAt: _Time;
+    propertyId: string;
+    outcome: [] | [_VisitOutcome];
+    endsAt: _Time;
+    inquiryId: string;
+}): {
+    id: string;
+    agent: Principal;
+    bookedBy: Principal;
+    startsAt: Time;
+    createdAt: Time;
+    propertyId: string;
+    outcome?: VisitOutcome;
+    endsAt: Time;
+    inquiryId: string;
+} {
+    return {
+        id: value.id,
+        agent: value.agent,
+        bookedBy: value.bookedBy,
+        startsAt: value.startsAt,
+        createdAt: value.createdAt,
+        propertyId: value.propertyId,
+        outcome: record_opt_to_undefined(from_candid_opt_n145(_uploadFile, _downloadFile, value.outcome)),
+        endsAt: value.endsAt,
+        inquiryId: value.inquiryId
+    };
+}
+function from_candid_record_n152(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    preferredConfigurations: Array<_Configuration>;
+    name: string;
+    createdAt: _Time;
+    email: string;
+    updatedAt: _Time;
+    preferredSuburbs: Array<string>;
+    phone: string;
+    budgetMax: bigint;
+    budgetMin: bigint;
+}): {
+    id: string;
+    preferredConfigurations: Array<Configuration>;
+    name: string;
+    createdAt: Time;
+    email: string;
+    updatedAt: Time;
+    preferredSuburbs: Array<string>;
+    phone: string;
+    budgetMax: bigint;
+    budgetMin: bigint;
+} {
+    return {
+        id: value.id,
+        preferredConfigurations: from_candid_vec_n153(_uploadFile, _downloadFile, value.preferredConfigurations),
+        name: value.name,
+        createdAt: value.createdAt,
+        email: value.email,
+        updatedAt: value.updatedAt,
+        preferredSuburbs: value.preferredSuburbs,
+        phone: value.phone,
+        budgetMax: value.budgetMax,
+        budgetMin: value.budgetMin
+    };
+}
+function from_candid_record_n159(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    agent: Principal;
+    note: string;
+    open: boolean;
+    createdAt: _Time;
+    updatedAt: _Time;
+    filter: _AdvancedFilter;
+    customerId: string;
+}): {
+    id: string;
+    agent: Principal;
+    note: string;
+    open: boolean;
+    createdAt: Time;
+    updatedAt: Time;
+    filter: AdvancedFilter;
+    customerId: string;
+} {
+    return {
+        id: value.id,
+        agent: value.agent,
+        note: value.note,
+        open: value.open,
+        createdAt: value.createdAt,
+        updatedAt: value.updatedAt,
+        filter: from_candid_AdvancedFilter_n160(_uploadFile, _downloadFile, value.filter),
+        customerId: value.customerId
+    };
+}
+function from_candid_record_n161(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    categories: Array<_Category>;
+    configurations: Array<_Configuration>;
+    propertyTypes: Array<_PropertyType>;
+    statuses: Array<_Status>;
+    locations: Array<_Location>;
+    coordinateFilters: Array<{
+        lat: number;
+        lng: number;
+        radius: number;
+    }>;
+    furnishings: Array<_Furnishing>;
+    priceRanges: Array<[[] | [bigint], [] | [bigint]]>;
+}): {
+    categories: Array<Category>;
+    configurations: Array<Configuration>;
+    propertyTypes: Array<PropertyType>;
+    statuses: Array<Status>;
+    locations: Array<Location>;
+    coordinateFilters: Array<{
+        lat: number;
+        lng: number;
+        radius: number;
+    }>;
+    furnishings: Array<Furnishing>;
+    priceRanges: Array<[bigint | null, bigint | null]>;
+} {
+    return {
+        categories: from_candid_vec_n162(_uploadFile, _downloadFile, value.categories),
+        configurations: from_candid_vec_n153(_uploadFile, _downloadFile, value.configurations),
+        propertyTypes: from_candid_vec_n163(_uploadFile, _downloadFile, value.propertyTypes),
+        statuses: from_candid_vec_n164(_uploadFile, _downloadFile, value.statuses),
+        locations: value.locations,
+        coordinateFilters: value.coordinateFilters,
+        furnishings: from_candid_vec_n165(_uploadFile, _downloadFile, value.furnishings),
+        priceRanges: from_candid_vec_n166(_uploadFile, _downloadFile, value.priceRanges)
+    };
+}
+function from_candid_record_n170(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    filters: _SearchCriteria;
+    owner: Principal;
+    name: string;
+    createdAt: _Time;
+    sharedWithTeam: boolean;
+    updatedAt: _Time;
+    pinnedBy: Array<Principal>;
+}): {
+    id: string;
+    filters: SearchCriteria;
+    owner: Principal;
+    name: string;
+    createdAt: Time;
+    sharedWithTeam: boolean;
+    updatedAt: Time;
+    pinnedBy: Array<Principal>;
+} {
+    return {
+        id: value.id,
+        filters: from_candid_SearchCriteria_n171(_uploadFile, _downloadFile, value.filters),
+        owner: value.owner,
+        name: value.name,
+        createdAt: value.createdAt,
+        sharedWithTeam: value.sharedWithTeam,
+        updatedAt: value.updatedAt,
+        pinnedBy: value.pinnedBy
+    };
+}
+function from_candid_record_n172(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    lat: [] | [number];
+    lng: [] | [number];
+    status: [] | [_Status];
+    roadName: [] | [string];
+    propertyType: [] | [_PropertyType];
+    area: [] | [string];
+    city: [] | [string];
+    maxPrice: [] | [bigint];
+    suburb: [] | [string];
+    category: [] | [_Category];
+    radius: [] | [number];
+    configuration: [] | [_Configuration];
+    minPrice: [] | [bigint];
+    furnishing: [] | [_Furnishing];
+}): {
+    lat?: number;
+    lng?: number;
+    status?: Status;
+    roadName?: string;
+    propertyType?: PropertyType;
+    area?: string;
+    city?: string;
+    maxPrice?: bigint;
+    suburb?: string;
+    category?: Category;
+    radius?: number;
+    configuration?: Configuration;
+    minPrice?: bigint;
+    furnishing?: Furnishing;
+} {
+    return {
+        lat: record_opt_to_undefined(from_candid_opt_n112(_uploadFile, _downloadFile, value.lat)),
+        lng: record_opt_to_undefined(from_candid_opt_n112(_uploadFile, _downloadFile, value.lng)),
+        status: record_opt_to_undefined(from_candid_opt_n173(_uploadFile, _downloadFile, value.status)),
+        roadName: record_opt_to_undefined(from_candid_opt_n174(_uploadFile, _downloadFile, value.roadName)),
+        propertyType: record_opt_to_undefined(from_candid_opt_n175(_uploadFile, _downloadFile, value.propertyType)),
+        area: record_opt_to_undefined(from_candid_opt_n174(_uploadFile, _downloadFile, value.area)),
+        city: record_opt_to_undefined(from_candid_opt_n174(_uploadFile, _downloadFile, value.city)),
+        maxPrice: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.maxPrice)),
+        suburb: record_opt_to_undefined(from_candid_opt_n174(_uploadFile, _downloadFile, value.suburb)),
+        category: record_opt_to_undefined(from_candid_opt_n176(_uploadFile, _downloadFile, value.category)),
+        radius: record_opt_to_undefined(from_candid_opt_n112(_uploadFile, _downloadFile, value.radius)),
+        configuration: record_opt_to_undefined(from_candid_opt_n177(_uploadFile, _downloadFile, value.configuration)),
+        minPrice: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.minPrice)),
+        furnishing: record_opt_to_undefined(from_candid_opt_n178(_uploadFile, _downloadFile, value.furnishing))
+    };
+}
+async function from_candid_record_n193(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    title: string;
+    propertyType: _PropertyType;
+    description: string;
+    category: _Category;
+    configuration: _Configuration;
+    price: bigint;
+    furnishing: _Furnishing;
+    location: _Location;
+    coordinates: _Coordinates;
+    images: Array<_ExternalBlob>;
+}): Promise<{
+    id: string;
+    title: string;
+    propertyType: PropertyType;
+    description: string;
+    category: Category;
+    configuration: Configuration;
+    price: bigint;
+    furnishing: Furnishing;
+    location: Location;
+    coordinates: Coordinates;
+    images: Array<ExternalBlob>;
+}> {
+    return {
+        id: value.id,
+        title: value.title,
+        propertyType: from_candid_PropertyType_n39(_uploadFile, _downloadFile, value.propertyType),
+        description: value.description,
+        category: from_candid_Category_n41(_uploadFile, _downloadFile, value.category),
+        configuration: from_candid_Configuration_n43(_uploadFile, _downloadFile, value.configuration),
+        price: value.price,
+        furnishing: from_candid_Furnishing_n45(_uploadFile, _downloadFile, value.furnishing),
+        location: value.location,
+        coordinates: value.coordinates,
+        images: await from_candid_vec_n47(_uploadFile, _downloadFile, value.images)
+    };
+}
 async function from_candid_record_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     id: string;
     status: _Status;
@@ -1082,6 +2382,7 @@ async function from_candid_record_n36(_uploadFile: (file: ExternalBlob) => Promi
     price: bigint;
     furnishing: _Furnishing;
     location: _Location;
+    archived: boolean;
     coordinates: _Coordinates;
     images: Array<_ExternalBlob>;
 }): Promise<{
@@ -1098,6 +2399,7 @@ async function from_candid_record_n36(_uploadFile: (file: ExternalBlob) => Promi
     price: bigint;
     furnishing: Furnishing;
     location: Location;
+    archived: boolean;
     coordinates: Coordinates;
     images: Array<ExternalBlob>;
 }> {
@@ -1115,10 +2417,35 @@ async function from_candid_record_n36(_uploadFile: (file: ExternalBlob) => Promi
         price: value.price,
         furnishing: from_candid_Furnishing_n45(_uploadFile, _downloadFile, value.furnishing),
         location: value.location,
+        archived: value.archived,
         coordinates: value.coordinates,
         images: await from_candid_vec_n47(_uploadFile, _downloadFile, value.images)
     };
 }
+function from_candid_record_n111(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    region: string;
+    reducedCount: bigint;
+    averageDaysToReduction: [] | [number];
+    averageReductionPercent: [] | [number];
+    regionType: _RegionType;
+    listingCount: bigint;
+}): {
+    region: string;
+    reducedCount: bigint;
+    averageDaysToReduction?: number;
+    averageReductionPercent?: number;
+    regionType: RegionType;
+    listingCount: bigint;
+} {
+    return {
+        region: value.region,
+        reducedCount: value.reducedCount,
+        averageDaysToReduction: record_opt_to_undefined(from_candid_opt_n112(_uploadFile, _downloadFile, value.averageDaysToReduction)),
+        averageReductionPercent: record_opt_to_undefined(from_candid_opt_n112(_uploadFile, _downloadFile, value.averageReductionPercent)),
+        regionType: from_candid_RegionType_n71(_uploadFile, _downloadFile, value.regionType),
+        listingCount: value.listingCount
+    };
+}
 function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     success: [] | [boolean];
     topped_up_amount: [] | [bigint];
@@ -1167,8 +2494,12 @@ function from_candid_record_n58(_uploadFile: (file: ExternalBlob) => Promise<Uin
     assignedAgent: Principal;
     createdAt: _Time;
     propertyId: string;
+    closure: [] | [_Closure];
     updatedAt: _Time;
-    notes: string;
+    customerId: string;
+    followUpAt: [] | [_Time];
+    activity: Array<_Activity>;
+    followUpNote: string;
 }): {
     id: string;
     customerName: string;
@@ -1178,8 +2509,12 @@ function from_candid_record_n58(_uploadFile: (file: ExternalBlob) => Promise<Uin
     assignedAgent: Principal;
     createdAt: Time;
     propertyId: string;
+    closure?: Closure;
     updatedAt: Time;
-    notes: string;
+    customerId: string;
+    followUpAt?: Time;
+    activity: Array<Activity>;
+    followUpNote: string;
 } {
     return {
         id: value.id,
@@ -1190,8 +2525,12 @@ function from_candid_record_n58(_uploadFile: (file: ExternalBlob) => Promise<Uin
         assignedAgent: value.assignedAgent,
         createdAt: value.createdAt,
         propertyId: value.propertyId,
+        closure: record_opt_to_undefined(from_candid_opt_n133(_uploadFile, _downloadFile, value.closure)),
         updatedAt: value.updatedAt,
-        notes: value.notes
+        customerId: value.customerId,
+        followUpAt: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.followUpAt)),
+        activity: from_candid_vec_n123(_uploadFile, _downloadFile, value.activity),
+        followUpNote: value.followUpNote
     };
 }
 function from_candid_record_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
@@ -1482,6 +2821,50 @@ function from_candid_record_n91(_uploadFile: (file: ExternalBlob) => Promise<Uin
         regionType: from_candid_RegionType_n71(_uploadFile, _downloadFile, value.regionType)
     };
 }
+function from_candid_tuple_n167(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [[] | [bigint], [] | [bigint]]): [bigint | null, bigint | null] {
+    return [
+        from_candid_opt_n7(_uploadFile, _downloadFile, value[0]),
+        from_candid_opt_n7(_uploadFile, _downloadFile, value[1])
+    ];
+}
+function from_candid_variant_n121(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    byArea: null;
+} | {
+    bySuburb: null;
+} | {
+    roundRobin: null;
+} | {
+    listingAgent: null;
+} | {
+    bySource: null;
+}): Strategy {
+    return "byArea" in value ? Strategy.byArea : "bySuburb" in value ? Strategy.bySuburb : "roundRobin" in value ? Strategy.roundRobin : "listingAgent" in value ? Strategy.listingAgent : "bySource" in value ? Strategy.bySource : value;
+}
+function from_candid_variant_n127(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    siteVisit: null;
+} | {
+    call: null;
+} | {
+    note: null;
+} | {
+    message: null;
+}): ActivityKind {
+    return "siteVisit" in value ? ActivityKind.siteVisit : "call" in value ? ActivityKind.call : "note" in value ? ActivityKind.note : "message" in value ? ActivityKind.message : value;
+}
+function from_candid_variant_n137(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    won: null;
+} | {
+    lost: null;
+}): Outcome {
+    return "won" in value ? Outcome.won : "lost" in value ? Outcome.lost : value;
+}
+function from_candid_variant_n147(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    done: null;
+} | {
+    noShow: null;
+}): VisitOutcome {
+    return "done" in value ? VisitOutcome.done : "noShow" in value ? VisitOutcome.noShow : value;
+}
 function from_candid_variant_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     rented: null;
 } | {
@@ -1608,12 +2991,57 @@ function from_candid_variant_n72(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): RegionType {
     return "area" in value ? RegionType.area : "city" in value ? RegionType.city : "neighborhood" in value ? RegionType.neighborhood : "zone" in value ? RegionType.zone : "suburb" in value ? RegionType.suburb : value;
 }
+function from_candid_vec_n117(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Rule>): Array<Rule> {
+    return value.map((x)=>from_candid_Rule_n118(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n122(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Source>): Array<Source> {
+    return value.map((x)=>from_candid_Source_n61(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n123(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Activity>): Array<Activity> {
+    return value.map((x)=>from_candid_Activity_n124(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n142(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_SiteVisit>): Array<SiteVisit> {
+    return value.map((x)=>from_candid_SiteVisit_n143(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n150(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Customer>): Array<Customer> {
+    return value.map((x)=>from_candid_Customer_n151(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n153(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Configuration>): Array<Configuration> {
+    return value.map((x)=>from_candid_Configuration_n43(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n157(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Requirement>): Array<Requirement> {
+    return value.map((x)=>from_candid_Requirement_n158(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n162(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Category>): Array<Category> {
+    return value.map((x)=>from_candid_Category_n41(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n163(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PropertyType>): Array<PropertyType> {
+    return value.map((x)=>from_candid_PropertyType_n39(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n164(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Status>): Array<Status> {
+    return value.map((x)=>from_candid_Status_n37(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n165(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Furnishing>): Array<Furnishing> {
+    return value.map((x)=>from_candid_Furnishing_n45(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n166(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<[[] | [bigint], [] | [bigint]]>): Array<[bigint | null, bigint | null]> {
+    return value.map((x)=>from_candid_tuple_n167(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n168(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_MapPreset>): Array<MapPreset> {
+    return value.map((x)=>from_candid_MapPreset_n169(_uploadFile, _downloadFile, x));
+}
+async function from_candid_vec_n191(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PublicListing>): Promise<Array<PublicListing>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_PublicListing_n192(_uploadFile, _downloadFile, x)));
+}
 async function from_candid_vec_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Property>): Promise<Array<Property>> {
     return await Promise.all(value.map(async (x)=>await from_candid_Property_n35(_uploadFile, _downloadFile, x)));
 }
 async function from_candid_vec_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ExternalBlob>): Promise<Array<ExternalBlob>> {
     return await Promise.all(value.map(async (x)=>await from_candid_ExternalBlob_n48(_uploadFile, _downloadFile, x)));
 }
+function from_candid_vec_n109(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PriceReduction>): Array<PriceReduction> {
+    return value.map((x)=>from_candid_PriceReduction_n110(_uploadFile, _downloadFile, x));
+}
 function from_candid_vec_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Profile>): Array<Profile> {
     return value.map((x)=>from_candid_Profile_n51(_uploadFile, _downloadFile, x));
 }
@@ -1641,21 +3069,36 @@ function from_candid_vec_n86(_uploadFile: (file: ExternalBlob) => Promise<Uint8A
 function from_candid_vec_n89(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_RegionalDistribution>): Array<RegionalDistribution> {
     return value.map((x)=>from_candid_RegionalDistribution_n90(_uploadFile, _downloadFile, x));
 }
+function to_candid_ActivityKind_n131(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ActivityKind): _ActivityKind {
+    return to_candid_variant_n132(_uploadFile, _downloadFile, value);
+}
+function to_candid_Activity_n129(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Activity): _Activity {
+    return to_candid_record_n130(_uploadFile, _downloadFile, value);
+}
 function to_candid_AdvancedFilter_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AdvancedFilter): _AdvancedFilter {
     return to_candid_record_n23(_uploadFile, _downloadFile, value);
 }
 function to_candid_Category_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Category): _Category {
     return to_candid_variant_n13(_uploadFile, _downloadFile, value);
 }
+function to_candid_Closure_n138(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Closure): _Closure {
+    return to_candid_record_n139(_uploadFile, _downloadFile, value);
+}
 function to_candid_Configuration_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Configuration): _Configuration {
     return to_candid_variant_n17(_uploadFile, _downloadFile, value);
 }
+function to_candid_Customer_n155(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Customer): _Customer {
+    return to_candid_record_n156(_uploadFile, _downloadFile, value);
+}
 async function to_candid_ExternalBlob_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob): Promise<_ExternalBlob> {
     return await _uploadFile(value);
 }
 function to_candid_Furnishing_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Furnishing): _Furnishing {
     return to_candid_variant_n19(_uploadFile, _downloadFile, value);
 }
+function to_candid_Outcome_n140(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Outcome): _Outcome {
+    return to_candid_variant_n141(_uploadFile, _downloadFile, value);
+}
 function to_candid_PropertyType_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PropertyType): _PropertyType {
     return to_candid_variant_n15(_uploadFile, _downloadFile, value);
 }
@@ -1674,18 +3117,99 @@ function to_candid_Status__1_n94(_uploadFile: (file: ExternalBlob) => Promise<Ui
 function to_candid_Status_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Status): _Status {
     return to_candid_variant_n29(_uploadFile, _downloadFile, value);
 }
+function to_candid_Strategy_n113(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Strategy): _Strategy {
+    return to_candid_variant_n114(_uploadFile, _downloadFile, value);
+}
 function to_candid_UserRole_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
     return to_candid_variant_n50(_uploadFile, _downloadFile, value);
 }
+function to_candid_VisitOutcome_n148(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: VisitOutcome): _VisitOutcome {
+    return to_candid_variant_n149(_uploadFile, _downloadFile, value);
+}
 function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation): __CaffeineStorageRefillInformation {
     return to_candid_record_n3(_uploadFile, _downloadFile, value);
 }
 function to_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation | null): [] | [__CaffeineStorageRefillInformation] {
     return value === null ? candid_none() : candid_some(to_candid__CaffeineStorageRefillInformation_n2(_uploadFile, _downloadFile, value));
 }
+function to_candid_opt_n116(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Principal | null): [] | [Principal] {
+    return value === null ? candid_none() : candid_some(value);
+}
 function to_candid_opt_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: bigint | null): [] | [bigint] {
     return value === null ? candid_none() : candid_some(value);
 }
+function to_candid_record_n130(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    kind: ActivityKind;
+    createdAt: Time;
+    text: string;
+    author: Principal;
+}): {
+    kind: _ActivityKind;
+    createdAt: _Time;
+    text: string;
+    author: Principal;
+} {
+    return {
+        kind: to_candid_ActivityKind_n131(_uploadFile, _downloadFile, value.kind),
+        createdAt: value.createdAt,
+        text: value.text,
+        author: value.author
+    };
+}
+function to_candid_record_n139(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    finalPrice: bigint;
+    lostReason: string;
+    closedAt: Time;
+    outcome: Outcome;
+}): {
+    finalPrice: bigint;
+    lostReason: string;
+    closedAt: _Time;
+    outcome: _Outcome;
+} {
+    return {
+        finalPrice: value.finalPrice,
+        lostReason: value.lostReason,
+        closedAt: value.closedAt,
+        outcome: to_candid_Outcome_n140(_uploadFile, _downloadFile, value.outcome)
+    };
+}
+function to_candid_record_n156(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    preferredConfigurations: Array<Configuration>;
+    name: string;
+    createdAt: Time;
+    email: string;
+    updatedAt: Time;
+    preferredSuburbs: Array<string>;
+    phone: string;
+    budgetMax: bigint;
+    budgetMin: bigint;
+}): {
+    id: string;
+    preferredConfigurations: Array<_Configuration>;
+    name: string;
+    createdAt: _Time;
+    email: string;
+    updatedAt: _Time;
+    preferredSuburbs: Array<string>;
+    phone: string;
+    budgetMax: bigint;
+    budgetMin: bigint;
+} {
+    return {
+        id: value.id,
+        preferredConfigurations: to_candid_vec_n25(_uploadFile, _downloadFile, value.preferredConfigurations),
+        name: value.name,
+        createdAt: value.createdAt,
+        email: value.email,
+        updatedAt: value.updatedAt,
+        preferredSuburbs: value.preferredSuburbs,
+        phone: value.phone,
+        budgetMax: value.budgetMax,
+        budgetMin: value.budgetMin
+    };
+}
 function to_candid_record_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     categories: Array<Category>;
     configurations: Array<Configuration>;
@@ -1810,6 +3334,29 @@ function to_candid_variant_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint
         socialMedia: null
     } : value;
 }
+function to_candid_variant_n114(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Strategy): {
+    byArea: null;
+} | {
+    bySuburb: null;
+} | {
+    roundRobin: null;
+} | {
+    listingAgent: null;
+} | {
+    bySource: null;
+} {
+    return value == Strategy.byArea ? {
+        byArea: null
+    } : value == Strategy.bySuburb ? {
+        bySuburb: null
+    } : value == Strategy.roundRobin ? {
+        roundRobin: null
+    } : value == Strategy.listingAgent ? {
+        listingAgent: null
+    } : value == Strategy.bySource ? {
+        bySource: null
+    } : value;
+}
 function to_candid_variant_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Category): {
     rental: null;
 } | {
@@ -1825,6 +3372,47 @@ function to_candid_variant_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint
         underConstruction: null
     } : value;
 }
+function to_candid_variant_n132(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ActivityKind): {
+    siteVisit: null;
+} | {
+    call: null;
+} | {
+    note: null;
+} | {
+    message: null;
+} {
+    return value == ActivityKind.siteVisit ? {
+        siteVisit: null
+    } : value == ActivityKind.call ? {
+        call: null
+    } : value == ActivityKind.note ? {
+        note: null
+    } : value == ActivityKind.message ? {
+        message: null
+    } : value;
+}
+function to_candid_variant_n141(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Outcome): {
+    won: null;
+} | {
+    lost: null;
+} {
+    return value == Outcome.won ? {
+        won: null
+    } : value == Outcome.lost ? {
+        lost: null
+    } : value;
+}
+function to_candid_variant_n149(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: VisitOutcome): {
+    done: null;
+} | {
+    noShow: null;
+} {
+    return value == VisitOutcome.done ? {
+        done: null
+    } : value == VisitOutcome.noShow ? {
+        noShow: null
+    } : value;
+}
 function to_candid_variant_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PropertyType): {
     commercial: null;
 } | {
@@ -1986,6 +3574,15 @@ function to_candid_variant_n95(_uploadFile: (file: ExternalBlob) => Promise<Uint
         inProgress: null
     } : value;
 }
+function to_candid_vec_n115(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Source>): Array<_Source> {
+    return value.map((x)=>to_candid_Source_n10(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n128(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Activity>): Array<_Activity> {
+    return value.map((x)=>to_candid_Activity_n129(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n154(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Customer>): Array<_Customer> {
+    return value.map((x)=>to_candid_Customer_n155(_uploadFile, _downloadFile, x));
+}
 async function to_candid_vec_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<ExternalBlob>): Promise<Array<_ExternalBlob>> {
     return await Promise.all(value.map(async (x)=>await to_candid_ExternalBlob_n21(_uploadFile, _downloadFile, x)));
 }
@@ -2007,6 +3604,414 @@ function to_candid_vec_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Arr
 function to_candid_vec_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<[bigint | null, bigint | null]>): Array<[[] | [bigint], [] | [bigint]]> {
     return value.map((x)=>to_candid_tuple_n32(_uploadFile, _downloadFile, x));
 }
+async function from_candid_DataSnapshot_n96(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DataSnapshot): Promise<DataSnapshot> {
+    return await from_candid_record_n97(_uploadFile, _downloadFile, value);
+}
+async function from_candid_record_n97(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    assignmentCursors: Array<[string, bigint]>;
+    propertyHistory: Array<[string, Array<_PropertyChange>]>;
+    createdAt: _Time;
+    requirementAlerts: Array<_MatchAlert>;
+    agents: Array<_Profile>;
+    priceHistory: Array<[string, Array<_PricePoint>]>;
+    siteVisits: Array<_SiteVisit>;
+    properties: Array<_Property>;
+    userProfiles: Array<[Principal, _UserProfile]>;
+    zones: Array<_Zone>;
+    requirements: Array<_Requirement>;
+    assignmentRules: Array<_Rule>;
+    mapPresets: Array<_MapPreset>;
+    customers: Array<_Customer>;
+    inquiries: Array<_Inquiry>;
+}): Promise<{
+    assignmentCursors: Array<[string, bigint]>;
+    propertyHistory: Array<[string, Array<PropertyChange>]>;
+    createdAt: Time;
+    requirementAlerts: Array<MatchAlert>;
+    agents: Array<Profile>;
+    priceHistory: Array<[string, Array<PricePoint>]>;
+    siteVisits: Array<SiteVisit>;
+    properties: Array<Property>;
+    userProfiles: Array<[Principal, UserProfile]>;
+    zones: Array<Zone>;
+    requirements: Array<Requirement>;
+    assignmentRules: Array<Rule>;
+    mapPresets: Array<MapPreset>;
+    customers: Array<Customer>;
+    inquiries: Array<Inquiry>;
+}> {
+    return {
+        assignmentCursors: value.assignmentCursors,
+        propertyHistory: value.propertyHistory,
+        createdAt: value.createdAt,
+        requirementAlerts: value.requirementAlerts,
+        agents: from_candid_vec_n55(_uploadFile, _downloadFile, value.agents),
+        priceHistory: value.priceHistory,
+        siteVisits: from_candid_vec_n142(_uploadFile, _downloadFile, value.siteVisits),
+        properties: await from_candid_vec_n34(_uploadFile, _downloadFile, value.properties),
+        userProfiles: value.userProfiles,
+        zones: value.zones,
+        requirements: from_candid_vec_n157(_uploadFile, _downloadFile, value.requirements),
+        assignmentRules: from_candid_vec_n117(_uploadFile, _downloadFile, value.assignmentRules),
+        mapPresets: from_candid_vec_n168(_uploadFile, _downloadFile, value.mapPresets),
+        customers: from_candid_vec_n150(_uploadFile, _downloadFile, value.customers),
+        inquiries: from_candid_vec_n56(_uploadFile, _downloadFile, value.inquiries)
+    };
+}
+async function to_candid_DataSnapshot_n98(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DataSnapshot): Promise<_DataSnapshot> {
+    return await to_candid_record_n99(_uploadFile, _downloadFile, value);
+}
+async function to_candid_record_n99(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    assignmentCursors: Array<[string, bigint]>;
+    propertyHistory: Array<[string, Array<PropertyChange>]>;
+    createdAt: Time;
+    requirementAlerts: Array<MatchAlert>;
+    agents: Array<Profile>;
+    priceHistory: Array<[string, Array<PricePoint>]>;
+    siteVisits: Array<SiteVisit>;
+    properties: Array<Property>;
+    userProfiles: Array<[Principal, UserProfile]>;
+    zones: Array<Zone>;
+    requirements: Array<Requirement>;
+    assignmentRules: Array<Rule>;
+    mapPresets: Array<MapPreset>;
+    customers: Array<Customer>;
+    inquiries: Array<Inquiry>;
+}): Promise<{
+    assignmentCursors: Array<[string, bigint]>;
+    propertyHistory: Array<[string, Array<_PropertyChange>]>;
+    createdAt: _Time;
+    requirementAlerts: Array<_MatchAlert>;
+    agents: Array<_Profile>;
+    priceHistory: Array<[string, Array<_PricePoint>]>;
+    siteVisits: Array<_SiteVisit>;
+    properties: Array<_Property>;
+    userProfiles: Array<[Principal, _UserProfile]>;
+    zones: Array<_Zone>;
+    requirements: Array<_Requirement>;
+    assignmentRules: Array<_Rule>;
+    mapPresets: Array<_MapPreset>;
+    customers: Array<_Customer>;
+    inquiries: Array<_Inquiry>;
+}> {
+    return {
+        assignmentCursors: value.assignmentCursors,
+        propertyHistory: value.propertyHistory,
+        createdAt: value.createdAt,
+        requirementAlerts: value.requirementAlerts,
+        agents: to_candid_vec_n100(_uploadFile, _downloadFile, value.agents),
+        priceHistory: value.priceHistory,
+        siteVisits: to_candid_vec_n179(_uploadFile, _downloadFile, value.siteVisits),
+        properties: await to_candid_vec_n103(_uploadFile, _downloadFile, value.properties),
+        userProfiles: value.userProfiles,
+        zones: value.zones,
+        requirements: to_candid_vec_n182(_uploadFile, _downloadFile, value.requirements),
+        assignmentRules: to_candid_vec_n185(_uploadFile, _downloadFile, value.assignmentRules),
+        mapPresets: to_candid_vec_n188(_uploadFile, _downloadFile, value.mapPresets),
+        customers: to_candid_vec_n154(_uploadFile, _downloadFile, value.customers),
+        inquiries: to_candid_vec_n106(_uploadFile, _downloadFile, value.inquiries)
+    };
+}
+function to_candid_vec_n100(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Profile>): Array<_Profile> {
+    return value.map((x)=>to_candid_Profile_n101(_uploadFile, _downloadFile, x));
+}
+function to_candid_Profile_n101(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Profile): _Profile {
+    return to_candid_record_n102(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n102(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: Principal;
+    active: boolean;
+    contactInfo: string;
+    name: string;
+    createdAt: Time;
+    role: Role;
+    updatedAt: Time;
+}): {
+    id: Principal;
+    active: boolean;
+    contactInfo: string;
+    name: string;
+    createdAt: _Time;
+    role: _Role;
+    updatedAt: _Time;
+} {
+    return {
+        id: value.id,
+        active: value.active,
+        contactInfo: value.contactInfo,
+        name: value.name,
+        createdAt: value.createdAt,
+        role: to_candid_Role_n8(_uploadFile, _downloadFile, value.role),
+        updatedAt: value.updatedAt
+    };
+}
+async function to_candid_vec_n103(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Property>): Promise<Array<_Property>> {
+    return await Promise.all(value.map(async (x)=>await to_candid_Property_n104(_uploadFile, _downloadFile, x)));
+}
+async function to_candid_Property_n104(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Property): Promise<_Property> {
+    return await to_candid_record_n105(_uploadFile, _downloadFile, value);
+}
+async function to_candid_record_n105(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    status: Status;
+    title: string;
+    propertyType: PropertyType;
+    listedBy: Principal;
+    createdAt: Time;
+    description: string;
+    updatedAt: Time;
+    category: Category;
+    configuration: Configuration;
+    price: bigint;
+    furnishing: Furnishing;
+    location: Location;
+    archived: boolean;
+    coordinates: Coordinates;
+    images: Array<ExternalBlob>;
+}): Promise<{
+    id: string;
+    status: _Status;
+    title: string;
+    propertyType: _PropertyType;
+    listedBy: Principal;
+    createdAt: _Time;
+    description: string;
+    updatedAt: _Time;
+    category: _Category;
+    configuration: _Configuration;
+    price: bigint;
+    furnishing: _Furnishing;
+    location: _Location;
+    archived: boolean;
+    coordinates: _Coordinates;
+    images: Array<_ExternalBlob>;
+}> {
+    return {
+        id: value.id,
+        status: to_candid_Status_n28(_uploadFile, _downloadFile, value.status),
+        title: value.title,
+        propertyType: to_candid_PropertyType_n14(_uploadFile, _downloadFile, value.propertyType),
+        listedBy: value.listedBy,
+        createdAt: value.createdAt,
+        description: value.description,
+        updatedAt: value.updatedAt,
+        category: to_candid_Category_n12(_uploadFile, _downloadFile, value.category),
+        configuration: to_candid_Configuration_n16(_uploadFile, _downloadFile, value.configuration),
+        price: value.price,
+        furnishing: to_candid_Furnishing_n18(_uploadFile, _downloadFile, value.furnishing),
+        location: value.location,
+        archived: value.archived,
+        coordinates: value.coordinates,
+        images: await to_candid_vec_n20(_uploadFile, _downloadFile, value.images)
+    };
+}
+function to_candid_vec_n106(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Inquiry>): Array<_Inquiry> {
+    return value.map((x)=>to_candid_Inquiry_n107(_uploadFile, _downloadFile, x));
+}
+function to_candid_Inquiry_n107(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Inquiry): _Inquiry {
+    return to_candid_record_n108(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n108(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    customerName: string;
+    status: Status__1;
+    contactInfo: string;
+    source: Source;
+    assignedAgent: Principal;
+    createdAt: Time;
+    propertyId: string;
+    closure?: Closure;
+    updatedAt: Time;
+    customerId: string;
+    followUpAt?: Time;
+    activity: Array<Activity>;
+    followUpNote: string;
+}): {
+    id: string;
+    customerName: string;
+    status: _Status__1;
+    contactInfo: string;
+    source: _Source;
+    assignedAgent: Principal;
+    createdAt: _Time;
+    propertyId: string;
+    closure: [] | [_Closure];
+    updatedAt: _Time;
+    customerId: string;
+    followUpAt: [] | [_Time];
+    activity: Array<_Activity>;
+    followUpNote: string;
+} {
+    return {
+        id: value.id,
+        customerName: value.customerName,
+        status: to_candid_Status__1_n94(_uploadFile, _downloadFile, value.status),
+        contactInfo: value.contactInfo,
+        source: to_candid_Source_n10(_uploadFile, _downloadFile, value.source),
+        assignedAgent: value.assignedAgent,
+        createdAt: value.createdAt,
+        propertyId: value.propertyId,
+        closure: value.closure ? candid_some(to_candid_Closure_n138(_uploadFile, _downloadFile, value.closure)) : candid_none(),
+        updatedAt: value.updatedAt,
+        customerId: value.customerId,
+        followUpAt: value.followUpAt ? candid_some(value.followUpAt) : candid_none(),
+        activity: to_candid_vec_n128(_uploadFile, _downloadFile, value.activity),
+        followUpNote: value.followUpNote
+    };
+}
+function to_candid_vec_n179(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<SiteVisit>): Array<_SiteVisit> {
+    return value.map((x)=>to_candid_SiteVisit_n180(_uploadFile, _downloadFile, x));
+}
+function to_candid_SiteVisit_n180(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: SiteVisit): _SiteVisit {
+    return to_candid_record_n181(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n181(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    agent: Principal;
+    bookedBy: Principal;
+    startsAt: Time;
+    createdAt: Time;
+    propertyId: string;
+    outcome?: VisitOutcome;
+    endsAt: Time;
+    inquiryId: string;
+}): {
+    id: string;
+    agent: Principal;
+    bookedBy: Principal;
+    startsAt: _Time;
+    createdAt: _Time;
+    propertyId: string;
+    outcome: [] | [_VisitOutcome];
+    endsAt: _Time;
+    inquiryId: string;
+} {
+    return {
+        id: value.id,
+        agent: value.agent,
+        bookedBy: value.bookedBy,
+        startsAt: value.startsAt,
+        createdAt: value.createdAt,
+        propertyId: value.propertyId,
+        outcome: value.outcome ? candid_some(to_candid_VisitOutcome_n148(_uploadFile, _downloadFile, value.outcome)) : candid_none(),
+        endsAt: value.endsAt,
+        inquiryId: value.inquiryId
+    };
+}
+function to_candid_vec_n182(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Requirement>): Array<_Requirement> {
+    return value.map((x)=>to_candid_Requirement_n183(_uploadFile, _downloadFile, x));
+}
+function to_candid_Requirement_n183(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Requirement): _Requirement {
+    return to_candid_record_n184(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n184(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    agent: Principal;
+    note: string;
+    open: boolean;
+    createdAt: Time;
+    updatedAt: Time;
+    filter: AdvancedFilter;
+    customerId: string;
+}): {
+    id: string;
+    agent: Principal;
+    note: string;
+    open: boolean;
+    createdAt: _Time;
+    updatedAt: _Time;
+    filter: _AdvancedFilter;
+    customerId: string;
+} {
+    return {
+        id: value.id,
+        agent: value.agent,
+        note: value.note,
+        open: value.open,
+        createdAt: value.createdAt,
+        updatedAt: value.updatedAt,
+        filter: to_candid_AdvancedFilter_n22(_uploadFile, _downloadFile, value.filter),
+        customerId: value.customerId
+    };
+}
+function to_candid_vec_n185(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Rule>): Array<_Rule> {
+    return value.map((x)=>to_candid_Rule_n186(_uploadFile, _downloadFile, x));
+}
+function to_candid_Rule_n186(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Rule): _Rule {
+    return to_candid_record_n187(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n187(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    strategy: Strategy;
+    name: string;
+    createdAt: Time;
+    agents: Array<Principal>;
+    enabled: boolean;
+    updatedAt: Time;
+    sources: Array<Source>;
+    priority: bigint;
+    location: string;
+}): {
+    id: string;
+    strategy: _Strategy;
+    name: string;
+    createdAt: _Time;
+    agents: Array<Principal>;
+    enabled: boolean;
+    updatedAt: _Time;
+    sources: Array<_Source>;
+    priority: bigint;
+    location: string;
+} {
+    return {
+        id: value.id,
+        strategy: to_candid_Strategy_n113(_uploadFile, _downloadFile, value.strategy),
+        name: value.name,
+        createdAt: value.createdAt,
+        agents: value.agents,
+        enabled: value.enabled,
+        updatedAt: value.updatedAt,
+        sources: to_candid_vec_n115(_uploadFile, _downloadFile, value.sources),
+        priority: value.priority,
+        location: value.location
+    };
+}
+function to_candid_vec_n188(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<MapPreset>): Array<_MapPreset> {
+    return value.map((x)=>to_candid_MapPreset_n189(_uploadFile, _downloadFile, x));
+}
+function to_candid_MapPreset_n189(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: MapPreset): _MapPreset {
+    return to_candid_record_n190(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n190(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    filters: SearchCriteria;
+    owner: Principal;
+    name: string;
+    createdAt: Time;
+    sharedWithTeam: boolean;
+    updatedAt: Time;
+    pinnedBy: Array<Principal>;
+}): {
+    id: string;
+    filters: _SearchCriteria;
+    owner: Principal;
+    name: string;
+    createdAt: _Time;
+    sharedWithTeam: boolean;
+    updatedAt: _Time;
+    pinnedBy: Array<Principal>;
+} {
+    return {
+        id: value.id,
+        filters: to_candid_SearchCriteria_n92(_uploadFile, _downloadFile, value.filters),
+        owner: value.owner,
+        name: value.name,
+        createdAt: value.createdAt,
+        sharedWithTeam: value.sharedWithTeam,
+        updatedAt: value.updatedAt,
+        pinnedBy: value.pinnedBy
+    };
+}
 export interface CreateActorOptions {
     agent?: Agent;
     agentOptions?: HttpAgentOptions;
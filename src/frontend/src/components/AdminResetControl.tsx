@@ -1,33 +1,97 @@
 import { useState } from 'react';
-import { useIsCallerAdmin, useResetToFreshDraft } from '../hooks/useQueries';
+import { useIsCallerAdmin, useResetSelectedData, useExportDataSnapshot, useRestoreDataSnapshot } from '../hooks/useQueries';
+import type { DataSnapshot, ResetScope } from '../backend';
+import { downloadSnapshot, parseSnapshot, summarizeSnapshot } from '../utils/dataSnapshot';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Checkbox } from './ui/checkbox';
+import { AlertTriangle, Download, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 
+// `alsoDeletes` lists what the backend clears alongside each choice, since those records can't outlive it
+const RESET_SCOPE_OPTIONS: Array<{ key: keyof ResetScope; label: string; alsoDeletes: string }> = [
+  {
+    key: 'agents',
+    label: 'All agents and their profiles',
+    alsoDeletes: 'Also deletes assignment rules, site visits, buyer requirements, match alerts and map presets',
+  },
+  {
+    key: 'properties',
+    label: 'All properties and images',
+    alsoDeletes:
+      'Also deletes all inquiries, change and price history, site visits, customers, buyer requirements, match alerts and zones',
+  },
+  {
+    key: 'inquiries',
+    label: 'All inquiries and customer data',
+    alsoDeletes: 'Also deletes site visits, customers, buyer requirements and match alerts',
+  },
+  { key: 'userProfiles', label: 'All user profiles', alsoDeletes: '' },
+];
+
+const FULL_RESET_SCOPE: ResetScope = {
+  agents: true,
+  properties: true,
+  inquiries: true,
+  userProfiles: true,
+};
+
 export default function AdminResetControl() {
   const { data: isAdmin, isLoading: isAdminLoading } = useIsCallerAdmin();
-  const resetMutation = useResetToFreshDraft();
+  const resetMutation = useResetSelectedData();
+  const exportSnapshotMutation = useExportDataSnapshot();
+  const restoreSnapshotMutation = useRestoreDataSnapshot();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [confirmationText, setConfirmationText] = useState('');
+  const [resetScope, setResetScope] = useState<ResetScope>(FULL_RESET_SCOPE);
+  const [isSavingSnapshot, setIsSavingSnapshot] = useState(false);
+  const [isRestoreDialogOpen, setIsRestoreDialogOpen] = useState(false);
+  const [restoreSnapshot, setRestoreSnapshot] = useState<DataSnapshot | null>(null);
+  const [restoreError, setRestoreError] = useState('');
 
   // Only render for admins
   if (isAdminLoading || !isAdmin) {
     return null;
   }
 
-  const isConfirmationValid = confirmationText === 'RESET';
-  const isResetting = resetMutation.isPending;
+  const isScopeSelected = Object.values(resetScope).some(Boolean);
+  const isConfirmationValid = confirmationText === 'RESET' && isScopeSelected;
+  const isResetting = isSavingSnapshot || resetMutation.isPending;
+  const isRestoring = restoreSnapshotMutation.isPending;
+  const restoreSummary = restoreSnapshot ? summarizeSnapshot(restoreSnapshot) : null;
+
+  const saveSnapshot = async () => {
+    setIsSavingSnapshot(true);
+    try {
+      const snapshot = await exportSnapshotMutation.mutateAsync();
+      await downloadSnapshot(snapshot);
+      toast.success('Data snapshot downloaded');
+    } finally {
+      setIsSavingSnapshot(false);
+    }
+  };
+
+  const handleDownloadSnapshot = async () => {
+    try {
+      await saveSnapshot();
+    } catch (error) {
+      console.error('Snapshot download failed:', error);
+    }
+  };
 
   const handleReset = async () => {
     if (!isConfirmationValid) return;
 
     try {
-      await resetMutation.mutateAsync();
+      // Always keep a way back: the reset only proceeds once the snapshot has been downloaded
+      await saveSnapshot();
+      await resetMutation.mutateAsync(resetScope);
       setIsDialogOpen(false);
       setConfirmationText('');
+      setResetScope(FULL_RESET_SCOPE);
     } catch (error) {
       // Error is already handled by the mutation's onError
       console.error('Reset failed:', error);
@@ -38,6 +102,46 @@ export default function AdminResetControl() {
     if (!isResetting) {
       setIsDialogOpen(false);
       setConfirmationText('');
+      setResetScope(FULL_RESET_SCOPE);
+    }
+  };
+
+  const toggleResetScope = (key: keyof ResetScope, checked: boolean) => {
+    setResetScope((prev) => ({ ...prev, [key]: checked }));
+  };
+
+  const handleSnapshotFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setRestoreSnapshot(null);
+    setRestoreError('');
+    if (!file) return;
+
+    try {
+      setRestoreSnapshot(parseSnapshot(await file.text()));
+    } catch (error) {
+      setRestoreError(error instanceof Error ? error.message : 'Could not read snapshot file');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreSnapshot) return;
+
+    try {
+      await restoreSnapshotMutation.mutateAsync(restoreSnapshot);
+      setIsRestoreDialogOpen(false);
+      setRestoreSnapshot(null);
+      setRestoreError('');
+    } catch (error) {
+      // Error is already handled by the mutation's onError
+      console.error('Restore failed:', error);
+    }
+  };
+
+  const handleRestoreDialogClose = () => {
+    if (!isRestoring) {
+      setIsRestoreDialogOpen(false);
+      setRestoreSnapshot(null);
+      setRestoreError('');
     }
   };
 
@@ -48,83 +152,181 @@ export default function AdminResetControl() {
         <div>
           <h3 className="text-lg font-semibold text-destructive">Danger Zone</h3>
           <p className="mt-1 text-sm text-muted-foreground">
-            This action will permanently delete all application data including agents, properties, inquiries, and user profiles.
+            Resetting permanently deletes the selected application data: agents, properties, inquiries, or user profiles.
+            A snapshot of every record is downloaded first so the data can be restored later.
           </p>
         </div>
       </div>
 
-      <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
-        <DialogTrigger asChild>
-          <Button variant="destructive" disabled={isResetting}>
-            Reset App Data
-          </Button>
-        </DialogTrigger>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <AlertTriangle className="h-5 w-5 text-destructive" />
-              Confirm Reset to Fresh Draft
-            </DialogTitle>
-            <DialogDescription>
-              This action cannot be undone. All data will be permanently deleted.
-            </DialogDescription>
-          </DialogHeader>
-
-          <Alert variant="destructive">
-            <AlertTriangle className="h-4 w-4" />
-            <AlertTitle>Warning</AlertTitle>
-            <AlertDescription>
-              This will delete:
-              <ul className="mt-2 list-inside list-disc space-y-1 text-sm">
-                <li>All agents and their profiles</li>
-                <li>All properties and images</li>
-                <li>All inquiries and customer data</li>
-                <li>All user profiles</li>
-              </ul>
-            </AlertDescription>
-          </Alert>
-
-          <div className="space-y-2">
-            <Label htmlFor="confirmation">
-              Type <span className="font-mono font-bold">RESET</span> to confirm
-            </Label>
-            <Input
-              id="confirmation"
-              value={confirmationText}
-              onChange={(e) => setConfirmationText(e.target.value)}
-              placeholder="Type RESET here"
-              disabled={isResetting}
-              className="font-mono"
-            />
-          </div>
-
-          <DialogFooter className="gap-2 sm:gap-0">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={handleDialogClose}
-              disabled={isResetting}
-            >
-              Cancel
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleDownloadSnapshot} disabled={isResetting || isRestoring}>
+          {isSavingSnapshot && !isDialogOpen ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Download Snapshot
+        </Button>
+
+        <Dialog open={isRestoreDialogOpen} onOpenChange={(open) => (open ? setIsRestoreDialogOpen(true) : handleRestoreDialogClose())}>
+          <DialogTrigger asChild>
+            <Button variant="outline" disabled={isResetting || isRestoring}>
+              <Upload className="mr-2 h-4 w-4" />
+              Restore from Snapshot
             </Button>
-            <Button
-              type="button"
-              variant="destructive"
-              onClick={handleReset}
-              disabled={!isConfirmationValid || isResetting}
-            >
-              {isResetting ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Resetting...
-                </>
-              ) : (
-                'Reset Application Data'
-              )}
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Restore from Snapshot</DialogTitle>
+              <DialogDescription>
+                Replace all current application data with the records from a previously downloaded snapshot.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="snapshotFile">Snapshot file</Label>
+              <Input
+                id="snapshotFile"
+                type="file"
+                accept="application/json,.json"
+                onChange={handleSnapshotFileChange}
+                disabled={isRestoring}
+              />
+              {restoreError && <p className="text-sm text-destructive">{restoreError}</p>}
+            </div>
+
+            {restoreSummary && (
+              <Alert>
+                <AlertTitle>Snapshot from {restoreSummary.createdAt.toLocaleString()}</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 list-inside list-disc space-y-1 text-sm">
+                    <li>{restoreSummary.agentCount} agents</li>
+                    <li>{restoreSummary.propertyCount} properties</li>
+                    <li>{restoreSummary.inquiryCount} inquiries</li>
+                    <li>{restoreSummary.customerCount} customers</li>
+                    <li>{restoreSummary.userProfileCount} user profiles</li>
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleRestoreDialogClose}
+                disabled={isRestoring}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleRestore}
+                disabled={!restoreSnapshot || isRestoring}
+              >
+                {isRestoring ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Restoring...
+                  </>
+                ) : (
+                  'Restore Snapshot'
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : handleDialogClose())}>
+          <DialogTrigger asChild>
+            <Button variant="destructive" disabled={isResetting || isRestoring}>
+              Reset App Data
             </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+                Confirm Reset of App Data
+              </DialogTitle>
+              <DialogDescription>
+                A snapshot of all data will be downloaded before anything is deleted. Keep it safe to restore the data later.
+              </DialogDescription>
+            </DialogHeader>
+
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Warning</AlertTitle>
+              <AlertDescription>
+                Select what to delete:
+                <div className="mt-2 space-y-2">
+                  {RESET_SCOPE_OPTIONS.map(({ key, label, alsoDeletes }) => {
+                    // Inquiries always go with the properties they refer to
+                    const isForced = key === 'inquiries' && resetScope.properties;
+                    return (
+                      <div key={key} className="flex items-start gap-2">
+                        <Checkbox
+                          id={`reset-${key}`}
+                          checked={resetScope[key] || isForced}
+                          onCheckedChange={(checked) => toggleResetScope(key, checked === true)}
+                          disabled={isResetting || isForced}
+                          className="mt-0.5"
+                        />
+                        <div>
+                          <Label htmlFor={`reset-${key}`} className="text-sm font-normal">
+                            {label}
+                          </Label>
+                          {alsoDeletes && <p className="text-xs opacity-80">{alsoDeletes}</p>}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </AlertDescription>
+            </Alert>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmation">
+                Type <span className="font-mono font-bold">RESET</span> to confirm
+              </Label>
+              <Input
+                id="confirmation"
+                value={confirmationText}
+                onChange={(e) => setConfirmationText(e.target.value)}
+                placeholder="Type RESET here"
+                disabled={isResetting}
+                className="font-mono"
+              />
+            </div>
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleDialogClose}
+                disabled={isResetting}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={handleReset}
+                disabled={!isConfirmationValid || isResetting}
+              >
+                {isResetting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {isSavingSnapshot ? 'Saving snapshot...' : 'Resetting...'}
+                  </>
+                ) : (
+                  'Download Snapshot & Reset'
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { useGetAllProperties } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, X } from 'lucide-react';
+import { Category, Configuration, Furnishing, PropertyType, Status, type AdvancedFilter } from '../backend';
+import { CONFIGURATION_LABELS } from './CustomerForm';
+import { CATEGORY_LABELS, FURNISHING_LABELS } from './RequirementForm';
+import { countAdvancedCriteria, formatLocation, formatPriceRange } from '../utils/advancedFilter';
+
+const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  [PropertyType.residential]: 'Residential',
+  [PropertyType.commercial]: 'Commercial',
+  [PropertyType.industrial]: 'Industrial',
+};
+
+const STATUS_LABELS: Record<Status, string> = {
+  [Status.available]: 'Available',
+  [Status.sold]: 'Sold',
+  [Status.rented]: 'Rented',
+  [Status.underContract]: 'Under Contract',
+};
+
+// Select items can't have an empty value, so this stands for "any area in the suburb"
+const ANY_AREA = 'any';
+
+interface AdvancedFilterPanelProps {
+  filter: AdvancedFilter;
+  onChange: (filter: AdvancedFilter) => void;
+  onClose: () => void;
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export default function AdvancedFilterPanel({ filter, onChange, onClose }: AdvancedFilterPanelProps) {
+  const { data: properties = [] } = useGetAllProperties();
+
+  const [suburb, setSuburb] = useState('');
+  const [area, setArea] = useState(ANY_AREA);
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [lat, setLat] = useState('');
+  const [lng, setLng] = useState('');
+  const [radiusKm, setRadiusKm] = useState('2');
+  const [error, setError] = useState<string | null>(null);
+
+  const knownSuburbs = Array.from(new Set(properties.map((p) => p.location.suburb.trim()).filter(Boolean))).sort();
+  const knownAreas = Array.from(
+    new Set(properties.filter((p) => p.location.suburb.trim() === suburb).map((p) => p.location.area.trim()).filter(Boolean))
+  ).sort();
+
+  const update = (changes: Partial<AdvancedFilter>) => {
+    onChange({ ...filter, ...changes });
+  };
+
+  const addLocation = () => {
+    if (!suburb) return;
+    const location = { city: '', suburb, area: area === ANY_AREA ? '' : area, roadName: '' };
+    if (!filter.locations.some((l) => formatLocation(l) === formatLocation(location))) {
+      update({ locations: [...filter.locations, location] });
+    }
+    setSuburb('');
+    setArea(ANY_AREA);
+  };
+
+  const addPriceRange = () => {
+    const min = minPrice ? Number(minPrice) : null;
+    const max = maxPrice ? Number(maxPrice) : null;
+    if ((min !== null && (!Number.isInteger(min) || min < 0)) || (max !== null && (!Number.isInteger(max) || max < 0))) {
+      setError('Prices must be whole numbers of rupees');
+      return;
+    }
+    if (min === null && max === null) {
+      setError('Enter a minimum, a maximum or both');
+      return;
+    }
+    if (min !== null && max !== null && max < min) {
+      setError('Maximum price cannot be below the minimum');
+      return;
+    }
+    update({ priceRanges: [...filter.priceRanges, [min !== null ? BigInt(min) : null, max !== null ? BigInt(max) : null]] });
+    setMinPrice('');
+    setMaxPrice('');
+    setError(null);
+  };
+
+  const centreOnProperty = (propertyId: string) => {
+    const property = properties.find((p) => p.id === propertyId);
+    if (property) {
+      setLat(String(property.coordinates.lat));
+      setLng(String(property.coordinates.lng));
+    }
+  };
+
+  const addCircle = () => {
+    const latValue = Number(lat);
+    const lngValue = Number(lng);
+    const radius = Number(radiusKm);
+    if (!lat || !lng || Number.isNaN(latValue) || Number.isNaN(lngValue) || Math.abs(latValue) > 90 || Math.abs(lngValue) > 180) {
+      setError('Enter a valid latitude and longitude, or centre on a listing');
+      return;
+    }
+    if (!(radius > 0)) {
+      setError('Radius must be greater than zero');
+      return;
+    }
+    update({ coordinateFilters: [...filter.coordinateFilters, { lat: latValue, lng: lngValue, radius }] });
+    setLat('');
+    setLng('');
+    setError(null);
+  };
+
+  const clearAll = () => {
+    onChange({
+      categories: [],
+      propertyTypes: [],
+      configurations: [],
+      furnishings: [],
+      statuses: [],
+      locations: [],
+      priceRanges: [],
+      coordinateFilters: [],
+    });
+    setError(null);
+  };
+
+  const renderOptions = <T extends string>(options: T[], selected: T[], labels: Record<T, string>, onToggle: (value: T) => void) => (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <Badge
+          key={option}
+          variant={selected.includes(option) ? 'default' : 'outline'}
+          className="cursor-pointer"
+          onClick={() => onToggle(option)}
+        >
+          {labels[option]}
+        </Badge>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Advanced Filters</CardTitle>
+          <CardDescription>
+            Pick any number of options in each group. A listing shows if it matches one option from every group you use.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={clearAll} disabled={countAdvancedCriteria(filter) === 0}>
+            Clear
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="space-y-2">
+          <Label>Configurations</Label>
+          {renderOptions(Object.values(Configuration), filter.configurations, CONFIGURATION_LABELS, (configuration) =>
+            update({ configurations: toggle(filter.configurations, configuration) })
+          )}
+        </div>
+
+        <div className="grid gap-5 md:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Category</Label>
+            {renderOptions(Object.values(Category), filter.categories, CATEGORY_LABELS, (category) =>
+              update({ categories: toggle(filter.categories, category) })
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Property Type</Label>
+            {renderOptions(Object.values(PropertyType), filter.propertyTypes, PROPERTY_TYPE_LABELS, (propertyType) =>
+              update({ propertyTypes: toggle(filter.propertyTypes, propertyType) })
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Furnishing</Label>
+            {renderOptions(Object.values(Furnishing), filter.furnishings, FURNISHING_LABELS, (furnishing) =>
+              update({ furnishings: toggle(filter.furnishings, furnishing) })
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            {renderOptions(Object.values(Status), filter.statuses, STATUS_LABELS, (status) =>
+              update({ statuses: toggle(filter.statuses, status) })
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-5 lg:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Locations</Label>
+            <div className="flex gap-2">
+              <Select
+                value={suburb}
+                onValueChange={(value) => {
+                  setSuburb(value);
+                  setArea(ANY_AREA);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Suburb" />
+                </SelectTrigger>
+                <SelectContent>
+                  {knownSuburbs.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {s}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={area} onValueChange={setArea} disabled={!suburb}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Area" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_AREA}>Any area</SelectItem>
+                  {knownAreas.map((a) => (
+                    <SelectItem key={a} value={a}>
+                      {a}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" onClick={addLocation} disabled={!suburb} title="Add location">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {filter.locations.map((location, index) => (
+                <Badge key={formatLocation(location)} variant="secondary" className="gap-1">
+                  {formatLocation(location)}
+                  <X
+                    className="h-3 w-3 cursor-pointer"
+                    onClick={() => update({ locations: filter.locations.filter((_, i) => i !== index) })}
+                  />
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Price Ranges (₹)</Label>
+            <div className="flex gap-2">
+              <Input type="number" min={0} value={minPrice} onChange={(e) => setMinPrice(e.target.value)} placeholder="Min" />
+              <Input type="number" min={0} value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} placeholder="Max" />
+              <Button variant="outline" size="icon" onClick={addPriceRange} disabled={!minPrice && !maxPrice} title="Add price range">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {filter.priceRanges.map((range, index) => (
+                <Badge key={index} variant="secondary" className="gap-1">
+                  {formatPriceRange(range)}
+                  <X
+                    className="h-3 w-3 cursor-pointer"
+                    onClick={() => update({ priceRanges: filter.priceRanges.filter((_, i) => i !== index) })}
+                  />
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Near a Point</Label>
+            <Select value="" onValueChange={centreOnProperty}>
+              <SelectTrigger>
+                <SelectValue placeholder="Centre on a listing" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map((property) => (
+                  <SelectItem key={property.id} value={property.id}>
+                    {property.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Input type="number" step="any" value={lat} onChange={(e) => setLat(e.target.value)} placeholder="Latitude" />
+              <Input type="number" step="any" value={lng} onChange={(e) => setLng(e.target.value)} placeholder="Longitude" />
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={radiusKm}
+                onChange={(e) => setRadiusKm(e.target.value)}
+                placeholder="Radius (km)"
+                className="w-24"
+              />
+              <Button variant="outline" size="icon" onClick={addCircle} disabled={!lat || !lng} title="Add point">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {filter.coordinateFilters.map((circle, index) => (
+                <Badge key={index} variant="secondary" className="gap-1">
+                  {circle.radius} km of {circle.lat.toFixed(4)}, {circle.lng.toFixed(4)}
+                  <X
+                    className="h-3 w-3 cursor-pointer"
+                    onClick={() => update({ coordinateFilters: filter.coordinateFilters.filter((_, i) => i !== index) })}
+                  />
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Download, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Profile } from '../backend';
+import { encodeQrCode, qrCodeToSvg } from '../utils/qrCode';
+import { buildVCard, downloadVCard, ROLE_LABELS, vCardFileName, VCARD_ORGANIZATION } from '../utils/vCard';
+
+interface AgentContactCardProps {
+  agent: Profile | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export default function AgentContactCard({ agent, onOpenChange }: AgentContactCardProps) {
+  // vCard 3.0 is read by more phone camera apps than 4.0
+  const vCard = agent ? buildVCard(agent, '3.0') : '';
+  const qrSvg = useMemo(() => (vCard ? qrCodeToSvg(encodeQrCode(vCard)) : ''), [vCard]);
+
+  const handlePrint = () => {
+    if (!agent) return;
+    const printWindow = window.open('', '_blank', 'width=480,height=640');
+    if (!printWindow) {
+      toast.error('Failed to open the print window: allow pop-ups for this site and try again');
+      return;
+    }
+
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>${escapeHtml(agent.name)} – Contact Card</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0; padding: 24px; }
+  .card { width: 85mm; border: 1px solid #d4d4d8; border-radius: 8px; padding: 16px; text-align: center; }
+  .card h1 { font-size: 18px; margin: 0 0 4px; }
+  .card p { font-size: 12px; margin: 2px 0; color: #52525b; }
+  .card svg { width: 45mm; height: 45mm; margin-top: 12px; }
+  @media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+<div class="card">
+  <h1>${escapeHtml(agent.name)}</h1>
+  <p>${escapeHtml(ROLE_LABELS[agent.role])}</p>
+  <p>${escapeHtml(agent.contactInfo)}</p>
+  <p>${escapeHtml(VCARD_ORGANIZATION)}</p>
+  ${qrSvg}
+  <p>Scan to save contact</p>
+</div>
+</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <Dialog open={!!agent} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Contact Card</DialogTitle>
+          <DialogDescription>Print this card so customers can scan the code to save the agent's contact details</DialogDescription>
+        </DialogHeader>
+
+        {agent && (
+          <div className="mx-auto w-full max-w-[320px] rounded-lg border p-4 text-center">
+            <p className="text-lg font-semibold">{agent.name}</p>
+            <p className="text-sm text-muted-foreground">{ROLE_LABELS[agent.role]}</p>
+            <p className="text-sm text-muted-foreground">{agent.contactInfo}</p>
+            <p className="text-xs text-muted-foreground">{VCARD_ORGANIZATION}</p>
+            <div
+              className="mx-auto mt-3 w-48 [&>svg]:h-auto [&>svg]:w-full"
+              // Generated locally from the agent's vCard, not user-supplied markup
+              dangerouslySetInnerHTML={{ __html: qrSvg }}
+            />
+            <p className="mt-2 text-xs text-muted-foreground">Scan to save contact</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => agent && downloadVCard(vCard, vCardFileName(agent.name))}>
+            <Download className="mr-2 h-4 w-4" />
+            Download vCard
+          </Button>
+          <Button onClick={handlePrint}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAddAssignmentRule, useUpdateAssignmentRule, useGetAllAgents, useGetAllProperties } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Checkbox } from './ui/checkbox';
+import { Loader2 } from 'lucide-react';
+import { Source, Strategy, type Rule } from '../backend';
+import { Principal } from '@dfinity/principal';
+
+interface AssignmentRuleFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: 'add' | 'edit';
+  rule?: Rule | null;
+}
+
+interface FormData {
+  name: string;
+  strategy: Strategy;
+  location: string;
+  sources: Source[];
+  agentIds: string[];
+}
+
+interface FormErrors {
+  name?: string;
+  location?: string;
+  sources?: string;
+}
+
+export const STRATEGY_LABELS: Record<Strategy, string> = {
+  [Strategy.roundRobin]: 'Round-robin',
+  [Strategy.bySuburb]: 'By suburb',
+  [Strategy.byArea]: 'By area',
+  [Strategy.bySource]: 'By source',
+  [Strategy.listingAgent]: 'Listing agent',
+};
+
+const STRATEGY_DESCRIPTIONS: Record<Strategy, string> = {
+  [Strategy.roundRobin]: 'Every inquiry matches; agents take turns receiving them.',
+  [Strategy.bySuburb]: 'Inquiries for properties in this suburb rotate between the chosen agents.',
+  [Strategy.byArea]: 'Inquiries for properties in this area rotate between the chosen agents.',
+  [Strategy.bySource]: 'Inquiries from these sources rotate between the chosen agents.',
+  [Strategy.listingAgent]: 'Inquiries go to the agent who listed the property, while that agent is active.',
+};
+
+export const SOURCE_LABELS: Record<Source, string> = {
+  [Source.website]: 'Website',
+  [Source.referral]: 'Referral',
+  [Source.walkIn]: 'Walk-in',
+  [Source.phone]: 'Phone',
+  [Source.socialMedia]: 'Social Media',
+};
+
+const EMPTY_FORM: FormData = {
+  name: '',
+  strategy: Strategy.roundRobin,
+  location: '',
+  sources: [],
+  agentIds: [],
+};
+
+export default function AssignmentRuleForm({ open, onOpenChange, mode, rule }: AssignmentRuleFormProps) {
+  const addRule = useAddAssignmentRule();
+  const updateRule = useUpdateAssignmentRule();
+  const { data: agents = [] } = useGetAllAgents();
+  const { data: properties = [] } = useGetAllProperties();
+
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  useEffect(() => {
+    if (mode === 'edit' && rule) {
+      setFormData({
+        name: rule.name,
+        strategy: rule.strategy,
+        location: rule.location,
+        sources: rule.sources,
+        agentIds: rule.agents.map((id) => id.toString()),
+      });
+    } else if (mode === 'add') {
+      setFormData(EMPTY_FORM);
+    }
+    setErrors({});
+  }, [mode, rule, open]);
+
+  // Suggest the suburbs and areas agents have actually listed in
+  const locationOptions = useMemo(() => {
+    const values = properties.map((p) => (formData.strategy === Strategy.byArea ? p.location.area : p.location.suburb));
+    return Array.from(new Set(values.filter(Boolean))).sort();
+  }, [properties, formData.strategy]);
+
+  const needsLocation = formData.strategy === Strategy.bySuburb || formData.strategy === Strategy.byArea;
+  const usesAgentPool = formData.strategy !== Strategy.listingAgent;
+
+  const toggleSource = (source: Source, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      sources: checked ? [...prev.sources, source] : prev.sources.filter((s) => s !== source),
+    }));
+  };
+
+  const toggleAgent = (agentId: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      agentIds: checked ? [...prev.agentIds, agentId] : prev.agentIds.filter((id) => id !== agentId),
+    }));
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Rule name is required';
+    }
+    if (needsLocation && !formData.location.trim()) {
+      newErrors.location = formData.strategy === Strategy.byArea ? 'Please choose an area' : 'Please choose a suburb';
+    }
+    if (formData.strategy === Strategy.bySource && formData.sources.length === 0) {
+      newErrors.sources = 'Please choose at least one source';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    // Only keep the fields the chosen strategy uses
+    const input = {
+      name: formData.name.trim(),
+      strategy: formData.strategy,
+      location: needsLocation ? formData.location.trim() : '',
+      sources: formData.strategy === Strategy.bySource ? formData.sources : [],
+      agentIds: usesAgentPool ? formData.agentIds.map((id) => Principal.fromText(id)) : [],
+    };
+
+    try {
+      if (mode === 'add') {
+        await addRule.mutateAsync(input);
+      } else if (mode === 'edit' && rule) {
+        await updateRule.mutateAsync({ ...input, ruleId: rule.id, enabled: rule.enabled });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Form submission error:', error);
+    }
+  };
+
+  const isSubmitting = addRule.isPending || updateRule.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{mode === 'add' ? 'Add Assignment Rule' : 'Edit Assignment Rule'}</DialogTitle>
+          <DialogDescription>
+            Inquiries added without an agent are assigned by the first enabled rule that matches
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="rule-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g. Mulund West leads"
+              className={errors.name ? 'border-destructive' : ''}
+              disabled={isSubmitting}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-strategy">Strategy</Label>
+            <Select
+              value={formData.strategy}
+              onValueChange={(value) => setFormData({ ...formData, strategy: value as Strategy, location: '' })}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="rule-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(Strategy).map((strategy) => (
+                  <SelectItem key={strategy} value={strategy}>
+                    {STRATEGY_LABELS[strategy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{STRATEGY_DESCRIPTIONS[formData.strategy]}</p>
+          </div>
+
+          {needsLocation && (
+            <div className="space-y-2">
+              <Label htmlFor="rule-location">
+                {formData.strategy === Strategy.byArea ? 'Area' : 'Suburb'} <span className="text-destructive">*</span>
+              </Label>
+              <Select
+                value={formData.location}
+                onValueChange={(value) => setFormData({ ...formData, location: value })}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="rule-location" className={errors.location ? 'border-destructive' : ''}>
+                  <SelectValue placeholder={formData.strategy === Strategy.byArea ? 'Select an area' : 'Select a suburb'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {/* Keep a saved location selectable even if no listing uses it any more */}
+                  {formData.location && !locationOptions.includes(formData.location) && (
+                    <SelectItem value={formData.location}>{formData.location}</SelectItem>
+                  )}
+                  {locationOptions.map((location) => (
+                    <SelectItem key={location} value={location}>
+                      {location}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.location && <p className="text-sm text-destructive">{errors.location}</p>}
+            </div>
+          )}
+
+          {formData.strategy === Strategy.bySource && (
+            <div className="space-y-2">
+              <Label>
+                Sources <span className="text-destructive">*</span>
+              </Label>
+              <div className="grid grid-cols-2 gap-2">
+                {Object.values(Source).map((source) => (
+                  <label key={source} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.sources.includes(source)}
+                      onCheckedChange={(checked) => toggleSource(source, checked === true)}
+                      disabled={isSubmitting}
+                    />
+                    {SOURCE_LABELS[source]}
+                  </label>
+                ))}
+              </div>
+              {errors.sources && <p className="text-sm text-destructive">{errors.sources}</p>}
+            </div>
+          )}
+
+          {usesAgentPool && (
+            <div className="space-y-2">
+              <Label>Agents</Label>
+              <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-3">
+                {agents.map((agent) => (
+                  <label key={agent.id.toString()} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.agentIds.includes(agent.id.toString())}
+                      onCheckedChange={(checked) => toggleAgent(agent.id.toString(), checked === true)}
+                      disabled={isSubmitting}
+                    />
+                    <span className={agent.active ? '' : 'text-muted-foreground line-through'}>{agent.name}</span>
+                    {!agent.active && <span className="text-xs text-muted-foreground">(inactive)</span>}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave empty to rotate between all active agents. Inactive agents are skipped until reactivated.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {mode === 'add' ? 'Add Rule' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
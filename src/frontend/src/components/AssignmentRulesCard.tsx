@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useGetAssignmentRules, useGetAllAgents, useUpdateAssignmentRule, useDeleteAssignmentRule, useReorderAssignmentRules } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { ArrowDown, ArrowUp, Edit, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Strategy, type Rule } from '../backend';
+import AssignmentRuleForm, { SOURCE_LABELS, STRATEGY_LABELS } from './AssignmentRuleForm';
+
+export default function AssignmentRulesCard() {
+  const { data: rules = [], isLoading } = useGetAssignmentRules();
+  const { data: agents = [] } = useGetAllAgents();
+  const updateRule = useUpdateAssignmentRule();
+  const deleteRule = useDeleteAssignmentRule();
+  const reorderRules = useReorderAssignmentRules();
+
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [ruleToEdit, setRuleToEdit] = useState<Rule | null>(null);
+
+  const describeMatch = (rule: Rule): string => {
+    switch (rule.strategy) {
+      case Strategy.bySuburb:
+      case Strategy.byArea:
+        return rule.location;
+      case Strategy.bySource:
+        return rule.sources.map((source) => SOURCE_LABELS[source]).join(', ');
+      default:
+        return 'Any inquiry';
+    }
+  };
+
+  const describeAgents = (rule: Rule) => {
+    if (rule.strategy === Strategy.listingAgent) {
+      return <span className="text-muted-foreground">Property's listing agent</span>;
+    }
+    if (rule.agents.length === 0) {
+      return <span className="text-muted-foreground">All active agents</span>;
+    }
+    return (
+      <div className="flex flex-wrap gap-1">
+        {rule.agents.map((agentId) => {
+          const agent = agents.find((a) => a.id.toString() === agentId.toString());
+          return (
+            <Badge key={agentId.toString()} variant={agent?.active ? 'secondary' : 'outline'} className={agent?.active ? '' : 'line-through'}>
+              {agent?.name || agentId.toString().substring(0, 10) + '...'}
+            </Badge>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const handleToggle = (rule: Rule, enabled: boolean) => {
+    updateRule.mutate({
+      ruleId: rule.id,
+      name: rule.name,
+      strategy: rule.strategy,
+      location: rule.location,
+      sources: rule.sources,
+      agentIds: rule.agents,
+      enabled,
+    });
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const ruleIds = rules.map((r) => r.id);
+    [ruleIds[index], ruleIds[index + offset]] = [ruleIds[index + offset], ruleIds[index]];
+    reorderRules.mutate(ruleIds);
+  };
+
+  const handleDelete = async (rule: Rule) => {
+    if (confirm(`Are you sure you want to delete the rule "${rule.name}"?`)) {
+      await deleteRule.mutateAsync(rule.id);
+    }
+  };
+
+  const isBusy = updateRule.isPending || deleteRule.isPending || reorderRules.isPending;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Inquiry Assignment Rules</CardTitle>
+          <CardDescription>
+            Inquiries added without an agent go to the first enabled rule that matches and has an active agent.
+            Otherwise they stay with whoever added them. Website inquiries go to the listing agent, and follow these
+            rules only when that agent has been deactivated.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setShowAddDialog(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            No assignment rules yet. Inquiries are assigned to the agent who adds them.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[90px]">Order</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead>Matches</TableHead>
+                  <TableHead>Agents</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule, index) => (
+                  <TableRow key={rule.id} className={rule.enabled ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleMove(index, -1)} disabled={index === 0 || isBusy}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMove(index, 1)}
+                          disabled={index === rules.length - 1 || isBusy}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{STRATEGY_LABELS[rule.strategy]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{describeMatch(rule)}</TableCell>
+                    <TableCell>{describeAgents(rule)}</TableCell>
+                    <TableCell>
+                      <Switch checked={rule.enabled} onCheckedChange={(checked) => handleToggle(rule, checked)} disabled={isBusy} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setRuleToEdit(rule)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleDelete(rule)} disabled={isBusy}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <AssignmentRuleForm open={showAddDialog} onOpenChange={setShowAddDialog} mode="add" />
+
+      <AssignmentRuleForm
+        open={!!ruleToEdit}
+        onOpenChange={(open) => !open && setRuleToEdit(null)}
+        mode="edit"
+        rule={ruleToEdit}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { useCloseInquiry, useGetAllProperties } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Loader2 } from 'lucide-react';
+import { Category, Outcome, type Inquiry } from '../backend';
+import { LOST_REASONS } from '../utils/inquiryOutcomes';
+
+interface CloseInquiryDialogProps {
+  inquiry: Inquiry | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const OTHER_REASON = 'other';
+
+export default function CloseInquiryDialog({ inquiry, onOpenChange }: CloseInquiryDialogProps) {
+  const closeInquiry = useCloseInquiry();
+  const { data: properties = [] } = useGetAllProperties();
+
+  const [outcome, setOutcome] = useState<Outcome>(Outcome.won);
+  const [finalPrice, setFinalPrice] = useState('');
+  const [reasonChoice, setReasonChoice] = useState('');
+  const [otherReason, setOtherReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const property = inquiry ? properties.find((p) => p.id === inquiry.propertyId) : undefined;
+
+  // Start from the asking price, which is usually close to the agreed one
+  useEffect(() => {
+    if (!inquiry) return;
+    setOutcome(inquiry.closure?.outcome ?? Outcome.won);
+    setFinalPrice(
+      inquiry.closure && inquiry.closure.finalPrice > 0n
+        ? inquiry.closure.finalPrice.toString()
+        : property
+          ? property.price.toString()
+          : ''
+    );
+    const reason = inquiry.closure?.lostReason ?? '';
+    const isPreset = (LOST_REASONS as readonly string[]).includes(reason);
+    setReasonChoice(reason === '' ? '' : isPreset ? reason : OTHER_REASON);
+    setOtherReason(reason !== '' && !isPreset ? reason : '');
+    setError(null);
+  }, [inquiry?.id]);
+
+  const handleSubmit = async () => {
+    if (!inquiry) return;
+
+    const lostReason = reasonChoice === OTHER_REASON ? otherReason.trim() : reasonChoice;
+    const price = Number(finalPrice);
+    if (outcome === Outcome.won && (!Number.isInteger(price) || price <= 0)) {
+      setError('Please enter the final price as a positive whole number');
+      return;
+    }
+    if (outcome === Outcome.lost && !lostReason) {
+      setError('Please give a reason the inquiry was lost');
+      return;
+    }
+
+    try {
+      await closeInquiry.mutateAsync({
+        inquiryId: inquiry.id,
+        outcome,
+        finalPrice: outcome === Outcome.won ? BigInt(price) : 0n,
+        lostReason: outcome === Outcome.lost ? lostReason : '',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error closing inquiry:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const takenLabel = property?.category === Category.rental ? 'rented' : 'sold';
+
+  return (
+    <Dialog open={!!inquiry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Close Inquiry</DialogTitle>
+          <DialogDescription>
+            {inquiry ? `How did ${inquiry.customerName}'s inquiry end?` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <RadioGroup
+            value={outcome}
+            onValueChange={(value) => {
+              setOutcome(value as Outcome);
+              setError(null);
+            }}
+            className="grid grid-cols-2 gap-2"
+          >
+            <Label htmlFor="outcome-won" className="flex cursor-pointer items-center gap-2 rounded-md border p-3">
+              <RadioGroupItem id="outcome-won" value={Outcome.won} />
+              Won
+            </Label>
+            <Label htmlFor="outcome-lost" className="flex cursor-pointer items-center gap-2 rounded-md border p-3">
+              <RadioGroupItem id="outcome-lost" value={Outcome.lost} />
+              Lost
+            </Label>
+          </RadioGroup>
+
+          {outcome === Outcome.won ? (
+            <div className="space-y-2">
+              <Label htmlFor="final-price">
+                Final Price (₹) <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="final-price"
+                type="number"
+                min={1}
+                value={finalPrice}
+                onChange={(e) => setFinalPrice(e.target.value)}
+              />
+              {property && (
+                <p className="text-xs text-muted-foreground">
+                  {property.title} will be marked as {takenLabel}. Asking price was ₹{Number(property.price).toLocaleString()}.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="lost-reason">
+                Reason <span className="text-destructive">*</span>
+              </Label>
+              <Select value={reasonChoice} onValueChange={setReasonChoice}>
+                <SelectTrigger id="lost-reason">
+                  <SelectValue placeholder="Why was it lost?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOST_REASONS.map((reason) => (
+                    <SelectItem key={reason} value={reason}>
+                      {reason}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={OTHER_REASON}>Other…</SelectItem>
+                </SelectContent>
+              </Select>
+              {reasonChoice === OTHER_REASON && (
+                <Input
+                  value={otherReason}
+                  onChange={(e) => setOtherReason(e.target.value)}
+                  placeholder="Describe the reason"
+                />
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={closeInquiry.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={closeInquiry.isPending}>
+            {closeInquiry.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Close Inquiry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
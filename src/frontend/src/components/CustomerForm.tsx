@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import { useAddCustomer, useGetAllProperties, useGetCustomers, useUpdateCustomer } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Loader2 } from 'lucide-react';
+import { Configuration, type Customer } from '../backend';
+import { findCustomerByContact } from '../utils/customers';
+
+export const CONFIGURATION_LABELS: Record<Configuration, string> = {
+  [Configuration.rk1]: '1 RK',
+  [Configuration.bhk1]: '1 BHK',
+  [Configuration.bhk1_5]: '1.5 BHK',
+  [Configuration.bhk2]: '2 BHK',
+  [Configuration.bhk2_5]: '2.5 BHK',
+  [Configuration.bhk3]: '3 BHK',
+  [Configuration.bhk3_5]: '3.5 BHK',
+  [Configuration.bhk4]: '4 BHK',
+  [Configuration.bhk5]: '5 BHK',
+  [Configuration.jodiFlat]: 'Jodi Flat',
+  [Configuration.duplex]: 'Duplex',
+  [Configuration.penthouse]: 'Penthouse',
+  [Configuration.bungalow]: 'Bungalow',
+  [Configuration.independentHouse]: 'Independent House',
+};
+
+interface CustomerFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this customer instead of adding a new one
+  customer?: Customer | null;
+}
+
+export default function CustomerForm({ open, onOpenChange, customer }: CustomerFormProps) {
+  const { data: customers = [] } = useGetCustomers();
+  const { data: properties = [] } = useGetAllProperties();
+  const addCustomer = useAddCustomer();
+  const updateCustomer = useUpdateCustomer();
+
+  const [formData, setFormData] = useState({
+    name: '',
+    phone: '',
+    email: '',
+    budgetMin: '',
+    budgetMax: '',
+    preferredSuburbs: [] as string[],
+    preferredConfigurations: [] as Configuration[],
+  });
+  const [suburbInput, setSuburbInput] = useState('');
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+
+  const isEdit = !!customer;
+
+  useEffect(() => {
+    if (!open) return;
+    setValidationErrors({});
+    setSuburbInput('');
+    setFormData({
+      name: customer?.name ?? '',
+      phone: customer?.phone ?? '',
+      email: customer?.email ?? '',
+      budgetMin: customer && customer.budgetMin > 0n ? customer.budgetMin.toString() : '',
+      budgetMax: customer && customer.budgetMax > 0n ? customer.budgetMax.toString() : '',
+      preferredSuburbs: customer?.preferredSuburbs ?? [],
+      preferredConfigurations: customer?.preferredConfigurations ?? [],
+    });
+  }, [open, customer?.id]);
+
+  // Suburbs that already have listings are offered as quick picks
+  const knownSuburbs = Array.from(new Set(properties.map((p) => p.location.suburb.trim()).filter(Boolean))).sort();
+  const otherCustomers = customers.filter((c) => c.id !== customer?.id);
+
+  const toggleSuburb = (suburb: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      preferredSuburbs: prev.preferredSuburbs.includes(suburb)
+        ? prev.preferredSuburbs.filter((s) => s !== suburb)
+        : [...prev.preferredSuburbs, suburb],
+    }));
+  };
+
+  const addTypedSuburb = () => {
+    const suburb = suburbInput.trim();
+    if (suburb && !formData.preferredSuburbs.some((s) => s.toLowerCase() === suburb.toLowerCase())) {
+      toggleSuburb(suburb);
+    }
+    setSuburbInput('');
+  };
+
+  const toggleConfiguration = (configuration: Configuration) => {
+    setFormData((prev) => ({
+      ...prev,
+      preferredConfigurations: prev.preferredConfigurations.includes(configuration)
+        ? prev.preferredConfigurations.filter((c) => c !== configuration)
+        : [...prev.preferredConfigurations, configuration],
+    }));
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      errors.name = 'Customer name is required';
+    }
+
+    if (!formData.phone.trim() && !formData.email.trim()) {
+      errors.phone = 'Enter a phone number or an email';
+    }
+
+    if (formData.phone.trim() && formData.phone.replace(/\D/g, '').length < 10) {
+      errors.phone = 'Phone number must have at least 10 digits';
+    } else if (formData.phone.trim() && findCustomerByContact(otherCustomers, formData.phone)) {
+      errors.phone = `Already used by ${findCustomerByContact(otherCustomers, formData.phone)?.name}`;
+    }
+
+    if (formData.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())) {
+      errors.email = 'Please enter a valid email address';
+    } else if (formData.email.trim() && findCustomerByContact(otherCustomers, formData.email)) {
+      errors.email = `Already used by ${findCustomerByContact(otherCustomers, formData.email)?.name}`;
+    }
+
+    const budgetMin = formData.budgetMin ? Number(formData.budgetMin) : 0;
+    const budgetMax = formData.budgetMax ? Number(formData.budgetMax) : 0;
+    if (!Number.isInteger(budgetMin) || budgetMin < 0) {
+      errors.budget = 'Budget must be a whole number of rupees';
+    } else if (!Number.isInteger(budgetMax) || budgetMax < 0) {
+      errors.budget = 'Budget must be a whole number of rupees';
+    } else if (budgetMax > 0 && budgetMax < budgetMin) {
+      errors.budget = 'Maximum budget cannot be below the minimum';
+    }
+
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    const input = {
+      name: formData.name.trim(),
+      phone: formData.phone.trim(),
+      email: formData.email.trim(),
+      budgetMin: BigInt(formData.budgetMin || 0),
+      budgetMax: BigInt(formData.budgetMax || 0),
+      preferredSuburbs: formData.preferredSuburbs,
+      preferredConfigurations: formData.preferredConfigurations,
+    };
+
+    try {
+      if (customer) {
+        await updateCustomer.mutateAsync({ customerId: customer.id, ...input });
+      } else {
+        await addCustomer.mutateAsync(input);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving customer:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const isPending = addCustomer.isPending || updateCustomer.isPending;
+  const suburbOptions = Array.from(new Set([...knownSuburbs, ...formData.preferredSuburbs]));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? 'Edit Customer' : 'Add Customer'}</DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? 'Changes to the name and contact details also show on the linked inquiries'
+              : 'Inquiries from this phone number or email will be linked to the customer'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="customer-name">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="customer-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Enter customer name"
+              className={validationErrors.name ? 'border-destructive' : ''}
+            />
+            {validationErrors.name && <p className="text-sm text-destructive">{validationErrors.name}</p>}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="customer-phone">Phone</Label>
+              <Input
+                id="customer-phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                placeholder="+91 98200 11223"
+                className={validationErrors.phone ? 'border-destructive' : ''}
+              />
+              {validationErrors.phone && <p className="text-sm text-destructive">{validationErrors.phone}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customer-email">Email</Label>
+              <Input
+                id="customer-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                placeholder="name@example.com"
+                className={validationErrors.email ? 'border-destructive' : ''}
+              />
+              {validationErrors.email && <p className="text-sm text-destructive">{validationErrors.email}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Budget (₹)</Label>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Input
+                type="number"
+                min={0}
+                value={formData.budgetMin}
+                onChange={(e) => setFormData({ ...formData, budgetMin: e.target.value })}
+                placeholder="Minimum"
+                className={validationErrors.budget ? 'border-destructive' : ''}
+              />
+              <Input
+                type="number"
+                min={0}
+                value={formData.budgetMax}
+                onChange={(e) => setFormData({ ...formData, budgetMax: e.target.value })}
+                placeholder="Maximum"
+                className={validationErrors.budget ? 'border-destructive' : ''}
+              />
+            </div>
+            {validationErrors.budget && <p className="text-sm text-destructive">{validationErrors.budget}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-suburb">Preferred Suburbs</Label>
+            <div className="flex gap-2">
+              <Input
+                id="customer-suburb"
+                value={suburbInput}
+                onChange={(e) => setSuburbInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addTypedSuburb();
+                  }
+                }}
+                placeholder="Type a suburb and press Enter"
+              />
+              <Button type="button" variant="outline" onClick={addTypedSuburb} disabled={!suburbInput.trim()}>
+                Add
+              </Button>
+            </div>
+            {suburbOptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {suburbOptions.map((suburb) => (
+                  <Badge
+                    key={suburb}
+                    variant={formData.preferredSuburbs.includes(suburb) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleSuburb(suburb)}
+                  >
+                    {suburb}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preferred Configurations</Label>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(Configuration).map((configuration) => (
+                <Badge
+                  key={configuration}
+                  variant={formData.preferredConfigurations.includes(configuration) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleConfiguration(configuration)}
+                >
+                  {CONFIGURATION_LABELS[configuration]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isEdit ? 'Save Changes' : 'Add Customer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
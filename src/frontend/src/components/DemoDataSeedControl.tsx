@@ -0,0 +1,57 @@
+import { useIsAppEmpty, useIsCallerAdmin, useSeedDemoData } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Database, Loader2 } from 'lucide-react';
+
+export default function DemoDataSeedControl() {
+  const { data: isAdmin, isLoading: isAdminLoading } = useIsCallerAdmin();
+  // Asks the backend, which also counts archived listings and customers the list queries leave out
+  const { data: isAppEmpty = false } = useIsAppEmpty(!!isAdmin);
+  const seedMutation = useSeedDemoData();
+
+  // Only render for admins
+  if (isAdminLoading || !isAdmin) {
+    return null;
+  }
+
+  const isSeeding = seedMutation.isPending;
+
+  const handleSeed = async () => {
+    try {
+      await seedMutation.mutateAsync();
+    } catch (error) {
+      // Error is already handled by the mutation's onError
+      console.error('Seeding demo data failed:', error);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-6">
+      <div className="mb-4 flex items-start gap-3">
+        <Database className="h-6 w-6 text-primary" />
+        <div>
+          <h3 className="text-lg font-semibold">Demo Data</h3>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Populate a freshly reset app with a Mulund demo dataset: one agent of every role, properties across all
+            categories, configurations and furnishing types, and inquiries from every source.
+          </p>
+          {!isAppEmpty && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              Reset agents, properties and inquiries first to load the demo data. Archived listings and customers count too.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <Button variant="outline" onClick={handleSeed} disabled={!isAppEmpty || isSeeding}>
+        {isSeeding ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading demo data...
+          </>
+        ) : (
+          'Load Mulund Demo Data'
+        )}
+      </Button>
+    </div>
+  );
+}
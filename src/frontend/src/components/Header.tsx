@@ -1,22 +1,20 @@
 import { useInternetIdentity } from '../hooks/useInternetIdentity';
 import { useGetCallerUserProfile, useIsCallerAdmin } from '../hooks/useQueries';
 import { useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useRouterState } from '@tanstack/react-router';
 import { Button } from './ui/button';
-import { Users, Home, FileText, BarChart3, LogOut, LogIn, Loader2, User } from 'lucide-react';
+import { Users, Home, FileText, Contact, BarChart3, CalendarDays, LogOut, LogIn, Loader2, User } from 'lucide-react';
 import { Avatar, AvatarFallback } from './ui/avatar';
 
-type Page = 'dashboard' | 'agents' | 'properties' | 'inquiries' | 'reports';
+type NavPath = '/' | '/agents' | '/properties' | '/inquiries' | '/customers' | '/visits' | '/reports';
 
-interface HeaderProps {
-  currentPage: Page;
-  onNavigate: (page: Page) => void;
-}
-
-export default function Header({ currentPage, onNavigate }: HeaderProps) {
+export default function Header() {
   const { login, clear, loginStatus, identity } = useInternetIdentity();
   const { data: userProfile } = useGetCallerUserProfile();
   const { data: isAdmin } = useIsCallerAdmin();
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const pathname = useRouterState({ select: (state) => state.location.pathname });
 
   const isAuthenticated = !!identity;
   const disabled = loginStatus === 'logging-in';
@@ -39,13 +37,18 @@ export default function Header({ currentPage, onNavigate }: HeaderProps) {
   };
 
   const navItems = [
-    { id: 'dashboard' as Page, label: 'Dashboard', icon: BarChart3, requiresAdmin: false },
-    { id: 'agents' as Page, label: 'Agents', icon: Users, requiresAdmin: true },
-    { id: 'properties' as Page, label: 'Properties', icon: Home, requiresAdmin: false },
-    { id: 'inquiries' as Page, label: 'Inquiries', icon: FileText, requiresAdmin: false },
-    { id: 'reports' as Page, label: 'Reports', icon: BarChart3, requiresAdmin: false },
+    { path: '/' as NavPath, label: 'Dashboard', icon: BarChart3, requiresAdmin: false },
+    { path: '/agents' as NavPath, label: 'Agents', icon: Users, requiresAdmin: true },
+    { path: '/properties' as NavPath, label: 'Properties', icon: Home, requiresAdmin: false },
+    { path: '/inquiries' as NavPath, label: 'Inquiries', icon: FileText, requiresAdmin: false },
+    { path: '/customers' as NavPath, label: 'Customers', icon: Contact, requiresAdmin: false },
+    { path: '/visits' as NavPath, label: 'Site Visits', icon: CalendarDays, requiresAdmin: false },
+    { path: '/reports' as NavPath, label: 'Reports', icon: BarChart3, requiresAdmin: false },
   ];
 
+  // Detail pages such as /properties/:id keep their section highlighted
+  const isActive = (path: NavPath) => (path === '/' ? pathname === '/' : pathname === path || pathname.startsWith(`${path}/`));
+
   const visibleNavItems = navItems.filter(item => !item.requiresAdmin || isAdmin);
 
   const getInitials = (name: string) => {
@@ -75,10 +78,10 @@ export default function Header({ currentPage, onNavigate }: HeaderProps) {
                 const Icon = item.icon;
                 return (
                   <Button
-                    key={item.id}
-                    variant={currentPage === item.id ? 'default' : 'ghost'}
+                    key={item.path}
+                    variant={isActive(item.path) ? 'default' : 'ghost'}
                     size="sm"
-                    onClick={() => onNavigate(item.id)}
+                    onClick={() => navigate({ to: item.path })}
                     className="gap-2"
                   >
                     <Icon className="h-4 w-4" />
@@ -119,10 +122,10 @@ export default function Header({ currentPage, onNavigate }: HeaderProps) {
               const Icon = item.icon;
               return (
                 <Button
-                  key={item.id}
-                  variant={currentPage === item.id ? 'default' : 'ghost'}
+                  key={item.path}
+                  variant={isActive(item.path) ? 'default' : 'ghost'}
                   size="sm"
-                  onClick={() => onNavigate(item.id)}
+                  onClick={() => navigate({ to: item.path })}
                   className="gap-2 whitespace-nowrap"
                 >
                   <Icon className="h-4 w-4" />
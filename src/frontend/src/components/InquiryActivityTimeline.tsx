@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useAddInquiryActivity, useGetAllAgents } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Textarea } from './ui/textarea';
+import { Building2, Loader2, MessageSquare, Phone, StickyNote, type LucideIcon } from 'lucide-react';
+import { ActivityKind, type Activity, type Inquiry } from '../backend';
+import { ACTIVITY_KIND_LABELS, isVisitorActivity, sortActivityNewestFirst } from '../utils/inquiryActivity';
+
+interface InquiryActivityTimelineProps {
+  inquiry: Inquiry;
+}
+
+const ACTIVITY_KIND_ICONS: Record<ActivityKind, LucideIcon> = {
+  [ActivityKind.call]: Phone,
+  [ActivityKind.siteVisit]: Building2,
+  [ActivityKind.message]: MessageSquare,
+  [ActivityKind.note]: StickyNote,
+};
+
+function formatTime(time: bigint): string {
+  // Backend timestamps are in nanoseconds
+  return new Date(Number(time / 1_000_000n)).toLocaleString();
+}
+
+export default function InquiryActivityTimeline({ inquiry }: InquiryActivityTimelineProps) {
+  const { data: agents = [] } = useGetAllAgents();
+  const addActivity = useAddInquiryActivity();
+
+  const [kind, setKind] = useState<ActivityKind>(ActivityKind.call);
+  const [text, setText] = useState('');
+
+  const getAuthorName = (entry: Activity): string => {
+    if (isVisitorActivity(entry)) return inquiry.customerName;
+    const agent = agents.find((a) => a.id.toString() === entry.author.toString());
+    return agent?.name || entry.author.toString().substring(0, 10) + '...';
+  };
+
+  const handleLog = async () => {
+    if (!text.trim()) return;
+    try {
+      await addActivity.mutateAsync({ inquiryId: inquiry.id, kind, text: text.trim() });
+      setText('');
+    } catch (error) {
+      console.error('Error logging inquiry activity:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const entries = sortActivityNewestFirst(inquiry.activity);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 rounded-md border p-3">
+        <Label htmlFor="activity-text">Log Activity</Label>
+        <div className="flex gap-2">
+          <Select value={kind} onValueChange={(value) => setKind(value as ActivityKind)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(ActivityKind).map((k) => (
+                <SelectItem key={k} value={k}>
+                  {ACTIVITY_KIND_LABELS[k]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleLog} disabled={!text.trim() || addActivity.isPending} className="ml-auto">
+            {addActivity.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Log
+          </Button>
+        </div>
+        <Textarea
+          id="activity-text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="What happened? e.g. Called, wants a second viewing on Saturday"
+          rows={3}
+        />
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No activity logged yet</p>
+      ) : (
+        <ol className="relative space-y-4 border-l pl-4">
+          {entries.map((entry, index) => {
+            const Icon = ACTIVITY_KIND_ICONS[entry.kind];
+            return (
+              <li key={index} className="relative">
+                <span className="absolute left-[-21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                <p className="flex items-center gap-1.5 text-sm">
+                  <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+                  <span className="font-medium">{ACTIVITY_KIND_LABELS[entry.kind]}</span>
+                  <span className="text-muted-foreground">
+                    · {getAuthorName(entry)} · {formatTime(entry.createdAt)}
+                  </span>
+                </p>
+                <p className="mt-1 whitespace-pre-wrap text-sm">{entry.text}</p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
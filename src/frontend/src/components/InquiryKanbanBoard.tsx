@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { useUpdateInquiry } from '../hooks/useQueries';
+import { Badge } from './ui/badge';
+import { AlarmClock, Loader2 } from 'lucide-react';
+import { Outcome, Status__1, type Inquiry } from '../backend';
+import type { Principal } from '@dfinity/principal';
+import { SOURCE_LABELS } from './AssignmentRuleForm';
+import { isFollowUpOverdue } from '../utils/inquiryFollowUps';
+import { OUTCOME_LABELS } from '../utils/inquiryOutcomes';
+
+interface InquiryKanbanBoardProps {
+  inquiries: Inquiry[];
+  getAgentName: (agent: Principal) => string;
+  getPropertyTitle: (propertyId: string) => string;
+  // Assistants can only move the inquiries assigned to them
+  canMove: (inquiry: Inquiry) => boolean;
+  onOpen: (inquiry: Inquiry) => void;
+  // Closing asks for the outcome, so drops on the Closed column are handed back to the page
+  onCloseRequest: (inquiry: Inquiry) => void;
+}
+
+const COLUMNS: { status: Status__1; label: string; accent: string }[] = [
+  { status: Status__1.new_, label: 'New', accent: 'border-t-blue-500' },
+  { status: Status__1.inProgress, label: 'In Progress', accent: 'border-t-amber-500' },
+  { status: Status__1.followUp, label: 'Follow Up', accent: 'border-t-purple-500' },
+  { status: Status__1.closed, label: 'Closed', accent: 'border-t-green-500' },
+];
+
+export default function InquiryKanbanBoard({ inquiries, getAgentName, getPropertyTitle, canMove, onOpen, onCloseRequest }: InquiryKanbanBoardProps) {
+  const updateInquiry = useUpdateInquiry();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<Status__1 | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
+
+  const now = new Date();
+
+  const moveInquiry = async (inquiryId: string, status: Status__1) => {
+    const inquiry = inquiries.find((i) => i.id === inquiryId);
+    if (!inquiry || inquiry.status === status) return;
+    if (status === Status__1.closed) {
+      onCloseRequest(inquiry);
+      return;
+    }
+
+    setMovingId(inquiry.id);
+    try {
+      await updateInquiry.mutateAsync({
+        inquiryId: inquiry.id,
+        customerName: inquiry.customerName,
+        contactInfo: inquiry.contactInfo,
+        source: inquiry.source,
+        status,
+        assignedAgent: inquiry.assignedAgent,
+        followUpAt: inquiry.followUpAt ?? null,
+        followUpNote: inquiry.followUpNote,
+      });
+    } catch (error) {
+      console.error('Error moving inquiry:', error);
+      // Error toast is already handled by the mutation
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: Status__1) => {
+    e.preventDefault();
+    const inquiryId = e.dataTransfer.getData('text/plain');
+    setDraggedId(null);
+    setDropTarget(null);
+    if (inquiryId) moveInquiry(inquiryId, status);
+  };
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+      {COLUMNS.map((column) => {
+        const cards = inquiries.filter((i) => i.status === column.status);
+        return (
+          <div
+            key={column.status}
+            onDragOver={(e) => {
+              if (!draggedId) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              setDropTarget(column.status);
+            }}
+            onDragLeave={(e) => {
+              // Ignore leave events fired when moving between cards inside the column
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+            }}
+            onDrop={(e) => handleDrop(e, column.status)}
+            className={`flex min-h-[300px] flex-col rounded-lg border border-t-4 bg-muted/30 ${column.accent} ${
+              dropTarget === column.status ? 'ring-2 ring-primary' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between px-3 py-2">
+              <h3 className="text-sm font-semibold">{column.label}</h3>
+              <Badge variant="secondary">{cards.length}</Badge>
+            </div>
+            <div className="flex-1 space-y-2 px-2 pb-2">
+              {cards.length === 0 ? (
+                <p className="py-6 text-center text-xs text-muted-foreground">No inquiries</p>
+              ) : (
+                cards.map((inquiry) => {
+                  const movable = canMove(inquiry) && movingId === null;
+                  const overdue = isFollowUpOverdue(inquiry, now);
+                  return (
+                    <div
+                      key={inquiry.id}
+                      draggable={movable}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData('text/plain', inquiry.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggedId(inquiry.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedId(null);
+                        setDropTarget(null);
+                      }}
+                      onClick={() => onOpen(inquiry)}
+                      className={`rounded-md border bg-card p-3 shadow-sm transition-opacity ${
+                        movable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                      } ${draggedId === inquiry.id || movingId === inquiry.id ? 'opacity-50' : ''}`}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="font-medium leading-tight">{inquiry.customerName}</p>
+                        {movingId === inquiry.id && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />}
+                      </div>
+                      <p className="mt-1 truncate text-xs text-muted-foreground">{getPropertyTitle(inquiry.propertyId)}</p>
+                      <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                        <Badge variant="outline" className="text-xs">
+                          {SOURCE_LABELS[inquiry.source]}
+                        </Badge>
+                        {inquiry.closure && (
+                          <Badge variant={inquiry.closure.outcome === Outcome.won ? 'default' : 'secondary'} className="text-xs">
+                            {OUTCOME_LABELS[inquiry.closure.outcome]}
+                          </Badge>
+                        )}
+                        {overdue && (
+                          <Badge variant="destructive" className="gap-1 text-xs">
+                            <AlarmClock className="h-3 w-3" />
+                            Overdue
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="mt-2 text-xs text-muted-foreground">{getAgentName(inquiry.assignedAgent)}</p>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
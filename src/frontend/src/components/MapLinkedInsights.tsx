@@ -9,10 +9,12 @@ import type { MapFilters } from './PropertyMap';
 interface MapLinkedInsightsProps {
   properties: Property[];
   filters: MapFilters;
+  // Name of the zone selected in filters.zoneId, if it still exists
+  zoneName?: string;
   isLoading?: boolean;
 }
 
-export default function MapLinkedInsights({ properties, filters, isLoading = false }: MapLinkedInsightsProps) {
+export default function MapLinkedInsights({ properties, filters, zoneName, isLoading = false }: MapLinkedInsightsProps) {
   const COLORS = ['oklch(var(--chart-1))', 'oklch(var(--chart-2))', 'oklch(var(--chart-3))', 'oklch(var(--chart-4))', 'oklch(var(--chart-5))'];
 
   // Category distribution for filtered properties
@@ -80,6 +82,7 @@ export default function MapLinkedInsights({ properties, filters, isLoading = fal
     filters.suburb,
     filters.area,
     filters.radiusKm && filters.centerLat && filters.centerLng,
+    zoneName,
   ].filter(Boolean).length;
 
   return (
@@ -276,6 +279,9 @@ export default function MapLinkedInsights({ properties, filters, isLoading = fal
                   {filters.radiusKm && filters.centerLat && filters.centerLng && (
                     <Badge variant="secondary">Radius: {filters.radiusKm} km</Badge>
                   )}
+                  {zoneName && (
+                    <Badge variant="secondary">Zone: {zoneName}</Badge>
+                  )}
                 </div>
               </CardContent>
             </Card>
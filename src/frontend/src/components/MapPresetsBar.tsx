@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import {
+  useDeleteMapPreset,
+  useGetAllAgents,
+  useGetMapPresets,
+  useIsCallerAdmin,
+  useSaveMapPreset,
+  useSetMapPresetPinned,
+  useUpdateMapPreset,
+} from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Bookmark, BookmarkPlus, Edit, Loader2, Pin, PinOff, Trash2, Users } from 'lucide-react';
+import type { MapPreset, SearchCriteria } from '../backend';
+import type { MapFilters } from './PropertyMap';
+import { CONFIGURATION_LABELS } from './CustomerForm';
+import { CATEGORY_LABELS } from './RequirementForm';
+import { criteriaToMapFilters, isPinnedBy, mapFiltersToCriteria } from '../utils/mapPresets';
+
+interface MapPresetsBarProps {
+  // The filters currently set on the map, saved when the agent stores a new preset
+  currentFilters: MapFilters;
+  onApply: (filters: MapFilters) => void;
+}
+
+const describeCriteria = (criteria: SearchCriteria): string => {
+  const parts: string[] = [];
+  if (criteria.category) parts.push(CATEGORY_LABELS[criteria.category]);
+  if (criteria.configuration) parts.push(CONFIGURATION_LABELS[criteria.configuration]);
+  const place = criteria.area || criteria.suburb || criteria.city;
+  if (place) parts.push(place);
+  if (criteria.minPrice !== undefined && criteria.maxPrice !== undefined) {
+    parts.push(`₹${Number(criteria.minPrice).toLocaleString()}–₹${Number(criteria.maxPrice).toLocaleString()}`);
+  } else if (criteria.maxPrice !== undefined) {
+    parts.push(`under ₹${Number(criteria.maxPrice).toLocaleString()}`);
+  } else if (criteria.minPrice !== undefined) {
+    parts.push(`from ₹${Number(criteria.minPrice).toLocaleString()}`);
+  }
+  if (criteria.radius !== undefined && criteria.lat !== undefined) parts.push(`within ${criteria.radius} km`);
+  return parts.length > 0 ? parts.join(' · ') : 'No filters';
+};
+
+export default function MapPresetsBar({ currentFilters, onApply }: MapPresetsBarProps) {
+  const { identity } = useInternetIdentity();
+  const { data: presets = [] } = useGetMapPresets();
+  const { data: agents = [] } = useGetAllAgents();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const savePreset = useSaveMapPreset();
+  const updatePreset = useUpdateMapPreset();
+  const deletePreset = useDeleteMapPreset();
+  const setPinned = useSetMapPresetPinned();
+
+  const [showList, setShowList] = useState(false);
+  const [showDialog, setShowDialog] = useState(false);
+  const [presetToEdit, setPresetToEdit] = useState<MapPreset | null>(null);
+  const [name, setName] = useState('');
+  const [sharedWithTeam, setSharedWithTeam] = useState(false);
+  const [useCurrentFilters, setUseCurrentFilters] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const principal = identity?.getPrincipal();
+  const isOwn = (preset: MapPreset) => !!principal && preset.owner.toString() === principal.toString();
+  const myPresets = presets.filter(isOwn);
+  const teamPresets = presets.filter((p) => !isOwn(p));
+  const pinnedPresets = presets.filter((p) => isPinnedBy(p, principal));
+
+  const getOwnerName = (preset: MapPreset): string => {
+    return agents.find((a) => a.id.toString() === preset.owner.toString())?.name || 'Another agent';
+  };
+
+  const openSaveDialog = () => {
+    setPresetToEdit(null);
+    setName('');
+    setSharedWithTeam(false);
+    setUseCurrentFilters(true);
+    setError(null);
+    setShowList(false);
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (preset: MapPreset) => {
+    setPresetToEdit(preset);
+    setName(preset.name);
+    setSharedWithTeam(preset.sharedWithTeam);
+    setUseCurrentFilters(false);
+    setError(null);
+    setShowList(false);
+    setShowDialog(true);
+  };
+
+  const handleApply = (preset: MapPreset) => {
+    onApply(criteriaToMapFilters(preset.filters));
+    setShowList(false);
+  };
+
+  const handleDelete = (preset: MapPreset) => {
+    if (confirm(`Are you sure you want to delete the preset "${preset.name}"?`)) {
+      deletePreset.mutate(preset.id);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('Please give the preset a name');
+      return;
+    }
+
+    try {
+      if (presetToEdit) {
+        await updatePreset.mutateAsync({
+          presetId: presetToEdit.id,
+          name: trimmed,
+          filters: useCurrentFilters ? mapFiltersToCriteria(currentFilters) : presetToEdit.filters,
+          sharedWithTeam,
+        });
+      } else {
+        await savePreset.mutateAsync({ name: trimmed, filters: mapFiltersToCriteria(currentFilters), sharedWithTeam });
+      }
+      setShowDialog(false);
+    } catch (error) {
+      console.error('Error saving map preset:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const renderPresetRow = (preset: MapPreset) => {
+    const pinned = isPinnedBy(preset, principal);
+    return (
+      <li key={preset.id} className="flex items-center justify-between gap-2 py-2">
+        <button type="button" className="min-w-0 flex-1 text-left" onClick={() => handleApply(preset)}>
+          <p className="truncate text-sm font-medium hover:underline">{preset.name}</p>
+          <p className="truncate text-xs text-muted-foreground">
+            {isOwn(preset) ? describeCriteria(preset.filters) : `${getOwnerName(preset)} · ${describeCriteria(preset.filters)}`}
+          </p>
+        </button>
+        <div className="flex shrink-0 items-center">
+          {isOwn(preset) && preset.sharedWithTeam && (
+            <Users className="mr-1 h-3.5 w-3.5 text-muted-foreground" aria-label="Shared with the team" />
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title={pinned ? 'Unpin' : 'Pin'}
+            onClick={() => setPinned.mutate({ presetId: preset.id, pinned: !pinned })}
+            disabled={setPinned.isPending}
+          >
+            {pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+          </Button>
+          {isOwn(preset) && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Edit" onClick={() => openEditDialog(preset)}>
+              <Edit className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {(isOwn(preset) || isAdmin) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Delete"
+              onClick={() => handleDelete(preset)}
+              disabled={deletePreset.isPending}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  const isSaving = savePreset.isPending || updatePreset.isPending;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {pinnedPresets.map((preset) => (
+        <Button key={preset.id} variant="secondary" size="sm" onClick={() => handleApply(preset)}>
+          <Pin className="mr-1 h-3 w-3" />
+          {preset.name}
+        </Button>
+      ))}
+
+      <Popover open={showList} onOpenChange={setShowList}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="mr-2 h-4 w-4" />
+            Presets
+            {presets.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {presets.length}
+              </Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-96 max-h-[400px] overflow-y-auto">
+          {presets.length === 0 ? (
+            <p className="py-2 text-center text-sm text-muted-foreground">
+              No presets yet. Set up the map filters and save them to reuse later.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {myPresets.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium uppercase text-muted-foreground">My presets</p>
+                  <ul className="divide-y">{myPresets.map(renderPresetRow)}</ul>
+                </div>
+              )}
+              {teamPresets.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium uppercase text-muted-foreground">Shared by the team</p>
+                  <ul className="divide-y">{teamPresets.map(renderPresetRow)}</ul>
+                </div>
+              )}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <Button variant="outline" size="sm" onClick={openSaveDialog}>
+        <BookmarkPlus className="mr-2 h-4 w-4" />
+        Save Filters
+      </Button>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>{presetToEdit ? 'Edit Preset' : 'Save Filter Preset'}</DialogTitle>
+            <DialogDescription>
+              {presetToEdit ? describeCriteria(presetToEdit.filters) : describeCriteria(mapFiltersToCriteria(currentFilters))}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="preset-name">
+                Name <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="preset-name"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  setError(null);
+                }}
+                placeholder="e.g. 2BHK rentals under 40k near station"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="preset-shared" className="cursor-pointer">
+                Share with other agents
+              </Label>
+              <Switch id="preset-shared" checked={sharedWithTeam} onCheckedChange={setSharedWithTeam} />
+            </div>
+            {presetToEdit && (
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="preset-current" className="cursor-pointer">
+                  Replace filters with the ones on the map now
+                </Label>
+                <Switch id="preset-current" checked={useCurrentFilters} onCheckedChange={setUseCurrentFilters} />
+              </div>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {presetToEdit ? 'Save Changes' : 'Save Preset'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { Link } from '@tanstack/react-router';
+import { useGetAllInquiries, useGetAllProperties } from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Skeleton } from './ui/skeleton';
+import { AlarmClock } from 'lucide-react';
+import { isFollowUpOverdue, sortByFollowUpDate } from '../utils/inquiryFollowUps';
+
+export default function OverdueFollowUpsCard() {
+  const { data: inquiries = [], isLoading: inquiriesLoading } = useGetAllInquiries();
+  const { data: properties = [], isLoading: propertiesLoading } = useGetAllProperties();
+  const { identity } = useInternetIdentity();
+
+  const callerId = identity?.getPrincipal().toString();
+  const now = new Date();
+  const overdue = sortByFollowUpDate(
+    inquiries.filter((i) => i.assignedAgent.toString() === callerId && isFollowUpOverdue(i, now))
+  );
+
+  const getPropertyTitle = (propertyId: string): string => {
+    const property = properties.find((p) => p.id === propertyId);
+    return property?.title || propertyId.substring(0, 30) + '...';
+  };
+
+  const formatDate = (time: bigint): string => {
+    // Backend timestamps are in nanoseconds
+    return new Date(Number(time / 1_000_000n)).toLocaleString();
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlarmClock className="h-5 w-5" />
+          My Overdue Follow-ups
+          {overdue.length > 0 && <Badge variant="destructive">{overdue.length}</Badge>}
+        </CardTitle>
+        <CardDescription>Open inquiries assigned to you whose follow-up time has passed</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {inquiriesLoading || propertiesLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-full" />
+            <Skeleton className="h-6 w-full" />
+          </div>
+        ) : overdue.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <ul className="divide-y">
+            {overdue.map((inquiry) => (
+              <li key={inquiry.id}>
+                <Link
+                  to="/inquiries"
+                  search={{ edit: inquiry.id }}
+                  className="flex flex-col gap-1 py-3 hover:bg-muted/50 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">{inquiry.customerName}</p>
+                    <p className="truncate text-sm text-muted-foreground">{getPropertyTitle(inquiry.propertyId)}</p>
+                    {inquiry.followUpNote && <p className="truncate text-sm">{inquiry.followUpNote}</p>}
+                  </div>
+                  <span className="shrink-0 text-sm font-medium text-destructive">
+                    {inquiry.followUpAt !== undefined && formatDate(inquiry.followUpAt)}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
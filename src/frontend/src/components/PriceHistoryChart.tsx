@@ -0,0 +1,64 @@
+import { useGetPriceHistory } from '../hooks/useQueries';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { IndianRupee, Loader2 } from 'lucide-react';
+import type { Property } from '../backend';
+
+interface PriceHistoryChartProps {
+  property: Property;
+}
+
+function formatDate(time: bigint): string {
+  // Backend timestamps are in nanoseconds
+  return new Date(Number(time / 1_000_000n)).toLocaleDateString();
+}
+
+export default function PriceHistoryChart({ property }: PriceHistoryChartProps) {
+  const { data: points = [], isLoading } = useGetPriceHistory(property.id);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const data = points.map((point) => ({ date: formatDate(point.changedAt), price: Number(point.price) }));
+  const listedPrice = data[0]?.price ?? Number(property.price);
+  const currentPrice = Number(property.price);
+  const change = listedPrice === 0 ? 0 : ((currentPrice - listedPrice) / listedPrice) * 100;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="flex items-center gap-2 text-sm font-semibold">
+        <IndianRupee className="h-4 w-4" />
+        Price History
+      </h4>
+      {data.length < 2 ? (
+        <p className="text-sm text-muted-foreground">
+          The price has not changed since listing (₹{currentPrice.toLocaleString()})
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Listed at ₹{listedPrice.toLocaleString()}, now ₹{currentPrice.toLocaleString()} (
+            <span className={change < 0 ? 'text-destructive' : undefined}>
+              {change > 0 ? '+' : ''}
+              {change.toFixed(1)}%
+            </span>
+            ) after {data.length - 1} change{data.length === 2 ? '' : 's'}
+          </p>
+          <ResponsiveContainer width="100%" height={180}>
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis width={90} tickFormatter={(value: number) => `₹${value.toLocaleString()}`} />
+              <Tooltip formatter={(value: number) => `₹${value.toLocaleString()}`} />
+              <Line type="stepAfter" dataKey="price" stroke="oklch(var(--chart-1))" strokeWidth={2} name="Price" />
+            </LineChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { LineChart, Line, YAxis } from 'recharts';
+import type { PricePoint } from '../backend';
+
+interface PriceSparklineProps {
+  points: PricePoint[];
+}
+
+export default function PriceSparkline({ points }: PriceSparklineProps) {
+  if (points.length < 2) {
+    return <span className="text-xs text-muted-foreground">No changes</span>;
+  }
+
+  const data = points.map((point) => ({ price: Number(point.price) }));
+  const first = data[0].price;
+  const last = data[data.length - 1].price;
+  const change = first === 0 ? 0 : ((last - first) / first) * 100;
+  const color = last < first ? 'oklch(var(--destructive))' : 'oklch(var(--chart-2))';
+
+  return (
+    <div className="flex items-center gap-2" title={`${points.length - 1} price change${points.length === 2 ? '' : 's'}`}>
+      <LineChart width={72} height={24} data={data}>
+        <YAxis hide domain={['dataMin', 'dataMax']} />
+        <Line type="linear" dataKey="price" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+      <span className={`text-xs ${last < first ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {change > 0 ? '+' : ''}
+        {change.toFixed(1)}%
+      </span>
+    </div>
+  );
+}
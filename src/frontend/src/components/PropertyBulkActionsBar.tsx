@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useBulkUpdateProperties } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Progress } from './ui/progress';
+import { Archive, Download, Loader2, Percent, X } from 'lucide-react';
+import { Furnishing, Status, type Property } from '../backend';
+import { describeBulkChange, downloadPropertiesCsv, type BulkPropertyChange, type BulkPropertyResult } from '../utils/bulkPropertyActions';
+
+interface PropertyBulkActionsBarProps {
+  selectedProperties: Property[];
+  onClearSelection: () => void;
+}
+
+export default function PropertyBulkActionsBar({ selectedProperties, onClearSelection }: PropertyBulkActionsBarProps) {
+  const bulkUpdate = useBulkUpdateProperties();
+  const [pricePercent, setPricePercent] = useState('');
+  const [progress, setProgress] = useState(0);
+  const [lastChange, setLastChange] = useState<BulkPropertyChange | null>(null);
+  const [failureResult, setFailureResult] = useState<BulkPropertyResult | null>(null);
+
+  const isRunning = bulkUpdate.isPending;
+  const count = selectedProperties.length;
+
+  const runChange = async (change: BulkPropertyChange) => {
+    setProgress(0);
+    setLastChange(change);
+    try {
+      const result = await bulkUpdate.mutateAsync({
+        properties: selectedProperties,
+        change,
+        onProgress: setProgress,
+      });
+      if (result.failures.length > 0) {
+        setFailureResult(result);
+      } else if (change.kind === 'archive') {
+        onClearSelection();
+      }
+    } catch (error) {
+      // Error is already handled by the mutation's onError
+      console.error('Bulk property update failed:', error);
+    }
+  };
+
+  const handlePriceChange = () => {
+    const percent = Number(pricePercent);
+    if (!pricePercent || !Number.isFinite(percent) || percent === 0 || percent <= -100) return;
+    runChange({ kind: 'price', percent });
+    setPricePercent('');
+  };
+
+  const handleExport = () => {
+    downloadPropertiesCsv(selectedProperties, `selected_properties_${new Date().toISOString().split('T')[0]}`);
+  };
+
+  return (
+    <div className="mb-4 space-y-3 rounded-lg border bg-muted/30 p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium">{count} selected</span>
+
+        <Select value="" onValueChange={(value) => runChange({ kind: 'status', status: value as Status })} disabled={isRunning}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={Status.available}>Available</SelectItem>
+            <SelectItem value={Status.sold}>Sold</SelectItem>
+            <SelectItem value={Status.rented}>Rented</SelectItem>
+            <SelectItem value={Status.underContract}>Under Contract</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(value) => runChange({ kind: 'furnishing', furnishing: value as Furnishing })} disabled={isRunning}>
+          <SelectTrigger className="w-[170px]">
+            <SelectValue placeholder="Set furnishing" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={Furnishing.unfurnished}>Unfurnished</SelectItem>
+            <SelectItem value={Furnishing.semiFurnished}>Semi Furnished</SelectItem>
+            <SelectItem value={Furnishing.furnished}>Furnished</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            value={pricePercent}
+            onChange={(e) => setPricePercent(e.target.value)}
+            placeholder="e.g. -5"
+            className="w-[100px]"
+            disabled={isRunning}
+          />
+          <Button variant="outline" size="sm" onClick={handlePriceChange} disabled={isRunning || !pricePercent}>
+            <Percent className="mr-2 h-4 w-4" />
+            Adjust Price
+          </Button>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={() => runChange({ kind: 'archive' })} disabled={isRunning}>
+          <Archive className="mr-2 h-4 w-4" />
+          Archive
+        </Button>
+
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={isRunning}>
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+
+        <Button variant="ghost" size="sm" onClick={onClearSelection} disabled={isRunning}>
+          <X className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+
+      {isRunning && (
+        <div className="space-y-1">
+          <Progress value={(progress / count) * 100} />
+          <p className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Updated {progress} of {count} properties...
+          </p>
+        </div>
+      )}
+
+      {/* Failure Summary Dialog */}
+      <Dialog open={!!failureResult} onOpenChange={(open) => !open && setFailureResult(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Some Properties Were Not Updated</DialogTitle>
+            <DialogDescription>
+              {lastChange && describeBulkChange(lastChange)} for {failureResult?.succeededCount ?? 0} properties.{' '}
+              {failureResult?.failures.length ?? 0} failed.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2 py-4 text-sm">
+            {failureResult?.failures.map((failure) => (
+              <li key={failure.propertyId} className="rounded border p-2">
+                <p className="font-medium">{failure.title}</p>
+                <p className="text-destructive">{failure.message}</p>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setFailureResult(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
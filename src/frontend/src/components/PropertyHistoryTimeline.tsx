@@ -0,0 +1,116 @@
+import { useGetAllAgents, useGetPropertyHistory } from '../hooks/useQueries';
+import { History, Loader2 } from 'lucide-react';
+import type { Property } from '../backend';
+import type { Principal } from '@dfinity/principal';
+
+interface PropertyHistoryTimelineProps {
+  property: Property;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  location: 'Location',
+  coordinates: 'Coordinates',
+  price: 'Price',
+  category: 'Category',
+  propertyType: 'Property Type',
+  configuration: 'Configuration',
+  furnishing: 'Furnishing',
+  status: 'Status',
+  archived: 'Archived',
+  images: 'Images',
+};
+
+// The backend records enum values in Motoko notation, e.g. "#semiFurnished" or "#bhk2_5"
+function formatEnumValue(value: string): string {
+  const raw = value.replace(/^#/, '');
+  const bhk = raw.match(/^bhk(\d)(?:_(\d))?$/);
+  if (bhk) return `${bhk[1]}${bhk[2] ? `.${bhk[2]}` : ''} BHK`;
+  if (raw === 'rk1') return '1 RK';
+  const words = raw.replace(/([A-Z])/g, ' $1');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(field: string, value: string): string {
+  if (!value) return '(empty)';
+  switch (field) {
+    case 'price':
+      return `₹${Number(value).toLocaleString()}`;
+    case 'archived':
+      return value === 'true' ? 'Yes' : 'No';
+    case 'images':
+      return `${value} image${value === '1' ? '' : 's'}`;
+    case 'category':
+    case 'propertyType':
+    case 'configuration':
+    case 'furnishing':
+    case 'status':
+      return formatEnumValue(value);
+    default:
+      return value;
+  }
+}
+
+function formatTime(time: bigint): string {
+  // Backend timestamps are in nanoseconds
+  return new Date(Number(time / 1_000_000n)).toLocaleString();
+}
+
+export default function PropertyHistoryTimeline({ property }: PropertyHistoryTimelineProps) {
+  const { data: history = [], isLoading } = useGetPropertyHistory(property.id);
+  const { data: agents = [] } = useGetAllAgents();
+
+  const getAgentName = (principal: Principal): string => {
+    const agent = agents.find((a) => a.id.toString() === principal.toString());
+    return agent?.name || principal.toString().substring(0, 10) + '...';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  // Newest changes first, ending with the original listing
+  const entries = [...history].reverse();
+
+  return (
+    <div className="space-y-3">
+      <h4 className="flex items-center gap-2 text-sm font-semibold">
+        <History className="h-4 w-4" />
+        Change History
+      </h4>
+      <ol className="relative space-y-4 border-l pl-4">
+        {entries.map((entry, index) => (
+          <li key={index} className="relative">
+            <span className="absolute left-[-21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+            <p className="text-sm">
+              <span className="font-medium">{getAgentName(entry.changedBy)}</span>
+              <span className="text-muted-foreground"> · {formatTime(entry.changedAt)}</span>
+            </p>
+            <ul className="mt-1 space-y-0.5 text-sm text-muted-foreground">
+              {entry.changes.map((change) => (
+                <li key={change.field}>
+                  <span className="text-foreground">{FIELD_LABELS[change.field] ?? change.field}:</span>{' '}
+                  <span className="line-through">{formatValue(change.field, change.oldValue)}</span> →{' '}
+                  <span className="text-foreground">{formatValue(change.field, change.newValue)}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+        <li className="relative">
+          <span className="absolute left-[-21px] top-1.5 h-2.5 w-2.5 rounded-full bg-muted-foreground" />
+          <p className="text-sm">
+            <span className="font-medium">{getAgentName(property.listedBy)}</span>
+            <span className="text-muted-foreground"> · {formatTime(property.createdAt)}</span>
+          </p>
+          <p className="mt-1 text-sm text-muted-foreground">Listed the property</p>
+        </li>
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { useState } from 'react';
+import { useImportProperties } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertCircle, CheckCircle2, Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { readSpreadsheetFile, type SpreadsheetData } from '../utils/spreadsheet';
+import {
+  IMPORT_FIELDS,
+  buildImportTemplate,
+  getUnmappedRequiredFields,
+  guessColumnMapping,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type PropertyImportResult,
+  type PropertyImportRow,
+} from '../utils/propertyImport';
+
+interface PropertyImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+const UNMAPPED = 'none';
+
+export default function PropertyImportDialog({ open, onOpenChange }: PropertyImportDialogProps) {
+  const importProperties = useImportProperties();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState('');
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [validatedRows, setValidatedRows] = useState<PropertyImportRow[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<PropertyImportResult | null>(null);
+
+  const validRows = validatedRows.filter((row) => row.input !== null);
+  const invalidRows = validatedRows.filter((row) => row.input === null);
+  const unmappedRequiredFields = mapping ? getUnmappedRequiredFields(mapping) : [];
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setFileError('');
+    setSpreadsheet(null);
+    setMapping(null);
+    setValidatedRows([]);
+    setProgress(0);
+    setResult(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Keep the dialog open while rows are still being created
+    if (!nextOpen && importProperties.isPending) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setFileError('');
+    setIsReadingFile(true);
+    try {
+      const data = await readSpreadsheetFile(file);
+      if (data.rows.length === 0) {
+        throw new Error('The file has a header row but no listings');
+      }
+      setSpreadsheet(data);
+      setMapping(guessColumnMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Could not read the file');
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([buildImportTemplate()], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'property_import_template.csv');
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === UNMAPPED ? null : Number(value) });
+  };
+
+  const handlePreview = () => {
+    if (!spreadsheet || !mapping) return;
+    setValidatedRows(validateImportRows(spreadsheet.rows, spreadsheet.rowNumbers, mapping));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    setProgress(0);
+    try {
+      const importResult = await importProperties.mutateAsync({
+        inputs: validRows.map((row) => row.input!),
+        onProgress: setProgress,
+      });
+      setResult(importResult);
+      setStep('done');
+    } catch (error) {
+      // Error is already handled by the mutation's onError
+      console.error('Property import failed:', error);
+    }
+  };
+
+  const renderUploadStep = () => (
+    <div className="space-y-4 py-4">
+      <p className="text-sm text-muted-foreground">
+        Upload a .csv or .xlsx file with one listing per row. The first row must contain column headers. Category,
+        property type, configuration and furnishing accept either the labels shown in the app (e.g. "2 BHK", "Semi
+        Furnished") or their internal values. Prices may use "L" or "Cr" suffixes.
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="import-file">Spreadsheet</Label>
+        <Input id="import-file" type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={isReadingFile} />
+        {isReadingFile && (
+          <p className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Reading {fileName}...
+          </p>
+        )}
+      </div>
+      {fileError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{fileError}</AlertDescription>
+        </Alert>
+      )}
+      <Button variant="outline" size="sm" onClick={handleDownloadTemplate}>
+        <Download className="mr-2 h-4 w-4" />
+        Download CSV Template
+      </Button>
+    </div>
+  );
+
+  const renderMapStep = () => {
+    if (!spreadsheet || !mapping) return null;
+    return (
+      <div className="space-y-4 py-4">
+        <p className="text-sm text-muted-foreground">
+          <FileSpreadsheet className="mr-1 inline h-4 w-4" />
+          {fileName}: {spreadsheet.rows.length} rows. Match each property field to a column in your file.
+        </p>
+        <div className="grid gap-3 sm:grid-cols-2">
+          {IMPORT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`map-${field.key}`}>
+                {field.label} {field.required && <span className="text-destructive">*</span>}
+              </Label>
+              <Select
+                value={mapping[field.key] === null ? UNMAPPED : String(mapping[field.key])}
+                onValueChange={(value) => handleMappingChange(field.key, value)}
+              >
+                <SelectTrigger id={`map-${field.key}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                  {spreadsheet.headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {header || `Column ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        {unmappedRequiredFields.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Map the required fields: {unmappedRequiredFields.join(', ')}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    );
+  };
+
+  const renderPreviewStep = () => (
+    <div className="space-y-4 py-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge>{validRows.length} ready to import</Badge>
+        {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} with errors</Badge>}
+      </div>
+      {invalidRows.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Rows with errors are skipped. Fix them in your spreadsheet and import them again later.
+        </p>
+      )}
+      <div className="max-h-[360px] overflow-auto rounded border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Row</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead>Location</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {validatedRows.map((row) => (
+              <TableRow key={row.rowNumber}>
+                <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                <TableCell className="font-medium">{row.title}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {row.input && `${row.input.location.area}, ${row.input.location.suburb}`}
+                </TableCell>
+                <TableCell>{row.input && `₹${Number(row.input.price).toLocaleString()}`}</TableCell>
+                <TableCell>
+                  {row.errors.length === 0 ? (
+                    <Badge variant="outline" className="text-green-700 dark:text-green-300">
+                      OK
+                    </Badge>
+                  ) : (
+                    <ul className="list-disc pl-4 text-sm text-destructive">
+                      {row.errors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {importProperties.isPending && (
+        <div className="space-y-2">
+          <Progress value={(progress / validRows.length) * 100} />
+          <p className="text-sm text-muted-foreground">
+            Created {progress} of {validRows.length} properties...
+          </p>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderDoneStep = () => {
+    if (!result) return null;
+    return (
+      <div className="space-y-4 py-4">
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>
+            Imported {result.createdCount} of {validRows.length} properties
+            {invalidRows.length > 0 && `; ${invalidRows.length} rows were skipped because of validation errors`}.
+          </AlertDescription>
+        </Alert>
+        {result.failures.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <p className="mb-2">{result.failures.length} rows could not be created:</p>
+              <ul className="list-disc pl-4">
+                {result.failures.map((failure) => (
+                  <li key={failure.index}>
+                    Row {validRows[failure.index].rowNumber}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Properties</DialogTitle>
+          <DialogDescription>Create listings in bulk from a CSV or Excel spreadsheet</DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && renderUploadStep()}
+        {step === 'map' && renderMapStep()}
+        {step === 'preview' && renderPreviewStep()}
+        {step === 'done' && renderDoneStep()}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={handlePreview} disabled={unmappedRequiredFields.length > 0}>
+                Preview Rows
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={importProperties.isPending}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0 || importProperties.isPending}>
+                {importProperties.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {validRows.length} Properties
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
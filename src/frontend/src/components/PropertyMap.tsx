@@ -1,5 +1,6 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { Loader2, Search, MapPin, Filter, X, Layers, AlertCircle, RefreshCw, ExternalLink } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { Loader2, Search, MapPin, Filter, X, Layers, AlertCircle, RefreshCw, ExternalLink, PenTool, Undo2, Trash2 } from 'lucide-react';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -10,23 +11,38 @@ import { Slider } from './ui/slider';
 import { Switch } from './ui/switch';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 import { Category, PropertyType, Configuration, Furnishing, Status } from '../backend';
-import type { Property, Coordinates } from '../backend';
+import type { Property, Coordinates, Zone } from '../backend';
 import { toast } from 'sonner';
 import { parsePlaceResult, getPlaceDisplayText } from '../utils/googlePlaces';
+import { distanceKm, formatDistance, getRadiusCenter } from '../utils/geo';
 
-interface PropertyMapProps {
-  properties: Property[];
+// The fields the map reads, so the public listings page can pass its reduced listings
+export type MapProperty = Pick<Property, 'id' | 'title' | 'location' | 'coordinates' | 'price' | 'category' | 'propertyType'>;
+
+interface PropertyMapProps<T extends MapProperty> {
+  properties: T[];
   center?: Coordinates;
   draggableMarker?: Coordinates;
   onMarkerDragEnd?: (coords: Coordinates) => void;
-  onPropertyClick?: (property: Property) => void;
+  onPropertyClick?: (property: T) => void;
   onPlaceSelected?: (place: { city: string; suburb: string; area: string; roadName: string; coords: Coordinates }) => void;
   showClustering?: boolean;
   showRadiusCircles?: boolean;
   selectedPropertyIds?: string[];
   onFilterChange?: (filters: MapFilters) => void;
+  // Filters to start from, e.g. restored from the page URL
+  initialFilters?: MapFilters;
+  // Replaces the current filters whenever a new object is passed, e.g. when a saved preset is applied
+  appliedFilters?: MapFilters;
+  // Public pages have no access to the agent-only detail page
+  showDetailsLink?: boolean;
   enableFilters?: boolean;
   isFiltering?: boolean;
+  // Saved zones offered as a filter; the selected one is outlined on the map
+  zones?: Zone[];
+  // Enables drawing a new zone, called with its corners once the agent finishes
+  onZoneDrawn?: (points: Coordinates[]) => void;
+  onZoneDelete?: (zone: Zone) => void;
 }
 
 export interface MapFilters {
@@ -44,12 +60,31 @@ export interface MapFilters {
   suburb?: string;
   area?: string;
   roadName?: string;
+  zoneId?: string;
 }
 
+const EMPTY_MAP_FILTERS: MapFilters = {
+  category: undefined,
+  propertyType: undefined,
+  configuration: undefined,
+  furnishing: undefined,
+  minPrice: undefined,
+  maxPrice: undefined,
+  status: undefined,
+  radiusKm: undefined,
+  centerLat: undefined,
+  centerLng: undefined,
+  city: undefined,
+  suburb: undefined,
+  area: undefined,
+  roadName: undefined,
+  zoneId: undefined,
+};
+
 // Mulund center coordinates
 const MULUND_CENTER = { lat: 19.1722, lng: 72.9565 };
 
-export default function PropertyMap({
+export default function PropertyMap<T extends MapProperty>({
   properties,
   center = MULUND_CENTER,
   draggableMarker,
@@ -60,9 +95,16 @@ export default function PropertyMap({
   showRadiusCircles = false,
   selectedPropertyIds = [],
   onFilterChange,
+  initialFilters,
+  appliedFilters,
+  showDetailsLink = true,
   enableFilters = false,
   isFiltering = false,
-}: PropertyMapProps) {
+  zones = [],
+  onZoneDrawn,
+  onZoneDelete,
+}: PropertyMapProps<T>) {
+  const navigate = useNavigate();
   const mapRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const googleMapRef = useRef<any>(null);
@@ -75,6 +117,8 @@ export default function PropertyMap({
   const radiusCircleRef = useRef<any>(null);
   const radiusCenterMarkerRef = useRef<any>(null);
   const heatmapRef = useRef<any>(null);
+  const zonePolygonRef = useRef<any>(null);
+  const drawingPolygonRef = useRef<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [errorType, setErrorType] = useState<'missing-key' | 'invalid-key' | 'billing' | 'api-disabled' | 'load-failed' | 'domain-restriction' | null>(null);
@@ -84,6 +128,8 @@ export default function PropertyMap({
   const [radiusCenter, setRadiusCenter] = useState<Coordinates | null>(null);
   const [showHeatmap, setShowHeatmap] = useState(false);
   const [searchValue, setSearchValue] = useState('');
+  const [isDrawingZone, setIsDrawingZone] = useState(false);
+  const [zonePoints, setZonePoints] = useState<Coordinates[]>([]);
   
   // Extract unique location values from properties
   const [uniqueCities, setUniqueCities] = useState<string[]>([]);
@@ -93,22 +139,16 @@ export default function PropertyMap({
   
   // Filter states - real-time updates
   const [filters, setFilters] = useState<MapFilters>({
-    category: undefined,
-    propertyType: undefined,
-    configuration: undefined,
-    furnishing: undefined,
-    minPrice: undefined,
-    maxPrice: undefined,
-    status: undefined,
-    radiusKm: undefined,
-    centerLat: undefined,
-    centerLng: undefined,
-    city: undefined,
-    suburb: undefined,
-    area: undefined,
-    roadName: undefined,
+    ...EMPTY_MAP_FILTERS,
+    ...initialFilters,
   });
 
+  // The parent already knows about applied filters, so this doesn't call onFilterChange
+  useEffect(() => {
+    if (!appliedFilters) return;
+    setFilters({ ...EMPTY_MAP_FILTERS, ...appliedFilters });
+  }, [appliedFilters]);
+
   // Extract unique location values when properties change
   useEffect(() => {
     const cities = new Set<string>();
@@ -609,6 +649,12 @@ export default function PropertyMap({
     }
   }, [draggableMarker]);
 
+  // Memoised on the numbers so the marker and circle effects only rerun when the centre moves
+  const filterCenter = useMemo(
+    () => getRadiusCenter({ radiusKm: filters.radiusKm, centerLat: filters.centerLat, centerLng: filters.centerLng }),
+    [filters.radiusKm, filters.centerLat, filters.centerLng]
+  );
+
   // Update property markers
   useEffect(() => {
     if (!googleMapRef.current || !(window as any).google?.maps) return;
@@ -644,15 +690,31 @@ export default function PropertyMap({
       });
 
       marker.addListener('click', () => {
-        const content = `
-          <div style="padding: 8px; max-width: 250px;">
-            <h3 style="margin: 0 0 8px 0; font-size: 16px; font-weight: 600;">${property.title}</h3>
-            <p style="margin: 4px 0; font-size: 14px; color: #666;">${property.location.area}, ${property.location.suburb}</p>
-            <p style="margin: 4px 0; font-size: 14px; font-weight: 600;">₹${Number(property.price).toLocaleString()}</p>
-            <p style="margin: 4px 0; font-size: 12px; color: #888;">${property.category} • ${property.propertyType}</p>
-          </div>
+        const content = document.createElement('div');
+        content.style.padding = '8px';
+        content.style.maxWidth = '250px';
+        content.innerHTML = `
+          <h3 style="margin: 0 0 8px 0; font-size: 16px; font-weight: 600;">${property.title}</h3>
+          <p style="margin: 4px 0; font-size: 14px; color: #666;">${property.location.area}, ${property.location.suburb}</p>
+          <p style="margin: 4px 0; font-size: 14px; font-weight: 600;">₹${Number(property.price).toLocaleString()}</p>
+          <p style="margin: 4px 0; font-size: 12px; color: #888;">${property.category} • ${property.propertyType}</p>
+          ${filterCenter ? `<p style="margin: 4px 0; font-size: 12px; color: #888;">${formatDistance(distanceKm(filterCenter, property.coordinates))} from the search centre</p>` : ''}
         `;
-        
+
+        // Open the detail page through the router rather than reloading the app
+        if (showDetailsLink) {
+          const detailsLink = document.createElement('a');
+          detailsLink.textContent = 'View details';
+          detailsLink.href = '#';
+          detailsLink.style.fontSize = '13px';
+          detailsLink.style.color = '#2563eb';
+          detailsLink.addEventListener('click', (event) => {
+            event.preventDefault();
+            navigate({ to: '/properties/$propertyId', params: { propertyId: property.id } });
+          });
+          content.appendChild(detailsLink);
+        }
+
         infoWindowRef.current.setContent(content);
         infoWindowRef.current.open(googleMapRef.current, marker);
 
@@ -693,7 +755,109 @@ export default function PropertyMap({
       heatmapRef.current.setMap(null);
       heatmapRef.current = null;
     }
-  }, [properties, selectedPropertyIds, showClustering, showHeatmap, onPropertyClick]);
+  }, [properties, selectedPropertyIds, showClustering, showHeatmap, onPropertyClick, navigate, showDetailsLink, filterCenter]);
+
+  // Show the radius filter as a circle; Google draws it on the sphere, matching distanceKm
+  useEffect(() => {
+    if (!googleMapRef.current || !(window as any).google?.maps) return;
+
+    const google = (window as any).google;
+
+    if (radiusCircleRef.current) {
+      radiusCircleRef.current.setMap(null);
+      radiusCircleRef.current = null;
+    }
+    if (!filterCenter) return;
+
+    radiusCircleRef.current = new google.maps.Circle({
+      center: filterCenter,
+      radius: filters.radiusKm! * 1000,
+      map: googleMapRef.current,
+      strokeColor: '#2563EB',
+      strokeWeight: 2,
+      fillColor: '#2563EB',
+      fillOpacity: 0.06,
+      clickable: false,
+    });
+  }, [isLoading, filterCenter, filters.radiusKm]);
+
+  // Outline the selected zone and bring it into view
+  const selectedZone = zones.find((z) => z.id === filters.zoneId);
+  useEffect(() => {
+    if (!googleMapRef.current || !(window as any).google?.maps) return;
+
+    const google = (window as any).google;
+
+    if (zonePolygonRef.current) {
+      zonePolygonRef.current.setMap(null);
+      zonePolygonRef.current = null;
+    }
+    if (!selectedZone) return;
+
+    zonePolygonRef.current = new google.maps.Polygon({
+      paths: selectedZone.points,
+      map: googleMapRef.current,
+      strokeColor: '#4F46E5',
+      strokeWeight: 2,
+      fillColor: '#4F46E5',
+      fillOpacity: 0.08,
+      // Let clicks through to the map and markers underneath
+      clickable: false,
+    });
+
+    const bounds = new google.maps.LatLngBounds();
+    selectedZone.points.forEach((point) => bounds.extend(point));
+    googleMapRef.current.fitBounds(bounds);
+  }, [isLoading, selectedZone]);
+
+  // While drawing, each map click adds a corner to the new zone
+  useEffect(() => {
+    if (!isDrawingZone || !googleMapRef.current || !(window as any).google?.maps) return;
+
+    const google = (window as any).google;
+    const listener = googleMapRef.current.addListener('click', (event: any) => {
+      setZonePoints((points) => [...points, { lat: event.latLng.lat(), lng: event.latLng.lng() }]);
+    });
+    googleMapRef.current.setOptions({ draggableCursor: 'crosshair' });
+
+    return () => {
+      google.maps.event.removeListener(listener);
+      googleMapRef.current?.setOptions({ draggableCursor: null });
+    };
+  }, [isLoading, isDrawingZone]);
+
+  useEffect(() => {
+    if (!googleMapRef.current || !(window as any).google?.maps) return;
+
+    const google = (window as any).google;
+
+    if (drawingPolygonRef.current) {
+      drawingPolygonRef.current.setMap(null);
+      drawingPolygonRef.current = null;
+    }
+    if (zonePoints.length === 0) return;
+
+    drawingPolygonRef.current = new google.maps.Polygon({
+      paths: zonePoints,
+      map: googleMapRef.current,
+      strokeColor: '#F59E0B',
+      strokeWeight: 2,
+      fillColor: '#F59E0B',
+      fillOpacity: 0.15,
+      clickable: false,
+    });
+  }, [isLoading, zonePoints]);
+
+  const stopDrawingZone = () => {
+    setIsDrawingZone(false);
+    setZonePoints([]);
+  };
+
+  const finishDrawingZone = () => {
+    if (zonePoints.length < 3 || !onZoneDrawn) return;
+    onZoneDrawn(zonePoints);
+    stopDrawingZone();
+  };
 
   // Handle Enter key for geocoding fallback
   const handleSearchKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -753,26 +917,10 @@ export default function PropertyMap({
   };
 
   const clearFilters = () => {
-    const emptyFilters: MapFilters = {
-      category: undefined,
-      propertyType: undefined,
-      configuration: undefined,
-      furnishing: undefined,
-      minPrice: undefined,
-      maxPrice: undefined,
-      status: undefined,
-      radiusKm: undefined,
-      centerLat: undefined,
-      centerLng: undefined,
-      city: undefined,
-      suburb: undefined,
-      area: undefined,
-      roadName: undefined,
-    };
-    setFilters(emptyFilters);
+    setFilters(EMPTY_MAP_FILTERS);
     setRadiusCenter(null);
     if (onFilterChange) {
-      onFilterChange(emptyFilters);
+      onFilterChange(EMPTY_MAP_FILTERS);
     }
   };
 
@@ -847,6 +995,17 @@ export default function PropertyMap({
             <Filter className="h-4 w-4" />
           </Button>
         )}
+        {onZoneDrawn && (
+          <Button
+            variant={isDrawingZone ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => (isDrawingZone ? stopDrawingZone() : setIsDrawingZone(true))}
+            className="shadow-lg"
+            title="Draw a zone"
+          >
+            <PenTool className="h-4 w-4" />
+          </Button>
+        )}
         <Button
           variant="outline"
           size="icon"
@@ -857,6 +1016,30 @@ export default function PropertyMap({
         </Button>
       </div>
 
+      {/* Zone drawing controls */}
+      {isDrawingZone && (
+        <div className="absolute bottom-6 left-1/2 z-10 flex -translate-x-1/2 items-center gap-2 rounded-md bg-background p-2 shadow-lg">
+          <span className="px-2 text-sm text-muted-foreground">
+            {zonePoints.length === 0 ? 'Click the map to add corners' : `${zonePoints.length} corner${zonePoints.length === 1 ? '' : 's'}`}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setZonePoints((points) => points.slice(0, -1))}
+            disabled={zonePoints.length === 0}
+            title="Undo last corner"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={stopDrawingZone}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={finishDrawingZone} disabled={zonePoints.length < 3}>
+            Finish
+          </Button>
+        </div>
+      )}
+
       {/* Filter panel */}
       {enableFilters && showFilterPanel && (
         <Card className="absolute top-20 left-4 z-10 w-80 max-h-[calc(100vh-200px)] overflow-y-auto shadow-lg">
@@ -872,6 +1055,34 @@ export default function PropertyMap({
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
+            {/* Zone filter */}
+            {zones.length > 0 && (
+              <div className="space-y-2">
+                <Label>Zone</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={filters.zoneId || ''}
+                    onValueChange={(value) => updateFilters({ zoneId: value || undefined })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Anywhere" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="">Anywhere</SelectItem>
+                      {zones.map(zone => (
+                        <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedZone && onZoneDelete && (
+                    <Button variant="ghost" size="icon" onClick={() => onZoneDelete(selectedZone)} title="Delete zone">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Location filters */}
             <div className="space-y-2">
               <Label>City</Label>
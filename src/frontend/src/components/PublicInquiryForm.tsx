@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { useSubmitPublicInquiry } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Alert, AlertDescription } from './ui/alert';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import type { PublicListing } from '../backend';
+
+interface PublicInquiryFormProps {
+  property: PublicListing;
+}
+
+export default function PublicInquiryForm({ property }: PublicInquiryFormProps) {
+  const submitInquiry = useSubmitPublicInquiry();
+  const [formData, setFormData] = useState({ customerName: '', contactInfo: '', notes: '' });
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.customerName.trim()) {
+      errors.customerName = 'Please enter your name';
+    }
+
+    // Same contact rules as the agents' inquiry form: an email address or a phone number
+    const contactValue = formData.contactInfo.trim();
+    if (!contactValue) {
+      errors.contactInfo = 'Please enter an email address or phone number';
+    } else if (contactValue.includes('@')) {
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contactValue)) {
+        errors.contactInfo = 'Please enter a valid email address';
+      }
+    } else if (contactValue.replace(/\D/g, '').length < 10) {
+      errors.contactInfo = 'Please enter a valid phone number (at least 10 digits)';
+    }
+
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    try {
+      await submitInquiry.mutateAsync({
+        propertyId: property.id,
+        customerName: formData.customerName.trim(),
+        contactInfo: formData.contactInfo.trim(),
+        notes: formData.notes.trim(),
+      });
+      setSubmitted(true);
+    } catch (error) {
+      // Error toast is already handled by the mutation
+      console.error('Error submitting inquiry:', error);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertDescription>
+          Thanks for your interest in {property.title}. The listing agent will contact you at {formData.contactInfo.trim()}.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="interest-name">Your Name *</Label>
+        <Input
+          id="interest-name"
+          value={formData.customerName}
+          onChange={(e) => setFormData({ ...formData, customerName: e.target.value })}
+          maxLength={100}
+          className={validationErrors.customerName ? 'border-destructive' : ''}
+        />
+        {validationErrors.customerName && <p className="text-sm text-destructive">{validationErrors.customerName}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="interest-contact">Email or Phone *</Label>
+        <Input
+          id="interest-contact"
+          value={formData.contactInfo}
+          onChange={(e) => setFormData({ ...formData, contactInfo: e.target.value })}
+          maxLength={100}
+          className={validationErrors.contactInfo ? 'border-destructive' : ''}
+        />
+        {validationErrors.contactInfo && <p className="text-sm text-destructive">{validationErrors.contactInfo}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="interest-notes">Message</Label>
+        <Textarea
+          id="interest-notes"
+          value={formData.notes}
+          onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+          placeholder="Preferred visit times, questions about the property..."
+          maxLength={1000}
+          rows={3}
+        />
+      </div>
+      <Button onClick={handleSubmit} disabled={submitInquiry.isPending} className="w-full">
+        {submitInquiry.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        I'm Interested
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Link } from '@tanstack/react-router';
+import {
+  useDismissRequirementAlert,
+  useGetAllProperties,
+  useGetCustomers,
+  useGetRequirementAlerts,
+  useGetRequirements,
+} from '../hooks/useQueries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Skeleton } from './ui/skeleton';
+import { BellRing, X } from 'lucide-react';
+
+export default function RequirementAlertsCard() {
+  const { data: alerts = [], isLoading } = useGetRequirementAlerts();
+  const { data: requirements = [] } = useGetRequirements();
+  const { data: customers = [] } = useGetCustomers();
+  const { data: properties = [] } = useGetAllProperties();
+  const dismissAlert = useDismissRequirementAlert();
+
+  const getCustomerId = (requirementId: string): string | undefined => {
+    return requirements.find((r) => r.id === requirementId)?.customerId;
+  };
+
+  const getCustomerName = (requirementId: string): string => {
+    const customerId = getCustomerId(requirementId);
+    return customers.find((c) => c.id === customerId)?.name ?? 'A buyer';
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          New Listings for My Buyers
+          {alerts.length > 0 && <Badge>{alerts.length}</Badge>}
+        </CardTitle>
+        <CardDescription>Newly added listings that fit an open requirement you look after</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-full" />
+            <Skeleton className="h-6 w-full" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No new matches</p>
+        ) : (
+          <ul className="divide-y">
+            {alerts.map((alert) => {
+              const property = properties.find((p) => p.id === alert.propertyId);
+              return (
+                <li key={alert.id} className="flex items-center justify-between gap-2 py-3">
+                  <div className="min-w-0">
+                    <Link
+                      to="/customers"
+                      search={{ customer: getCustomerId(alert.requirementId), requirement: alert.requirementId }}
+                      className="font-medium hover:underline"
+                    >
+                      {getCustomerName(alert.requirementId)}
+                    </Link>
+                    <p className="truncate text-sm text-muted-foreground">
+                      <Link to="/properties/$propertyId" params={{ propertyId: alert.propertyId }} className="hover:underline">
+                        {property?.title || alert.propertyId.substring(0, 30) + '...'}
+                      </Link>
+                      {property && ` · ₹${Number(property.price).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Dismiss"
+                    onClick={() => dismissAlert.mutate(alert.id)}
+                    disabled={dismissAlert.isPending}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
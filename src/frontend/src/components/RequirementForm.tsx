@@ -0,0 +1,417 @@
+import { useEffect, useState } from 'react';
+import { useAddRequirement, useGetAllAgents, useGetAllProperties, useUpdateRequirement } from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+import { Textarea } from './ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { Principal } from '@dfinity/principal';
+import { Category, Configuration, Furnishing, type Customer, type Requirement } from '../backend';
+import { CONFIGURATION_LABELS } from './CustomerForm';
+import { fromAdvancedFilter, hasCriteria, toAdvancedFilter, type RequirementCriteria } from '../utils/requirements';
+
+export const CATEGORY_LABELS: Record<Category, string> = {
+  [Category.resale]: 'Resale',
+  [Category.rental]: 'Rental',
+  [Category.underConstruction]: 'Under Construction',
+};
+
+export const FURNISHING_LABELS: Record<Furnishing, string> = {
+  [Furnishing.unfurnished]: 'Unfurnished',
+  [Furnishing.semiFurnished]: 'Semi Furnished',
+  [Furnishing.furnished]: 'Furnished',
+};
+
+interface RequirementFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: Customer | null;
+  // Edits this requirement instead of adding a new one
+  requirement?: Requirement | null;
+  // Assistants can only look after requirements themselves
+  canAssignToOthers: boolean;
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export default function RequirementForm({ open, onOpenChange, customer, requirement, canAssignToOthers }: RequirementFormProps) {
+  const { data: agents = [] } = useGetAllAgents();
+  const { data: properties = [] } = useGetAllProperties();
+  const { identity } = useInternetIdentity();
+  const addRequirement = useAddRequirement();
+  const updateRequirement = useUpdateRequirement();
+
+  const [formData, setFormData] = useState({
+    agentId: '',
+    budgetMin: '',
+    budgetMax: '',
+    suburbs: [] as string[],
+    configurations: [] as Configuration[],
+    categories: [] as Category[],
+    furnishings: [] as Furnishing[],
+    nearby: false,
+    lat: '',
+    lng: '',
+    radiusKm: '2',
+    note: '',
+  });
+  const [suburbInput, setSuburbInput] = useState('');
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+
+  const callerId = identity?.getPrincipal().toString() ?? '';
+  const isEdit = !!requirement;
+
+  useEffect(() => {
+    if (!open) return;
+    setValidationErrors({});
+    setSuburbInput('');
+
+    // A new requirement starts from the budget and preferences already on the customer
+    const criteria: RequirementCriteria = requirement
+      ? fromAdvancedFilter(requirement.filter)
+      : {
+          budgetMin: customer?.budgetMin ?? 0n,
+          budgetMax: customer?.budgetMax ?? 0n,
+          suburbs: customer?.preferredSuburbs ?? [],
+          configurations: customer?.preferredConfigurations ?? [],
+          categories: [],
+          furnishings: [],
+          nearby: null,
+        };
+    setFormData({
+      agentId: requirement ? requirement.agent.toString() : callerId,
+      budgetMin: criteria.budgetMin > 0n ? criteria.budgetMin.toString() : '',
+      budgetMax: criteria.budgetMax > 0n ? criteria.budgetMax.toString() : '',
+      suburbs: criteria.suburbs,
+      configurations: criteria.configurations,
+      categories: criteria.categories,
+      furnishings: criteria.furnishings,
+      nearby: criteria.nearby !== null,
+      lat: criteria.nearby ? String(criteria.nearby.lat) : '',
+      lng: criteria.nearby ? String(criteria.nearby.lng) : '',
+      radiusKm: criteria.nearby ? String(criteria.nearby.radiusKm) : '2',
+      note: requirement?.note ?? '',
+    });
+  }, [open, requirement?.id, customer?.id]);
+
+  const activeAgents = agents.filter((a) => a.active);
+  const knownSuburbs = Array.from(new Set(properties.map((p) => p.location.suburb.trim()).filter(Boolean))).sort();
+  const suburbOptions = Array.from(new Set([...knownSuburbs, ...formData.suburbs]));
+
+  const addTypedSuburb = () => {
+    const suburb = suburbInput.trim();
+    if (suburb && !formData.suburbs.some((s) => s.toLowerCase() === suburb.toLowerCase())) {
+      setFormData({ ...formData, suburbs: [...formData.suburbs, suburb] });
+    }
+    setSuburbInput('');
+  };
+
+  const centreOnProperty = (propertyId: string) => {
+    const property = properties.find((p) => p.id === propertyId);
+    if (property) {
+      setFormData({ ...formData, lat: String(property.coordinates.lat), lng: String(property.coordinates.lng) });
+    }
+  };
+
+  const buildCriteria = (): RequirementCriteria => ({
+    budgetMin: BigInt(formData.budgetMin || 0),
+    budgetMax: BigInt(formData.budgetMax || 0),
+    suburbs: formData.suburbs,
+    configurations: formData.configurations,
+    categories: formData.categories,
+    furnishings: formData.furnishings,
+    nearby: formData.nearby
+      ? { lat: Number(formData.lat), lng: Number(formData.lng), radiusKm: Number(formData.radiusKm) }
+      : null,
+  });
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.agentId) {
+      errors.agentId = 'Please select an agent';
+    }
+
+    const budgetMin = formData.budgetMin ? Number(formData.budgetMin) : 0;
+    const budgetMax = formData.budgetMax ? Number(formData.budgetMax) : 0;
+    if (!Number.isInteger(budgetMin) || budgetMin < 0 || !Number.isInteger(budgetMax) || budgetMax < 0) {
+      errors.budget = 'Budget must be a whole number of rupees';
+    } else if (budgetMax > 0 && budgetMax < budgetMin) {
+      errors.budget = 'Maximum budget cannot be below the minimum';
+    }
+
+    if (formData.nearby) {
+      const lat = Number(formData.lat);
+      const lng = Number(formData.lng);
+      if (!formData.lat || !formData.lng || Number.isNaN(lat) || Number.isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        errors.nearby = 'Enter a valid latitude and longitude, or centre on a listing';
+      } else if (!(Number(formData.radiusKm) > 0)) {
+        errors.nearby = 'Radius must be greater than zero';
+      }
+    }
+
+    if (!errors.budget && !errors.nearby && !hasCriteria(buildCriteria())) {
+      errors.criteria = 'Add a budget, location or property preference to match listings against';
+    }
+
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !customer) return;
+
+    const input = {
+      agent: Principal.fromText(formData.agentId),
+      filter: toAdvancedFilter(buildCriteria()),
+      note: formData.note.trim(),
+    };
+
+    try {
+      if (requirement) {
+        await updateRequirement.mutateAsync({ requirementId: requirement.id, open: requirement.open, ...input });
+      } else {
+        await addRequirement.mutateAsync({ customerId: customer.id, ...input });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving requirement:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const isPending = addRequirement.isPending || updateRequirement.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? 'Edit Requirement' : 'Add Requirement'}</DialogTitle>
+          <DialogDescription>
+            {customer ? `What ${customer.name} is looking for. ` : ''}
+            The agent is alerted when a new listing fits.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="requirement-agent">
+              Agent <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={formData.agentId}
+              onValueChange={(value) => setFormData({ ...formData, agentId: value })}
+              disabled={!canAssignToOthers}
+            >
+              <SelectTrigger id="requirement-agent" className={validationErrors.agentId ? 'border-destructive' : ''}>
+                <SelectValue placeholder="Select an agent" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAgents.map((agent) => (
+                  <SelectItem key={agent.id.toString()} value={agent.id.toString()}>
+                    {agent.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {validationErrors.agentId && <p className="text-sm text-destructive">{validationErrors.agentId}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Budget (₹)</Label>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Input
+                type="number"
+                min={0}
+                value={formData.budgetMin}
+                onChange={(e) => setFormData({ ...formData, budgetMin: e.target.value })}
+                placeholder="Minimum"
+                className={validationErrors.budget ? 'border-destructive' : ''}
+              />
+              <Input
+                type="number"
+                min={0}
+                value={formData.budgetMax}
+                onChange={(e) => setFormData({ ...formData, budgetMax: e.target.value })}
+                placeholder="Maximum"
+                className={validationErrors.budget ? 'border-destructive' : ''}
+              />
+            </div>
+            {validationErrors.budget && <p className="text-sm text-destructive">{validationErrors.budget}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Configurations</Label>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(Configuration).map((configuration) => (
+                <Badge
+                  key={configuration}
+                  variant={formData.configurations.includes(configuration) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => setFormData({ ...formData, configurations: toggle(formData.configurations, configuration) })}
+                >
+                  {CONFIGURATION_LABELS[configuration]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(Category).map((category) => (
+                  <Badge
+                    key={category}
+                    variant={formData.categories.includes(category) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => setFormData({ ...formData, categories: toggle(formData.categories, category) })}
+                  >
+                    {CATEGORY_LABELS[category]}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Furnishing</Label>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(Furnishing).map((furnishing) => (
+                  <Badge
+                    key={furnishing}
+                    variant={formData.furnishings.includes(furnishing) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => setFormData({ ...formData, furnishings: toggle(formData.furnishings, furnishing) })}
+                  >
+                    {FURNISHING_LABELS[furnishing]}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="requirement-suburb">Suburbs</Label>
+            <div className="flex gap-2">
+              <Input
+                id="requirement-suburb"
+                value={suburbInput}
+                onChange={(e) => setSuburbInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addTypedSuburb();
+                  }
+                }}
+                placeholder="Type a suburb and press Enter"
+              />
+              <Button type="button" variant="outline" onClick={addTypedSuburb} disabled={!suburbInput.trim()}>
+                Add
+              </Button>
+            </div>
+            {suburbOptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {suburbOptions.map((suburb) => (
+                  <Badge
+                    key={suburb}
+                    variant={formData.suburbs.includes(suburb) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => setFormData({ ...formData, suburbs: toggle(formData.suburbs, suburb) })}
+                  >
+                    {suburb}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="requirement-nearby"
+                checked={formData.nearby}
+                onCheckedChange={(checked) => setFormData({ ...formData, nearby: checked })}
+              />
+              <Label htmlFor="requirement-nearby" className="cursor-pointer">
+                Within a radius of a point
+              </Label>
+            </div>
+            {formData.nearby && (
+              <>
+                <Select value="" onValueChange={centreOnProperty}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Centre on a listing" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map((property) => (
+                      <SelectItem key={property.id} value={property.id}>
+                        {property.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="grid grid-cols-3 gap-3">
+                  <Input
+                    type="number"
+                    step="any"
+                    value={formData.lat}
+                    onChange={(e) => setFormData({ ...formData, lat: e.target.value })}
+                    placeholder="Latitude"
+                    className={validationErrors.nearby ? 'border-destructive' : ''}
+                  />
+                  <Input
+                    type="number"
+                    step="any"
+                    value={formData.lng}
+                    onChange={(e) => setFormData({ ...formData, lng: e.target.value })}
+                    placeholder="Longitude"
+                    className={validationErrors.nearby ? 'border-destructive' : ''}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={formData.radiusKm}
+                    onChange={(e) => setFormData({ ...formData, radiusKm: e.target.value })}
+                    placeholder="Radius (km)"
+                    className={validationErrors.nearby ? 'border-destructive' : ''}
+                  />
+                </div>
+              </>
+            )}
+            {validationErrors.nearby && <p className="text-sm text-destructive">{validationErrors.nearby}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="requirement-note">Note</Label>
+            <Textarea
+              id="requirement-note"
+              value={formData.note}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              placeholder="Anything else the buyer mentioned, e.g. needs parking or a high floor"
+              rows={2}
+            />
+          </div>
+
+          {validationErrors.criteria && <p className="text-sm text-destructive">{validationErrors.criteria}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isEdit ? 'Save Changes' : 'Add Requirement'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
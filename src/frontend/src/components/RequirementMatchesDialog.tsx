@@ -0,0 +1,83 @@
+import { Link } from '@tanstack/react-router';
+import { useGetRequirementMatches } from '../hooks/useQueries';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Badge } from './ui/badge';
+import { Loader2 } from 'lucide-react';
+import type { Requirement } from '../backend';
+import { CONFIGURATION_LABELS } from './CustomerForm';
+import { CATEGORY_LABELS, FURNISHING_LABELS } from './RequirementForm';
+
+interface RequirementMatchesDialogProps {
+  requirement: Requirement | null;
+  customerName: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function RequirementMatchesDialog({ requirement, customerName, onOpenChange }: RequirementMatchesDialogProps) {
+  const { data: matches = [], isLoading } = useGetRequirementMatches(requirement?.id ?? null);
+
+  return (
+    <Dialog open={!!requirement} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Matching Listings</DialogTitle>
+          <DialogDescription>
+            Available listings that fit {customerName}'s requirement, nearest and cheapest first
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Property</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
+                      No available listings fit yet. The agent will be alerted when one is added.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  matches.map((property, index) => (
+                    <TableRow key={property.id}>
+                      <TableCell className="text-sm text-muted-foreground">{index + 1}</TableCell>
+                      <TableCell className="max-w-[220px] truncate text-sm font-medium">
+                        <Link to="/properties/$propertyId" params={{ propertyId: property.id }} className="hover:underline">
+                          {property.title}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {[property.location.area, property.location.suburb].filter(Boolean).join(', ')}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant="secondary">{CONFIGURATION_LABELS[property.configuration]}</Badge>
+                          <Badge variant="outline">{CATEGORY_LABELS[property.category]}</Badge>
+                          <Badge variant="outline">{FURNISHING_LABELS[property.furnishing]}</Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right text-sm font-medium">₹{Number(property.price).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
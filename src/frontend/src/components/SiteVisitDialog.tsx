@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import {
+  useGetAllAgents,
+  useGetAllInquiries,
+  useGetAllProperties,
+  useGetSiteVisits,
+  useRescheduleSiteVisit,
+  useScheduleSiteVisit,
+} from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Principal } from '@dfinity/principal';
+import { Status__1, type SiteVisit } from '../backend';
+import { findClashingVisit, formatVisitTime, toDateKey, toTime, visitEnd, visitStart, VISIT_DURATIONS_MINUTES } from '../utils/siteVisits';
+
+interface SiteVisitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Reschedules this visit instead of booking a new one
+  visit?: SiteVisit | null;
+  defaultInquiryId?: string;
+  defaultDate?: Date;
+  // Assistants can only book visits for themselves
+  canAssignToOthers: boolean;
+}
+
+export default function SiteVisitDialog({ open, onOpenChange, visit, defaultInquiryId, defaultDate, canAssignToOthers }: SiteVisitDialogProps) {
+  const { data: inquiries = [] } = useGetAllInquiries();
+  const { data: properties = [] } = useGetAllProperties();
+  const { data: agents = [] } = useGetAllAgents();
+  const { data: visits = [] } = useGetSiteVisits();
+  const { identity } = useInternetIdentity();
+  const scheduleVisit = useScheduleSiteVisit();
+  const rescheduleVisit = useRescheduleSiteVisit();
+
+  const [formData, setFormData] = useState({
+    inquiryId: '',
+    propertyId: '',
+    agentId: '',
+    date: '',
+    time: '10:00',
+    duration: '60',
+  });
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+
+  const callerId = identity?.getPrincipal().toString() ?? '';
+  const isReschedule = !!visit;
+
+  useEffect(() => {
+    if (!open) return;
+    setValidationErrors({});
+
+    if (visit) {
+      const start = visitStart(visit);
+      const pad = (n: number) => String(n).padStart(2, '0');
+      setFormData({
+        inquiryId: visit.inquiryId,
+        propertyId: visit.propertyId,
+        agentId: visit.agent.toString(),
+        date: toDateKey(start),
+        time: `${pad(start.getHours())}:${pad(start.getMinutes())}`,
+        duration: String(Math.round((visitEnd(visit).getTime() - start.getTime()) / 60_000)),
+      });
+      return;
+    }
+
+    // Prefill from the inquiry so the usual case is just picking a time
+    const inquiry = inquiries.find((i) => i.id === defaultInquiryId);
+    setFormData({
+      inquiryId: inquiry?.id ?? '',
+      propertyId: inquiry?.propertyId ?? '',
+      agentId: canAssignToOthers ? (inquiry?.assignedAgent.toString() ?? callerId) : callerId,
+      date: toDateKey(defaultDate ?? new Date()),
+      time: '10:00',
+      duration: '60',
+    });
+  }, [open, visit?.id, defaultInquiryId]);
+
+  const openInquiries = inquiries.filter((i) => i.status !== Status__1.closed || i.id === formData.inquiryId);
+  const activeAgents = agents.filter((a) => a.active);
+
+  const start = formData.date && formData.time ? new Date(`${formData.date}T${formData.time}`) : null;
+  const startsAt = start && !Number.isNaN(start.getTime()) ? toTime(start) : null;
+  const endsAt = startsAt !== null ? startsAt + BigInt(Number(formData.duration)) * 60_000_000_000n : null;
+  const clash =
+    formData.agentId && startsAt !== null && endsAt !== null
+      ? findClashingVisit(visits, formData.agentId, startsAt, endsAt, visit?.id)
+      : undefined;
+
+  const getCustomerName = (inquiryId: string): string => {
+    return inquiries.find((i) => i.id === inquiryId)?.customerName ?? 'another customer';
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.inquiryId) {
+      errors.inquiryId = 'Please select an inquiry';
+    }
+    if (!formData.propertyId) {
+      errors.propertyId = 'Please select a property';
+    }
+    if (!formData.agentId) {
+      errors.agentId = 'Please select an agent';
+    }
+    if (startsAt === null) {
+      errors.date = 'Please pick a date and time';
+    }
+
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || clash || startsAt === null || endsAt === null) return;
+
+    try {
+      const agentId = Principal.fromText(formData.agentId);
+      if (visit) {
+        await rescheduleVisit.mutateAsync({ visitId: visit.id, agentId, startsAt, endsAt });
+      } else {
+        await scheduleVisit.mutateAsync({
+          inquiryId: formData.inquiryId,
+          propertyId: formData.propertyId,
+          agentId,
+          startsAt,
+          endsAt,
+        });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving site visit:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const isPending = scheduleVisit.isPending || rescheduleVisit.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{isReschedule ? 'Reschedule Site Visit' : 'Schedule Site Visit'}</DialogTitle>
+          <DialogDescription>
+            {isReschedule
+              ? `Move ${getCustomerName(formData.inquiryId)}'s viewing to another slot or agent`
+              : 'Book a property viewing for an inquiry'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="visit-inquiry">
+              Inquiry <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={formData.inquiryId}
+              onValueChange={(value) => {
+                const inquiry = inquiries.find((i) => i.id === value);
+                setFormData({
+                  ...formData,
+                  inquiryId: value,
+                  propertyId: inquiry?.propertyId ?? formData.propertyId,
+                  agentId: canAssignToOthers && inquiry ? inquiry.assignedAgent.toString() : formData.agentId,
+                });
+              }}
+              disabled={isReschedule}
+            >
+              <SelectTrigger id="visit-inquiry" className={validationErrors.inquiryId ? 'border-destructive' : ''}>
+                <SelectValue placeholder="Select an inquiry" />
+              </SelectTrigger>
+              <SelectContent>
+                {openInquiries.map((inquiry) => (
+                  <SelectItem key={inquiry.id} value={inquiry.id}>
+                    {inquiry.customerName} · {inquiry.contactInfo}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {validationErrors.inquiryId && <p className="text-sm text-destructive">{validationErrors.inquiryId}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="visit-property">
+              Property <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={formData.propertyId}
+              onValueChange={(value) => setFormData({ ...formData, propertyId: value })}
+              disabled={isReschedule}
+            >
+              <SelectTrigger id="visit-property" className={validationErrors.propertyId ? 'border-destructive' : ''}>
+                <SelectValue placeholder="Select a property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map((property) => (
+                  <SelectItem key={property.id} value={property.id}>
+                    {property.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {validationErrors.propertyId && <p className="text-sm text-destructive">{validationErrors.propertyId}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="visit-agent">
+              Agent <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={formData.agentId}
+              onValueChange={(value) => setFormData({ ...formData, agentId: value })}
+              disabled={!canAssignToOthers}
+            >
+              <SelectTrigger id="visit-agent" className={validationErrors.agentId ? 'border-destructive' : ''}>
+                <SelectValue placeholder="Select an agent" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAgents.map((agent) => (
+                  <SelectItem key={agent.id.toString()} value={agent.id.toString()}>
+                    {agent.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {validationErrors.agentId && <p className="text-sm text-destructive">{validationErrors.agentId}</p>}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="visit-date">
+                Date <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="visit-date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className={validationErrors.date ? 'border-destructive' : ''}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="visit-time">
+                Start <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="visit-time"
+                type="time"
+                step={900}
+                value={formData.time}
+                onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                className={validationErrors.date ? 'border-destructive' : ''}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="visit-duration">Duration</Label>
+              <Select value={formData.duration} onValueChange={(value) => setFormData({ ...formData, duration: value })}>
+                <SelectTrigger id="visit-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VISIT_DURATIONS_MINUTES.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {validationErrors.date && <p className="text-sm text-destructive">{validationErrors.date}</p>}
+
+          {clash && (
+            <p className="flex items-start gap-2 text-sm text-destructive">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              This agent is already visiting with {getCustomerName(clash.inquiryId)} on{' '}
+              {visitStart(clash).toLocaleDateString()} ({formatVisitTime(clash)}). Pick another slot or agent.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending || !!clash}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isReschedule ? 'Reschedule' : 'Schedule Visit'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { useAddZone } from '../hooks/useQueries';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Loader2 } from 'lucide-react';
+import type { Coordinates } from '../backend';
+
+interface ZoneSaveDialogProps {
+  // Corners of the zone just drawn on the map; the dialog is open while this is set
+  points: Coordinates[] | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (zoneId: string) => void;
+}
+
+export default function ZoneSaveDialog({ points, onOpenChange, onSaved }: ZoneSaveDialogProps) {
+  const addZone = useAddZone();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!points) return;
+    setName('');
+    setError(null);
+  }, [points]);
+
+  const handleSubmit = async () => {
+    if (!points) return;
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('Please give the zone a name');
+      return;
+    }
+
+    try {
+      const zoneId = await addZone.mutateAsync({ name: trimmed, points });
+      onSaved(zoneId);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving zone:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={!!points} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Save Zone</DialogTitle>
+          <DialogDescription>
+            Name the area you drew ({points?.length ?? 0} corners) so the whole team can filter by it
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-4">
+          <Label htmlFor="zone-name">
+            Name <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="zone-name"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+            placeholder="e.g. East of the railway line"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={addZone.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={addZone.isPending}>
+            {addZone.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Zone
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,6 +10,16 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
+export interface Activity {
+  'kind' : ActivityKind,
+  'createdAt' : Time,
+  'text' : string,
+  'author' : Principal,
+}
+export type ActivityKind = { 'siteVisit' : null } |
+  { 'call' : null } |
+  { 'note' : null } |
+  { 'message' : null };
 export interface AdvancedFilter {
   'categories' : Array<Category>,
   'configurations' : Array<Configuration>,
@@ -32,6 +42,12 @@ export interface CategoryDistribution {
   'regionType' : RegionType,
   'underConstructionCount' : bigint,
 }
+export interface Closure {
+  'finalPrice' : bigint,
+  'lostReason' : string,
+  'closedAt' : Time,
+  'outcome' : Outcome,
+}
 export interface CombinedAnalytics {
   'propertyDensity' : Array<PropertyDensity>,
   'furnishingDistribution' : Array<FurnishingDistribution>,
@@ -74,7 +90,41 @@ export interface ConfigurationDistribution {
   'penthouseCount' : bigint,
 }
 export interface Coordinates { 'lat' : number, 'lng' : number }
+export interface Customer {
+  'id' : string,
+  'preferredConfigurations' : Array<Configuration>,
+  'name' : string,
+  'createdAt' : Time,
+  'email' : string,
+  'updatedAt' : Time,
+  'preferredSuburbs' : Array<string>,
+  'phone' : string,
+  'budgetMax' : bigint,
+  'budgetMin' : bigint,
+}
+export interface DataSnapshot {
+  'assignmentCursors' : Array<[string, bigint]>,
+  'propertyHistory' : Array<[string, Array<PropertyChange>]>,
+  'createdAt' : Time,
+  'requirementAlerts' : Array<MatchAlert>,
+  'agents' : Array<Profile>,
+  'priceHistory' : Array<[string, Array<PricePoint>]>,
+  'siteVisits' : Array<SiteVisit>,
+  'properties' : Array<Property>,
+  'userProfiles' : Array<[Principal, UserProfile]>,
+  'zones' : Array<Zone>,
+  'requirements' : Array<Requirement>,
+  'assignmentRules' : Array<Rule>,
+  'mapPresets' : Array<MapPreset>,
+  'customers' : Array<Customer>,
+  'inquiries' : Array<Inquiry>,
+}
 export type ExternalBlob = Uint8Array;
+export interface FieldChange {
+  'field' : string,
+  'oldValue' : string,
+  'newValue' : string,
+}
 export type Furnishing = { 'semiFurnished' : null } |
   { 'furnished' : null } |
   { 'unfurnished' : null };
@@ -94,8 +144,12 @@ export interface Inquiry {
   'assignedAgent' : Principal,
   'createdAt' : Time,
   'propertyId' : string,
+  'closure' : [] | [Closure],
   'updatedAt' : Time,
-  'notes' : string,
+  'customerId' : string,
+  'followUpAt' : [] | [Time],
+  'activity' : Array<Activity>,
+  'followUpNote' : string,
 }
 export interface Location {
   'roadName' : string,
@@ -103,6 +157,38 @@ export interface Location {
   'city' : string,
   'suburb' : string,
 }
+export interface MapPreset {
+  'id' : string,
+  'filters' : SearchCriteria,
+  'owner' : Principal,
+  'name' : string,
+  'createdAt' : Time,
+  'sharedWithTeam' : boolean,
+  'updatedAt' : Time,
+  'pinnedBy' : Array<Principal>,
+}
+export interface MatchAlert {
+  'id' : string,
+  'agent' : Principal,
+  'requirementId' : string,
+  'createdAt' : Time,
+  'propertyId' : string,
+}
+export type Outcome = { 'won' : null } |
+  { 'lost' : null };
+export interface PricePoint {
+  'changedAt' : Time,
+  'changedBy' : Principal,
+  'price' : bigint,
+}
+export interface PriceReduction {
+  'region' : string,
+  'reducedCount' : bigint,
+  'averageDaysToReduction' : [] | [number],
+  'averageReductionPercent' : [] | [number],
+  'regionType' : RegionType,
+  'listingCount' : bigint,
+}
 export interface PricingHeatmap {
   'region' : string,
   'averagePrice' : [] | [bigint],
@@ -132,9 +218,28 @@ export interface Property {
   'price' : bigint,
   'furnishing' : Furnishing,
   'location' : Location,
+  'archived' : boolean,
   'coordinates' : Coordinates,
   'images' : Array<ExternalBlob>,
 }
+export interface PublicListing {
+  'id' : string,
+  'title' : string,
+  'propertyType' : PropertyType,
+  'description' : string,
+  'category' : Category,
+  'configuration' : Configuration,
+  'price' : bigint,
+  'furnishing' : Furnishing,
+  'location' : Location,
+  'coordinates' : Coordinates,
+  'images' : Array<ExternalBlob>,
+}
+export interface PropertyChange {
+  'changedAt' : Time,
+  'changedBy' : Principal,
+  'changes' : Array<FieldChange>,
+}
 export interface PropertyDensity {
   'region' : string,
   'propertyCount' : bigint,
@@ -193,6 +298,34 @@ export interface RegionalDistribution {
   },
   'regionType' : RegionType,
 }
+export interface Requirement {
+  'id' : string,
+  'agent' : Principal,
+  'note' : string,
+  'open' : boolean,
+  'createdAt' : Time,
+  'updatedAt' : Time,
+  'filter' : AdvancedFilter,
+  'customerId' : string,
+}
+export interface ResetScope {
+  'agents' : boolean,
+  'properties' : boolean,
+  'userProfiles' : boolean,
+  'inquiries' : boolean,
+}
+export interface Rule {
+  'id' : string,
+  'strategy' : Strategy,
+  'name' : string,
+  'createdAt' : Time,
+  'agents' : Array<Principal>,
+  'enabled' : boolean,
+  'updatedAt' : Time,
+  'sources' : Array<Source>,
+  'priority' : bigint,
+  'location' : string,
+}
 export type Role = { 'admin' : null } |
   { 'agent' : null } |
   { 'juniorAgent' : null } |
@@ -213,6 +346,17 @@ export interface SearchCriteria {
   'minPrice' : [] | [bigint],
   'furnishing' : [] | [Furnishing],
 }
+export interface SiteVisit {
+  'id' : string,
+  'agent' : Principal,
+  'bookedBy' : Principal,
+  'startsAt' : Time,
+  'createdAt' : Time,
+  'propertyId' : string,
+  'outcome' : [] | [VisitOutcome],
+  'endsAt' : Time,
+  'inquiryId' : string,
+}
 export type Source = { 'referral' : null } |
   { 'website' : null } |
   { 'walkIn' : null } |
@@ -226,11 +370,26 @@ export type Status__1 = { 'new' : null } |
   { 'closed' : null } |
   { 'followUp' : null } |
   { 'inProgress' : null };
+export type Strategy = { 'byArea' : null } |
+  { 'bySuburb' : null } |
+  { 'roundRobin' : null } |
+  { 'listingAgent' : null } |
+  { 'bySource' : null };
 export type Time = bigint;
 export interface UserProfile { 'contactInfo' : string, 'name' : string }
 export type UserRole = { 'admin' : null } |
   { 'user' : null } |
   { 'guest' : null };
+export type VisitOutcome = { 'done' : null } |
+  { 'noShow' : null };
+export interface Zone {
+  'id' : string,
+  'name' : string,
+  'createdAt' : Time,
+  'createdBy' : Principal,
+  'updatedAt' : Time,
+  'points' : Array<Coordinates>,
+}
 export interface _CaffeineStorageCreateCertificateResult {
   'method' : string,
   'blob_hash' : string,
@@ -260,10 +419,27 @@ export interface _SERVICE {
   '_caffeineStorageUpdateGatewayPrincipals' : ActorMethod<[], undefined>,
   '_initializeAccessControlWithSecret' : ActorMethod<[string], undefined>,
   'addAgent' : ActorMethod<[Principal, string, string, Role], undefined>,
+  'addAssignmentRule' : ActorMethod<
+    [string, Strategy, string, Array<Source>, Array<Principal>],
+    string
+  >,
+  'addCustomer' : ActorMethod<
+    [
+      string,
+      string,
+      string,
+      bigint,
+      bigint,
+      Array<string>,
+      Array<Configuration>,
+    ],
+    string
+  >,
   'addInquiry' : ActorMethod<
-    [string, string, string, Source, Principal, string],
+    [string, string, string, Source, [] | [Principal], string],
     string
   >,
+  'addInquiryActivity' : ActorMethod<[string, ActivityKind, string], undefined>,
   'addProperty' : ActorMethod<
     [
       string,
@@ -279,9 +455,26 @@ export interface _SERVICE {
     ],
     string
   >,
+  'addRequirement' : ActorMethod<
+    [string, Principal, AdvancedFilter, string],
+    string
+  >,
+  'addZone' : ActorMethod<[string, Array<Coordinates>], string>,
   'advancedFilterProperties' : ActorMethod<[AdvancedFilter], Array<Property>>,
+  'archiveProperty' : ActorMethod<[string], undefined>,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
+  'cancelSiteVisit' : ActorMethod<[string], undefined>,
+  'closeInquiry' : ActorMethod<[string, Outcome, bigint, string], undefined>,
   'deactivateAgent' : ActorMethod<[Principal], undefined>,
+  'deleteAssignmentRule' : ActorMethod<[string], undefined>,
+  'deleteCustomer' : ActorMethod<[string], undefined>,
+  'deleteInquiry' : ActorMethod<[string], undefined>,
+  'deleteMapPreset' : ActorMethod<[string], undefined>,
+  'deleteProperty' : ActorMethod<[string], undefined>,
+  'deleteRequirement' : ActorMethod<[string], undefined>,
+  'deleteZone' : ActorMethod<[string], undefined>,
+  'dismissRequirementAlert' : ActorMethod<[string], undefined>,
+  'exportDataSnapshot' : ActorMethod<[], DataSnapshot>,
   'filterPropertiesByCategoryAndConfig' : ActorMethod<
     [Category, Configuration],
     Array<Property>
@@ -294,8 +487,14 @@ export interface _SERVICE {
   'getAllAgents' : ActorMethod<[], Array<Profile>>,
   'getAllCities' : ActorMethod<[], Array<string>>,
   'getAllInquiries' : ActorMethod<[], Array<Inquiry>>,
+  'getAllPriceHistories' : ActorMethod<
+    [],
+    Array<[string, Array<PricePoint>]>
+  >,
   'getAllProperties' : ActorMethod<[], Array<Property>>,
+  'getArchivedProperties' : ActorMethod<[], Array<Property>>,
   'getAreasForSuburb' : ActorMethod<[string, string], Array<string>>,
+  'getAssignmentRules' : ActorMethod<[], Array<Rule>>,
   'getCallerUserProfile' : ActorMethod<[], [] | [UserProfile]>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
   'getCombinedAnalytics' : ActorMethod<[], CombinedAnalytics>,
@@ -303,10 +502,14 @@ export interface _SERVICE {
     [],
     Array<ConfigurationDistribution>
   >,
+  'getCustomers' : ActorMethod<[], Array<Customer>>,
   'getFurnishingDistribution' : ActorMethod<[], Array<FurnishingDistribution>>,
   'getInquiriesByAgent' : ActorMethod<[Principal], Array<Inquiry>>,
   'getInquiriesByProperty' : ActorMethod<[string], Array<Inquiry>>,
   'getInquiry' : ActorMethod<[string], Inquiry>,
+  'getMapPresets' : ActorMethod<[], Array<MapPreset>>,
+  'getPriceHistory' : ActorMethod<[string], Array<PricePoint>>,
+  'getPriceReductionBySuburb' : ActorMethod<[], Array<PriceReduction>>,
   'getPropertiesByCategory' : ActorMethod<[Category], Array<Property>>,
   'getPropertiesByCategoryAndType' : ActorMethod<
     [Category, PropertyType],
@@ -314,15 +517,74 @@ export interface _SERVICE {
   >,
   'getPropertiesByPropertyType' : ActorMethod<[PropertyType], Array<Property>>,
   'getProperty' : ActorMethod<[string], Property>,
+  'getPropertyHistory' : ActorMethod<[string], Array<PropertyChange>>,
+  'getPublicListings' : ActorMethod<[], Array<PublicListing>>,
+  'getRequirementAlerts' : ActorMethod<[], Array<MatchAlert>>,
+  'getRequirementMatches' : ActorMethod<[string], Array<Property>>,
+  'getRequirements' : ActorMethod<[], Array<Requirement>>,
+  'getSiteVisits' : ActorMethod<[], Array<SiteVisit>>,
   'getSuburbsForCity' : ActorMethod<[string], Array<string>>,
   'getUserProfile' : ActorMethod<[Principal], [] | [UserProfile]>,
+  'getZones' : ActorMethod<[], Array<Zone>>,
+  'isAppEmpty' : ActorMethod<[], boolean>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
+  'mergeInquiries' : ActorMethod<[Array<string>], string>,
+  'reorderAssignmentRules' : ActorMethod<[Array<string>], undefined>,
+  'rescheduleSiteVisit' : ActorMethod<
+    [string, Principal, Time, Time],
+    undefined
+  >,
+  'resetSelectedData' : ActorMethod<[ResetScope], undefined>,
   'resetToFreshDraft' : ActorMethod<[], undefined>,
+  'restoreDataSnapshot' : ActorMethod<[DataSnapshot], undefined>,
   'saveCallerUserProfile' : ActorMethod<[UserProfile], undefined>,
+  'saveMapPreset' : ActorMethod<[string, SearchCriteria, boolean], string>,
+  'scheduleSiteVisit' : ActorMethod<
+    [string, string, Principal, Time, Time],
+    string
+  >,
   'searchAndFilterProperties' : ActorMethod<[SearchCriteria], Array<Property>>,
+  'seedDemoData' : ActorMethod<[], undefined>,
+  'setMapPresetPinned' : ActorMethod<[string, boolean], undefined>,
+  'setSiteVisitOutcome' : ActorMethod<[string, VisitOutcome], undefined>,
+  'submitPublicInquiry' : ActorMethod<
+    [string, string, string, string],
+    string
+  >,
+  'unarchiveProperty' : ActorMethod<[string], undefined>,
   'updateAgent' : ActorMethod<[Principal, string, string, Role], undefined>,
+  'updateAssignmentRule' : ActorMethod<
+    [string, string, Strategy, string, Array<Source>, Array<Principal>, boolean],
+    undefined
+  >,
+  'updateCustomer' : ActorMethod<
+    [
+      string,
+      string,
+      string,
+      string,
+      bigint,
+      bigint,
+      Array<string>,
+      Array<Configuration>,
+    ],
+    undefined
+  >,
   'updateInquiry' : ActorMethod<
-    [string, string, string, Source, Status__1, Principal, string],
+    [
+      string,
+      string,
+      string,
+      Source,
+      Status__1,
+      Principal,
+      [] | [Time],
+      string,
+    ],
+    undefined
+  >,
+  'updateMapPreset' : ActorMethod<
+    [string, string, SearchCriteria, boolean],
     undefined
   >,
   'updateProperty' : ActorMethod<
@@ -342,6 +604,11 @@ export interface _SERVICE {
     ],
     undefined
   >,
+  'updateRequirement' : ActorMethod<
+    [string, Principal, AdvancedFilter, string, boolean],
+    undefined
+  >,
+  'updateZone' : ActorMethod<[string, string, Array<Coordinates>], undefined>,
 }
 export declare const idlService: IDL.ServiceClass;
 export declare const idlInitArgs: IDL.Type[];
@@ -25,6 +25,13 @@ export const Role = IDL.Variant({
   'juniorAgent' : IDL.Null,
   'assistant' : IDL.Null,
 });
+export const Strategy = IDL.Variant({
+  'byArea' : IDL.Null,
+  'bySuburb' : IDL.Null,
+  'roundRobin' : IDL.Null,
+  'listingAgent' : IDL.Null,
+  'bySource' : IDL.Null,
+});
 export const Source = IDL.Variant({
   'referral' : IDL.Null,
   'website' : IDL.Null,
@@ -111,6 +118,20 @@ export const Property = IDL.Record({
   'price' : IDL.Nat,
   'furnishing' : Furnishing,
   'location' : Location,
+  'archived' : IDL.Bool,
+  'coordinates' : Coordinates,
+  'images' : IDL.Vec(ExternalBlob),
+});
+export const PublicListing = IDL.Record({
+  'id' : IDL.Text,
+  'title' : IDL.Text,
+  'propertyType' : PropertyType,
+  'description' : IDL.Text,
+  'category' : Category,
+  'configuration' : Configuration,
+  'price' : IDL.Nat,
+  'furnishing' : Furnishing,
+  'location' : Location,
   'coordinates' : Coordinates,
   'images' : IDL.Vec(ExternalBlob),
 });
@@ -134,6 +155,25 @@ export const Status__1 = IDL.Variant({
   'followUp' : IDL.Null,
   'inProgress' : IDL.Null,
 });
+export const ActivityKind = IDL.Variant({
+  'siteVisit' : IDL.Null,
+  'call' : IDL.Null,
+  'note' : IDL.Null,
+  'message' : IDL.Null,
+});
+export const Activity = IDL.Record({
+  'kind' : ActivityKind,
+  'createdAt' : Time,
+  'text' : IDL.Text,
+  'author' : IDL.Principal,
+});
+export const Outcome = IDL.Variant({ 'won' : IDL.Null, 'lost' : IDL.Null });
+export const Closure = IDL.Record({
+  'finalPrice' : IDL.Nat,
+  'lostReason' : IDL.Text,
+  'closedAt' : Time,
+  'outcome' : Outcome,
+});
 export const Inquiry = IDL.Record({
   'id' : IDL.Text,
   'customerName' : IDL.Text,
@@ -143,8 +183,24 @@ export const Inquiry = IDL.Record({
   'assignedAgent' : IDL.Principal,
   'createdAt' : Time,
   'propertyId' : IDL.Text,
+  'closure' : IDL.Opt(Closure),
+  'updatedAt' : Time,
+  'customerId' : IDL.Text,
+  'followUpAt' : IDL.Opt(Time),
+  'activity' : IDL.Vec(Activity),
+  'followUpNote' : IDL.Text,
+});
+export const Customer = IDL.Record({
+  'id' : IDL.Text,
+  'preferredConfigurations' : IDL.Vec(Configuration),
+  'name' : IDL.Text,
+  'createdAt' : Time,
+  'email' : IDL.Text,
   'updatedAt' : Time,
-  'notes' : IDL.Text,
+  'preferredSuburbs' : IDL.Vec(IDL.Text),
+  'phone' : IDL.Text,
+  'budgetMax' : IDL.Nat,
+  'budgetMin' : IDL.Nat,
 });
 export const UserProfile = IDL.Record({
   'contactInfo' : IDL.Text,
@@ -260,6 +316,76 @@ export const CombinedAnalytics = IDL.Record({
   'propertyTypeDistribution' : IDL.Vec(PropertyTypeDistribution),
   'regionalDistribution' : IDL.Vec(RegionalDistribution),
 });
+export const FieldChange = IDL.Record({
+  'field' : IDL.Text,
+  'oldValue' : IDL.Text,
+  'newValue' : IDL.Text,
+});
+export const PropertyChange = IDL.Record({
+  'changedAt' : Time,
+  'changedBy' : IDL.Principal,
+  'changes' : IDL.Vec(FieldChange),
+});
+export const PricePoint = IDL.Record({
+  'changedAt' : Time,
+  'changedBy' : IDL.Principal,
+  'price' : IDL.Nat,
+});
+export const PriceReduction = IDL.Record({
+  'region' : IDL.Text,
+  'reducedCount' : IDL.Nat,
+  'averageDaysToReduction' : IDL.Opt(IDL.Float64),
+  'averageReductionPercent' : IDL.Opt(IDL.Float64),
+  'regionType' : RegionType,
+  'listingCount' : IDL.Nat,
+});
+export const Rule = IDL.Record({
+  'id' : IDL.Text,
+  'strategy' : Strategy,
+  'name' : IDL.Text,
+  'createdAt' : Time,
+  'agents' : IDL.Vec(IDL.Principal),
+  'enabled' : IDL.Bool,
+  'updatedAt' : Time,
+  'sources' : IDL.Vec(Source),
+  'priority' : IDL.Nat,
+  'location' : IDL.Text,
+});
+export const MatchAlert = IDL.Record({
+  'id' : IDL.Text,
+  'agent' : IDL.Principal,
+  'requirementId' : IDL.Text,
+  'createdAt' : Time,
+  'propertyId' : IDL.Text,
+});
+export const Requirement = IDL.Record({
+  'id' : IDL.Text,
+  'agent' : IDL.Principal,
+  'note' : IDL.Text,
+  'open' : IDL.Bool,
+  'createdAt' : Time,
+  'updatedAt' : Time,
+  'filter' : AdvancedFilter,
+  'customerId' : IDL.Text,
+});
+export const VisitOutcome = IDL.Variant({ 'done' : IDL.Null, 'noShow' : IDL.Null });
+export const SiteVisit = IDL.Record({
+  'id' : IDL.Text,
+  'agent' : IDL.Principal,
+  'bookedBy' : IDL.Principal,
+  'startsAt' : Time,
+  'createdAt' : Time,
+  'propertyId' : IDL.Text,
+  'outcome' : IDL.Opt(VisitOutcome),
+  'endsAt' : Time,
+  'inquiryId' : IDL.Text,
+});
+export const ResetScope = IDL.Record({
+  'agents' : IDL.Bool,
+  'properties' : IDL.Bool,
+  'userProfiles' : IDL.Bool,
+  'inquiries' : IDL.Bool,
+});
 export const SearchCriteria = IDL.Record({
   'lat' : IDL.Opt(IDL.Float64),
   'lng' : IDL.Opt(IDL.Float64),
@@ -276,6 +402,41 @@ export const SearchCriteria = IDL.Record({
   'minPrice' : IDL.Opt(IDL.Nat),
   'furnishing' : IDL.Opt(Furnishing),
 });
+export const MapPreset = IDL.Record({
+  'id' : IDL.Text,
+  'filters' : SearchCriteria,
+  'owner' : IDL.Principal,
+  'name' : IDL.Text,
+  'createdAt' : Time,
+  'sharedWithTeam' : IDL.Bool,
+  'updatedAt' : Time,
+  'pinnedBy' : IDL.Vec(IDL.Principal),
+});
+export const Zone = IDL.Record({
+  'id' : IDL.Text,
+  'name' : IDL.Text,
+  'createdAt' : Time,
+  'createdBy' : IDL.Principal,
+  'updatedAt' : Time,
+  'points' : IDL.Vec(Coordinates),
+});
+export const DataSnapshot = IDL.Record({
+  'assignmentCursors' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat)),
+  'propertyHistory' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Vec(PropertyChange))),
+  'createdAt' : Time,
+  'requirementAlerts' : IDL.Vec(MatchAlert),
+  'agents' : IDL.Vec(Profile),
+  'priceHistory' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Vec(PricePoint))),
+  'siteVisits' : IDL.Vec(SiteVisit),
+  'properties' : IDL.Vec(Property),
+  'userProfiles' : IDL.Vec(IDL.Tuple(IDL.Principal, UserProfile)),
+  'zones' : IDL.Vec(Zone),
+  'requirements' : IDL.Vec(Requirement),
+  'assignmentRules' : IDL.Vec(Rule),
+  'mapPresets' : IDL.Vec(MapPreset),
+  'customers' : IDL.Vec(Customer),
+  'inquiries' : IDL.Vec(Inquiry),
+});
 
 export const idlService = IDL.Service({
   '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -306,11 +467,30 @@ export const idlService = IDL.Service({
   '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
   '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
   'addAgent' : IDL.Func([IDL.Principal, IDL.Text, IDL.Text, Role], [], []),
+  'addAssignmentRule' : IDL.Func(
+      [IDL.Text, Strategy, IDL.Text, IDL.Vec(Source), IDL.Vec(IDL.Principal)],
+      [IDL.Text],
+      [],
+    ),
+  'addCustomer' : IDL.Func(
+      [
+        IDL.Text,
+        IDL.Text,
+        IDL.Text,
+        IDL.Nat,
+        IDL.Nat,
+        IDL.Vec(IDL.Text),
+        IDL.Vec(Configuration),
+      ],
+      [IDL.Text],
+      [],
+    ),
   'addInquiry' : IDL.Func(
-      [IDL.Text, IDL.Text, IDL.Text, Source, IDL.Principal, IDL.Text],
+      [IDL.Text, IDL.Text, IDL.Text, Source, IDL.Opt(IDL.Principal), IDL.Text],
       [IDL.Text],
       [],
     ),
+  'addInquiryActivity' : IDL.Func([IDL.Text, ActivityKind, IDL.Text], [], []),
   'addProperty' : IDL.Func(
       [
         IDL.Text,
@@ -327,13 +507,31 @@ export const idlService = IDL.Service({
       [IDL.Text],
       [],
     ),
+  'addRequirement' : IDL.Func(
+      [IDL.Text, IDL.Principal, AdvancedFilter, IDL.Text],
+      [IDL.Text],
+      [],
+    ),
+  'addZone' : IDL.Func([IDL.Text, IDL.Vec(Coordinates)], [IDL.Text], []),
   'advancedFilterProperties' : IDL.Func(
       [AdvancedFilter],
       [IDL.Vec(Property)],
       ['query'],
     ),
+  'archiveProperty' : IDL.Func([IDL.Text], [], []),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
+  'cancelSiteVisit' : IDL.Func([IDL.Text], [], []),
+  'closeInquiry' : IDL.Func([IDL.Text, Outcome, IDL.Nat, IDL.Text], [], []),
   'deactivateAgent' : IDL.Func([IDL.Principal], [], []),
+  'deleteAssignmentRule' : IDL.Func([IDL.Text], [], []),
+  'deleteCustomer' : IDL.Func([IDL.Text], [], []),
+  'deleteInquiry' : IDL.Func([IDL.Text], [], []),
+  'deleteMapPreset' : IDL.Func([IDL.Text], [], []),
+  'deleteProperty' : IDL.Func([IDL.Text], [], []),
+  'deleteRequirement' : IDL.Func([IDL.Text], [], []),
+  'deleteZone' : IDL.Func([IDL.Text], [], []),
+  'dismissRequirementAlert' : IDL.Func([IDL.Text], [], []),
+  'exportDataSnapshot' : IDL.Func([], [DataSnapshot], ['query']),
   'filterPropertiesByCategoryAndConfig' : IDL.Func(
       [Category, Configuration],
       [IDL.Vec(Property)],
@@ -348,12 +546,19 @@ export const idlService = IDL.Service({
   'getAllAgents' : IDL.Func([], [IDL.Vec(Profile)], ['query']),
   'getAllCities' : IDL.Func([], [IDL.Vec(IDL.Text)], ['query']),
   'getAllInquiries' : IDL.Func([], [IDL.Vec(Inquiry)], ['query']),
+  'getAllPriceHistories' : IDL.Func(
+      [],
+      [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Vec(PricePoint)))],
+      ['query'],
+    ),
   'getAllProperties' : IDL.Func([], [IDL.Vec(Property)], ['query']),
+  'getArchivedProperties' : IDL.Func([], [IDL.Vec(Property)], ['query']),
   'getAreasForSuburb' : IDL.Func(
       [IDL.Text, IDL.Text],
       [IDL.Vec(IDL.Text)],
       ['query'],
     ),
+  'getAssignmentRules' : IDL.Func([], [IDL.Vec(Rule)], ['query']),
   'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
   'getCombinedAnalytics' : IDL.Func([], [CombinedAnalytics], ['query']),
@@ -362,6 +567,7 @@ export const idlService = IDL.Service({
       [IDL.Vec(ConfigurationDistribution)],
       ['query'],
     ),
+  'getCustomers' : IDL.Func([], [IDL.Vec(Customer)], ['query']),
   'getFurnishingDistribution' : IDL.Func(
       [],
       [IDL.Vec(FurnishingDistribution)],
@@ -378,6 +584,13 @@ export const idlService = IDL.Service({
       ['query'],
     ),
   'getInquiry' : IDL.Func([IDL.Text], [Inquiry], ['query']),
+  'getMapPresets' : IDL.Func([], [IDL.Vec(MapPreset)], ['query']),
+  'getPriceHistory' : IDL.Func([IDL.Text], [IDL.Vec(PricePoint)], ['query']),
+  'getPriceReductionBySuburb' : IDL.Func(
+      [],
+      [IDL.Vec(PriceReduction)],
+      ['query'],
+    ),
   'getPropertiesByCategory' : IDL.Func(
       [Category],
       [IDL.Vec(Property)],
@@ -394,21 +607,92 @@ export const idlService = IDL.Service({
       ['query'],
     ),
   'getProperty' : IDL.Func([IDL.Text], [Property], ['query']),
+  'getPropertyHistory' : IDL.Func(
+      [IDL.Text],
+      [IDL.Vec(PropertyChange)],
+      ['query'],
+    ),
+  'getPublicListings' : IDL.Func([], [IDL.Vec(PublicListing)], ['query']),
+  'getRequirementAlerts' : IDL.Func([], [IDL.Vec(MatchAlert)], ['query']),
+  'getRequirementMatches' : IDL.Func(
+      [IDL.Text],
+      [IDL.Vec(Property)],
+      ['query'],
+    ),
+  'getRequirements' : IDL.Func([], [IDL.Vec(Requirement)], ['query']),
+  'getSiteVisits' : IDL.Func([], [IDL.Vec(SiteVisit)], ['query']),
   'getSuburbsForCity' : IDL.Func([IDL.Text], [IDL.Vec(IDL.Text)], ['query']),
   'getUserProfile' : IDL.Func(
       [IDL.Principal],
       [IDL.Opt(UserProfile)],
       ['query'],
     ),
+  'getZones' : IDL.Func([], [IDL.Vec(Zone)], ['query']),
+  'isAppEmpty' : IDL.Func([], [IDL.Bool], ['query']),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+  'mergeInquiries' : IDL.Func([IDL.Vec(IDL.Text)], [IDL.Text], []),
+  'reorderAssignmentRules' : IDL.Func([IDL.Vec(IDL.Text)], [], []),
+  'rescheduleSiteVisit' : IDL.Func(
+      [IDL.Text, IDL.Principal, Time, Time],
+      [],
+      [],
+    ),
+  'resetSelectedData' : IDL.Func([ResetScope], [], []),
   'resetToFreshDraft' : IDL.Func([], [], []),
+  'restoreDataSnapshot' : IDL.Func([DataSnapshot], [], []),
   'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+  'saveMapPreset' : IDL.Func(
+      [IDL.Text, SearchCriteria, IDL.Bool],
+      [IDL.Text],
+      [],
+    ),
+  'scheduleSiteVisit' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Principal, Time, Time],
+      [IDL.Text],
+      [],
+    ),
   'searchAndFilterProperties' : IDL.Func(
       [SearchCriteria],
       [IDL.Vec(Property)],
       ['query'],
     ),
+  'seedDemoData' : IDL.Func([], [], []),
+  'setMapPresetPinned' : IDL.Func([IDL.Text, IDL.Bool], [], []),
+  'setSiteVisitOutcome' : IDL.Func([IDL.Text, VisitOutcome], [], []),
+  'submitPublicInquiry' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Text, IDL.Text],
+      [IDL.Text],
+      [],
+    ),
+  'unarchiveProperty' : IDL.Func([IDL.Text], [], []),
   'updateAgent' : IDL.Func([IDL.Principal, IDL.Text, IDL.Text, Role], [], []),
+  'updateAssignmentRule' : IDL.Func(
+      [
+        IDL.Text,
+        IDL.Text,
+        Strategy,
+        IDL.Text,
+        IDL.Vec(Source),
+        IDL.Vec(IDL.Principal),
+        IDL.Bool,
+      ],
+      [],
+      [],
+    ),
+  'updateCustomer' : IDL.Func(
+      [
+        IDL.Text,
+        IDL.Text,
+        IDL.Text,
+        IDL.Text,
+        IDL.Nat,
+        IDL.Nat,
+        IDL.Vec(IDL.Text),
+        IDL.Vec(Configuration),
+      ],
+      [],
+      [],
+    ),
   'updateInquiry' : IDL.Func(
       [
         IDL.Text,
@@ -417,11 +701,17 @@ export const idlService = IDL.Service({
         Source,
         Status__1,
         IDL.Principal,
+        IDL.Opt(Time),
         IDL.Text,
       ],
       [],
       [],
     ),
+  'updateMapPreset' : IDL.Func(
+      [IDL.Text, IDL.Text, SearchCriteria, IDL.Bool],
+      [],
+      [],
+    ),
   'updateProperty' : IDL.Func(
       [
         IDL.Text,
@@ -440,6 +730,16 @@ export const idlService = IDL.Service({
       [],
       [],
     ),
+  'updateRequirement' : IDL.Func(
+      [IDL.Text, IDL.Principal, AdvancedFilter, IDL.Text, IDL.Bool],
+      [],
+      [],
+    ),
+  'updateZone' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Vec(Coordinates)],
+      [],
+      [],
+    ),
 });
 
 export const idlInitArgs = [];
@@ -462,6 +762,13 @@ export const idlFactory = ({ IDL }) => {
     'juniorAgent' : IDL.Null,
     'assistant' : IDL.Null,
   });
+  const Strategy = IDL.Variant({
+    'byArea' : IDL.Null,
+    'bySuburb' : IDL.Null,
+    'roundRobin' : IDL.Null,
+    'listingAgent' : IDL.Null,
+    'bySource' : IDL.Null,
+  });
   const Source = IDL.Variant({
     'referral' : IDL.Null,
     'website' : IDL.Null,
@@ -545,6 +852,20 @@ export const idlFactory = ({ IDL }) => {
     'price' : IDL.Nat,
     'furnishing' : Furnishing,
     'location' : Location,
+    'archived' : IDL.Bool,
+    'coordinates' : Coordinates,
+    'images' : IDL.Vec(ExternalBlob),
+  });
+  const PublicListing = IDL.Record({
+    'id' : IDL.Text,
+    'title' : IDL.Text,
+    'propertyType' : PropertyType,
+    'description' : IDL.Text,
+    'category' : Category,
+    'configuration' : Configuration,
+    'price' : IDL.Nat,
+    'furnishing' : Furnishing,
+    'location' : Location,
     'coordinates' : Coordinates,
     'images' : IDL.Vec(ExternalBlob),
   });
@@ -568,6 +889,25 @@ export const idlFactory = ({ IDL }) => {
     'followUp' : IDL.Null,
     'inProgress' : IDL.Null,
   });
+  const ActivityKind = IDL.Variant({
+    'siteVisit' : IDL.Null,
+    'call' : IDL.Null,
+    'note' : IDL.Null,
+    'message' : IDL.Null,
+  });
+  const Activity = IDL.Record({
+    'kind' : ActivityKind,
+    'createdAt' : Time,
+    'text' : IDL.Text,
+    'author' : IDL.Principal,
+  });
+  const Outcome = IDL.Variant({ 'won' : IDL.Null, 'lost' : IDL.Null });
+  const Closure = IDL.Record({
+    'finalPrice' : IDL.Nat,
+    'lostReason' : IDL.Text,
+    'closedAt' : Time,
+    'outcome' : Outcome,
+  });
   const Inquiry = IDL.Record({
     'id' : IDL.Text,
     'customerName' : IDL.Text,
@@ -577,8 +917,24 @@ export const idlFactory = ({ IDL }) => {
     'assignedAgent' : IDL.Principal,
     'createdAt' : Time,
     'propertyId' : IDL.Text,
+    'closure' : IDL.Opt(Closure),
+    'updatedAt' : Time,
+    'customerId' : IDL.Text,
+    'followUpAt' : IDL.Opt(Time),
+    'activity' : IDL.Vec(Activity),
+    'followUpNote' : IDL.Text,
+  });
+  const Customer = IDL.Record({
+    'id' : IDL.Text,
+    'preferredConfigurations' : IDL.Vec(Configuration),
+    'name' : IDL.Text,
+    'createdAt' : Time,
+    'email' : IDL.Text,
     'updatedAt' : Time,
-    'notes' : IDL.Text,
+    'preferredSuburbs' : IDL.Vec(IDL.Text),
+    'phone' : IDL.Text,
+    'budgetMax' : IDL.Nat,
+    'budgetMin' : IDL.Nat,
   });
   const UserProfile = IDL.Record({
     'contactInfo' : IDL.Text,
@@ -694,6 +1050,76 @@ export const idlFactory = ({ IDL }) => {
     'propertyTypeDistribution' : IDL.Vec(PropertyTypeDistribution),
     'regionalDistribution' : IDL.Vec(RegionalDistribution),
   });
+  const FieldChange = IDL.Record({
+    'field' : IDL.Text,
+    'oldValue' : IDL.Text,
+    'newValue' : IDL.Text,
+  });
+  const PropertyChange = IDL.Record({
+    'changedAt' : Time,
+    'changedBy' : IDL.Principal,
+    'changes' : IDL.Vec(FieldChange),
+  });
+  const PricePoint = IDL.Record({
+    'changedAt' : Time,
+    'changedBy' : IDL.Principal,
+    'price' : IDL.Nat,
+  });
+  const PriceReduction = IDL.Record({
+    'region' : IDL.Text,
+    'reducedCount' : IDL.Nat,
+    'averageDaysToReduction' : IDL.Opt(IDL.Float64),
+    'averageReductionPercent' : IDL.Opt(IDL.Float64),
+    'regionType' : RegionType,
+    'listingCount' : IDL.Nat,
+  });
+  const Rule = IDL.Record({
+    'id' : IDL.Text,
+    'strategy' : Strategy,
+    'name' : IDL.Text,
+    'createdAt' : Time,
+    'agents' : IDL.Vec(IDL.Principal),
+    'enabled' : IDL.Bool,
+    'updatedAt' : Time,
+    'sources' : IDL.Vec(Source),
+    'priority' : IDL.Nat,
+    'location' : IDL.Text,
+  });
+  const MatchAlert = IDL.Record({
+    'id' : IDL.Text,
+    'agent' : IDL.Principal,
+    'requirementId' : IDL.Text,
+    'createdAt' : Time,
+    'propertyId' : IDL.Text,
+  });
+  const Requirement = IDL.Record({
+    'id' : IDL.Text,
+    'agent' : IDL.Principal,
+    'note' : IDL.Text,
+    'open' : IDL.Bool,
+    'createdAt' : Time,
+    'updatedAt' : Time,
+    'filter' : AdvancedFilter,
+    'customerId' : IDL.Text,
+  });
+  const VisitOutcome = IDL.Variant({ 'done' : IDL.Null, 'noShow' : IDL.Null });
+  const SiteVisit = IDL.Record({
+    'id' : IDL.Text,
+    'agent' : IDL.Principal,
+    'bookedBy' : IDL.Principal,
+    'startsAt' : Time,
+    'createdAt' : Time,
+    'propertyId' : IDL.Text,
+    'outcome' : IDL.Opt(VisitOutcome),
+    'endsAt' : Time,
+    'inquiryId' : IDL.Text,
+  });
+  const ResetScope = IDL.Record({
+    'agents' : IDL.Bool,
+    'properties' : IDL.Bool,
+    'userProfiles' : IDL.Bool,
+    'inquiries' : IDL.Bool,
+  });
   const SearchCriteria = IDL.Record({
     'lat' : IDL.Opt(IDL.Float64),
     'lng' : IDL.Opt(IDL.Float64),
@@ -710,6 +1136,41 @@ export const idlFactory = ({ IDL }) => {
     'minPrice' : IDL.Opt(IDL.Nat),
     'furnishing' : IDL.Opt(Furnishing),
   });
+  const MapPreset = IDL.Record({
+    'id' : IDL.Text,
+    'filters' : SearchCriteria,
+    'owner' : IDL.Principal,
+    'name' : IDL.Text,
+    'createdAt' : Time,
+    'sharedWithTeam' : IDL.Bool,
+    'updatedAt' : Time,
+    'pinnedBy' : IDL.Vec(IDL.Principal),
+  });
+  const Zone = IDL.Record({
+    'id' : IDL.Text,
+    'name' : IDL.Text,
+    'createdAt' : Time,
+    'createdBy' : IDL.Principal,
+    'updatedAt' : Time,
+    'points' : IDL.Vec(Coordinates),
+  });
+  const DataSnapshot = IDL.Record({
+    'assignmentCursors' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat)),
+    'propertyHistory' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Vec(PropertyChange))),
+    'createdAt' : Time,
+    'requirementAlerts' : IDL.Vec(MatchAlert),
+    'agents' : IDL.Vec(Profile),
+    'priceHistory' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Vec(PricePoint))),
+    'siteVisits' : IDL.Vec(SiteVisit),
+    'properties' : IDL.Vec(Property),
+    'userProfiles' : IDL.Vec(IDL.Tuple(IDL.Principal, UserProfile)),
+    'zones' : IDL.Vec(Zone),
+    'requirements' : IDL.Vec(Requirement),
+    'assignmentRules' : IDL.Vec(Rule),
+    'mapPresets' : IDL.Vec(MapPreset),
+    'customers' : IDL.Vec(Customer),
+    'inquiries' : IDL.Vec(Inquiry),
+  });
   
   return IDL.Service({
     '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -740,11 +1201,30 @@ export const idlFactory = ({ IDL }) => {
     '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
     '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
     'addAgent' : IDL.Func([IDL.Principal, IDL.Text, IDL.Text, Role], [], []),
+    'addAssignmentRule' : IDL.Func(
+        [IDL.Text, Strategy, IDL.Text, IDL.Vec(Source), IDL.Vec(IDL.Principal)],
+        [IDL.Text],
+        [],
+      ),
+    'addCustomer' : IDL.Func(
+        [
+          IDL.Text,
+          IDL.Text,
+          IDL.Text,
+          IDL.Nat,
+          IDL.Nat,
+          IDL.Vec(IDL.Text),
+          IDL.Vec(Configuration),
+        ],
+        [IDL.Text],
+        [],
+      ),
     'addInquiry' : IDL.Func(
-        [IDL.Text, IDL.Text, IDL.Text, Source, IDL.Principal, IDL.Text],
+        [IDL.Text, IDL.Text, IDL.Text, Source, IDL.Opt(IDL.Principal), IDL.Text],
         [IDL.Text],
         [],
       ),
+    'addInquiryActivity' : IDL.Func([IDL.Text, ActivityKind, IDL.Text], [], []),
     'addProperty' : IDL.Func(
         [
           IDL.Text,
@@ -761,13 +1241,31 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Text],
         [],
       ),
+    'addRequirement' : IDL.Func(
+        [IDL.Text, IDL.Principal, AdvancedFilter, IDL.Text],
+        [IDL.Text],
+        [],
+      ),
+    'addZone' : IDL.Func([IDL.Text, IDL.Vec(Coordinates)], [IDL.Text], []),
     'advancedFilterProperties' : IDL.Func(
         [AdvancedFilter],
         [IDL.Vec(Property)],
         ['query'],
       ),
+    'archiveProperty' : IDL.Func([IDL.Text], [], []),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
+    'cancelSiteVisit' : IDL.Func([IDL.Text], [], []),
+    'closeInquiry' : IDL.Func([IDL.Text, Outcome, IDL.Nat, IDL.Text], [], []),
     'deactivateAgent' : IDL.Func([IDL.Principal], [], []),
+    'deleteAssignmentRule' : IDL.Func([IDL.Text], [], []),
+    'deleteCustomer' : IDL.Func([IDL.Text], [], []),
+    'deleteInquiry' : IDL.Func([IDL.Text], [], []),
+    'deleteMapPreset' : IDL.Func([IDL.Text], [], []),
+    'deleteProperty' : IDL.Func([IDL.Text], [], []),
+    'deleteRequirement' : IDL.Func([IDL.Text], [], []),
+    'deleteZone' : IDL.Func([IDL.Text], [], []),
+    'dismissRequirementAlert' : IDL.Func([IDL.Text], [], []),
+    'exportDataSnapshot' : IDL.Func([], [DataSnapshot], ['query']),
     'filterPropertiesByCategoryAndConfig' : IDL.Func(
         [Category, Configuration],
         [IDL.Vec(Property)],
@@ -782,12 +1280,19 @@ export const idlFactory = ({ IDL }) => {
     'getAllAgents' : IDL.Func([], [IDL.Vec(Profile)], ['query']),
     'getAllCities' : IDL.Func([], [IDL.Vec(IDL.Text)], ['query']),
     'getAllInquiries' : IDL.Func([], [IDL.Vec(Inquiry)], ['query']),
+    'getAllPriceHistories' : IDL.Func(
+        [],
+        [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Vec(PricePoint)))],
+        ['query'],
+      ),
     'getAllProperties' : IDL.Func([], [IDL.Vec(Property)], ['query']),
+    'getArchivedProperties' : IDL.Func([], [IDL.Vec(Property)], ['query']),
     'getAreasForSuburb' : IDL.Func(
         [IDL.Text, IDL.Text],
         [IDL.Vec(IDL.Text)],
         ['query'],
       ),
+    'getAssignmentRules' : IDL.Func([], [IDL.Vec(Rule)], ['query']),
     'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
     'getCombinedAnalytics' : IDL.Func([], [CombinedAnalytics], ['query']),
@@ -796,6 +1301,7 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Vec(ConfigurationDistribution)],
         ['query'],
       ),
+    'getCustomers' : IDL.Func([], [IDL.Vec(Customer)], ['query']),
     'getFurnishingDistribution' : IDL.Func(
         [],
         [IDL.Vec(FurnishingDistribution)],
@@ -812,6 +1318,13 @@ export const idlFactory = ({ IDL }) => {
         ['query'],
       ),
     'getInquiry' : IDL.Func([IDL.Text], [Inquiry], ['query']),
+    'getMapPresets' : IDL.Func([], [IDL.Vec(MapPreset)], ['query']),
+    'getPriceHistory' : IDL.Func([IDL.Text], [IDL.Vec(PricePoint)], ['query']),
+    'getPriceReductionBySuburb' : IDL.Func(
+        [],
+        [IDL.Vec(PriceReduction)],
+        ['query'],
+      ),
     'getPropertiesByCategory' : IDL.Func(
         [Category],
         [IDL.Vec(Property)],
@@ -828,21 +1341,92 @@ export const idlFactory = ({ IDL }) => {
         ['query'],
       ),
     'getProperty' : IDL.Func([IDL.Text], [Property], ['query']),
+    'getPropertyHistory' : IDL.Func(
+        [IDL.Text],
+        [IDL.Vec(PropertyChange)],
+        ['query'],
+      ),
+    'getPublicListings' : IDL.Func([], [IDL.Vec(PublicListing)], ['query']),
+    'getRequirementAlerts' : IDL.Func([], [IDL.Vec(MatchAlert)], ['query']),
+    'getRequirementMatches' : IDL.Func(
+        [IDL.Text],
+        [IDL.Vec(Property)],
+        ['query'],
+      ),
+    'getRequirements' : IDL.Func([], [IDL.Vec(Requirement)], ['query']),
+    'getSiteVisits' : IDL.Func([], [IDL.Vec(SiteVisit)], ['query']),
     'getSuburbsForCity' : IDL.Func([IDL.Text], [IDL.Vec(IDL.Text)], ['query']),
     'getUserProfile' : IDL.Func(
         [IDL.Principal],
         [IDL.Opt(UserProfile)],
         ['query'],
       ),
+    'getZones' : IDL.Func([], [IDL.Vec(Zone)], ['query']),
+    'isAppEmpty' : IDL.Func([], [IDL.Bool], ['query']),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+    'mergeInquiries' : IDL.Func([IDL.Vec(IDL.Text)], [IDL.Text], []),
+    'reorderAssignmentRules' : IDL.Func([IDL.Vec(IDL.Text)], [], []),
+    'rescheduleSiteVisit' : IDL.Func(
+        [IDL.Text, IDL.Principal, Time, Time],
+        [],
+        [],
+      ),
+    'resetSelectedData' : IDL.Func([ResetScope], [], []),
     'resetToFreshDraft' : IDL.Func([], [], []),
+    'restoreDataSnapshot' : IDL.Func([DataSnapshot], [], []),
     'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+    'saveMapPreset' : IDL.Func(
+        [IDL.Text, SearchCriteria, IDL.Bool],
+        [IDL.Text],
+        [],
+      ),
+    'scheduleSiteVisit' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Principal, Time, Time],
+        [IDL.Text],
+        [],
+      ),
     'searchAndFilterProperties' : IDL.Func(
         [SearchCriteria],
         [IDL.Vec(Property)],
         ['query'],
       ),
+    'seedDemoData' : IDL.Func([], [], []),
+    'setMapPresetPinned' : IDL.Func([IDL.Text, IDL.Bool], [], []),
+    'setSiteVisitOutcome' : IDL.Func([IDL.Text, VisitOutcome], [], []),
+    'submitPublicInquiry' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Text, IDL.Text],
+        [IDL.Text],
+        [],
+      ),
+    'unarchiveProperty' : IDL.Func([IDL.Text], [], []),
     'updateAgent' : IDL.Func([IDL.Principal, IDL.Text, IDL.Text, Role], [], []),
+    'updateAssignmentRule' : IDL.Func(
+        [
+          IDL.Text,
+          IDL.Text,
+          Strategy,
+          IDL.Text,
+          IDL.Vec(Source),
+          IDL.Vec(IDL.Principal),
+          IDL.Bool,
+        ],
+        [],
+        [],
+      ),
+    'updateCustomer' : IDL.Func(
+        [
+          IDL.Text,
+          IDL.Text,
+          IDL.Text,
+          IDL.Text,
+          IDL.Nat,
+          IDL.Nat,
+          IDL.Vec(IDL.Text),
+          IDL.Vec(Configuration),
+        ],
+        [],
+        [],
+      ),
     'updateInquiry' : IDL.Func(
         [
           IDL.Text,
@@ -851,11 +1435,17 @@ export const idlFactory = ({ IDL }) => {
           Source,
           Status__1,
           IDL.Principal,
+          IDL.Opt(Time),
           IDL.Text,
         ],
         [],
         [],
       ),
+    'updateMapPreset' : IDL.Func(
+        [IDL.Text, IDL.Text, SearchCriteria, IDL.Bool],
+        [],
+        [],
+      ),
     'updateProperty' : IDL.Func(
         [
           IDL.Text,
@@ -874,6 +1464,16 @@ export const idlFactory = ({ IDL }) => {
         [],
         [],
       ),
+    'updateRequirement' : IDL.Func(
+        [IDL.Text, IDL.Principal, AdvancedFilter, IDL.Text, IDL.Bool],
+        [],
+        [],
+      ),
+    'updateZone' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Vec(Coordinates)],
+        [],
+        [],
+      ),
   });
 };
 
@@ -1,8 +1,12 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useActor } from './useActor';
-import type { UserProfile, Profile, Property, Inquiry, Category, PropertyType, Configuration, Furnishing, Role, Source, Status, Status__1, Location, UserRole, Coordinates, SearchCriteria, CombinedAnalytics, ExternalBlob } from '../backend';
+import type { UserProfile, Profile, Property, PublicListing, PropertyChange, PricePoint, PriceReduction, Inquiry, ActivityKind, Outcome, Customer, Requirement, MatchAlert, MapPreset, Zone, AdvancedFilter, SiteVisit, VisitOutcome, Time, Category, PropertyType, Configuration, Furnishing, Role, Rule, Source, Status, Status__1, Strategy, Location, UserRole, Coordinates, SearchCriteria, CombinedAnalytics, ExternalBlob, DataSnapshot, ResetScope } from '../backend';
 import { Principal } from '@dfinity/principal';
 import { toast } from 'sonner';
+import { IMPORT_BATCH_SIZE, type PropertyImportInput, type PropertyImportResult } from '../utils/propertyImport';
+import { BULK_BATCH_SIZE, adjustPrice, describeBulkChange, type BulkPropertyChange, type BulkPropertyResult } from '../utils/bulkPropertyActions';
+import { fromAdvancedSearch } from '../utils/advancedFilter';
+import type { AdvancedSearch } from '../utils/routeSearch';
 
 // User Profile Queries
 export function useGetCallerUserProfile() {
@@ -144,6 +148,104 @@ export function useDeactivateAgent() {
   });
 }
 
+// Inquiry Assignment Rule Queries
+// Keyed under agents so resetting the agent roster refreshes the rules too
+export function useGetAssignmentRules() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Rule[]>({
+    queryKey: ['agents', 'assignmentRules'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getAssignmentRules();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export interface AssignmentRuleInput {
+  name: string;
+  strategy: Strategy;
+  location: string;
+  sources: Source[];
+  agentIds: Principal[];
+}
+
+export function useAddAssignmentRule() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, strategy, location, sources, agentIds }: AssignmentRuleInput) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.addAssignmentRule(name, strategy, location, sources, agentIds);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agents', 'assignmentRules'] });
+      toast.success('Assignment rule added successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to add assignment rule: ${error.message}`);
+    },
+  });
+}
+
+export function useUpdateAssignmentRule() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ ruleId, name, strategy, location, sources, agentIds, enabled }: AssignmentRuleInput & { ruleId: string; enabled: boolean }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateAssignmentRule(ruleId, name, strategy, location, sources, agentIds, enabled);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agents', 'assignmentRules'] });
+      toast.success('Assignment rule updated successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update assignment rule: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteAssignmentRule() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ruleId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteAssignmentRule(ruleId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agents', 'assignmentRules'] });
+      toast.success('Assignment rule deleted successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete assignment rule: ${error.message}`);
+    },
+  });
+}
+
+export function useReorderAssignmentRules() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ruleIds: string[]) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.reorderAssignmentRules(ruleIds);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agents', 'assignmentRules'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to reorder assignment rules: ${error.message}`);
+    },
+  });
+}
+
 // Property Queries
 export function useGetAllProperties() {
   const { actor, isFetching } = useActor();
@@ -158,6 +260,20 @@ export function useGetAllProperties() {
   });
 }
 
+export function useGetProperty(propertyId: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Property>({
+    queryKey: ['properties', 'detail', propertyId],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getProperty(propertyId);
+    },
+    enabled: !!actor && !isFetching,
+    retry: false,
+  });
+}
+
 export function useSearchAndFilterProperties(criteria: SearchCriteria) {
   const { actor, isFetching } = useActor();
 
@@ -171,6 +287,20 @@ export function useSearchAndFilterProperties(criteria: SearchCriteria) {
   });
 }
 
+// Keyed by the URL form of the filter, which unlike AdvancedFilter holds no bigints
+export function useAdvancedFilterProperties(search: AdvancedSearch | undefined) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Property[]>({
+    queryKey: ['properties', 'advanced', search],
+    queryFn: async () => {
+      if (!actor || !search) return [];
+      return actor.advancedFilterProperties(fromAdvancedSearch(search));
+    },
+    enabled: !!actor && !isFetching && !!search,
+  });
+}
+
 export function useAddProperty() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
@@ -190,6 +320,49 @@ export function useAddProperty() {
   });
 }
 
+export function useImportProperties() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ inputs, onProgress }: { inputs: PropertyImportInput[]; onProgress?: (completed: number) => void }): Promise<PropertyImportResult> => {
+      if (!actor) throw new Error('Actor not available');
+
+      const result: PropertyImportResult = { createdCount: 0, failures: [] };
+      for (let start = 0; start < inputs.length; start += IMPORT_BATCH_SIZE) {
+        const batch = inputs.slice(start, start + IMPORT_BATCH_SIZE);
+        const outcomes = await Promise.allSettled(
+          batch.map((input) =>
+            actor.addProperty(input.title, input.description, input.location, input.coordinates, input.price, input.category, input.propertyType, input.configuration, input.furnishing, [])
+          )
+        );
+        outcomes.forEach((outcome, i) => {
+          if (outcome.status === 'fulfilled') {
+            result.createdCount++;
+          } else {
+            const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+            result.failures.push({ index: start + i, message });
+          }
+        });
+        onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, inputs.length));
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      if (result.failures.length === 0) {
+        toast.success(`Imported ${result.createdCount} properties`);
+      } else {
+        toast.warning(`Imported ${result.createdCount} properties, ${result.failures.length} failed`);
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to import properties: ${error.message}`);
+    },
+  });
+}
+
 export function useUpdateProperty() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
@@ -209,6 +382,178 @@ export function useUpdateProperty() {
   });
 }
 
+export function useBulkUpdateProperties() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ properties, change, onProgress }: { properties: Property[]; change: BulkPropertyChange; onProgress?: (completed: number) => void }): Promise<BulkPropertyResult> => {
+      if (!actor) throw new Error('Actor not available');
+
+      const applyChange = (p: Property) => {
+        if (change.kind === 'archive') {
+          return actor.archiveProperty(p.id);
+        }
+        return actor.updateProperty(
+          p.id,
+          p.title,
+          p.description,
+          p.location,
+          p.coordinates,
+          change.kind === 'price' ? adjustPrice(p.price, change.percent) : p.price,
+          p.category,
+          p.propertyType,
+          p.configuration,
+          change.kind === 'furnishing' ? change.furnishing : p.furnishing,
+          change.kind === 'status' ? change.status : p.status,
+          p.images
+        );
+      };
+
+      const result: BulkPropertyResult = { succeededCount: 0, failures: [] };
+      for (let start = 0; start < properties.length; start += BULK_BATCH_SIZE) {
+        const batch = properties.slice(start, start + BULK_BATCH_SIZE);
+        const outcomes = await Promise.allSettled(batch.map(applyChange));
+        outcomes.forEach((outcome, i) => {
+          if (outcome.status === 'fulfilled') {
+            result.succeededCount++;
+          } else {
+            const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+            result.failures.push({ propertyId: batch[i].id, title: batch[i].title, message });
+          }
+        });
+        onProgress?.(Math.min(start + BULK_BATCH_SIZE, properties.length));
+      }
+      return result;
+    },
+    onSuccess: (result, { change }) => {
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      if (result.failures.length === 0) {
+        toast.success(`${describeBulkChange(change)} for ${result.succeededCount} properties`);
+      } else {
+        toast.warning(`${describeBulkChange(change)} for ${result.succeededCount} properties, ${result.failures.length} failed`);
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update properties: ${error.message}`);
+    },
+  });
+}
+
+export function useGetPropertyHistory(propertyId: string | null) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<PropertyChange[]>({
+    queryKey: ['properties', 'history', propertyId],
+    queryFn: async () => {
+      if (!actor || !propertyId) return [];
+      return actor.getPropertyHistory(propertyId);
+    },
+    enabled: !!actor && !isFetching && !!propertyId,
+  });
+}
+
+export function useGetPriceHistory(propertyId: string | null) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<PricePoint[]>({
+    queryKey: ['properties', 'priceHistory', propertyId],
+    queryFn: async () => {
+      if (!actor || !propertyId) return [];
+      return actor.getPriceHistory(propertyId);
+    },
+    enabled: !!actor && !isFetching && !!propertyId,
+  });
+}
+
+export function useGetAllPriceHistories() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Map<string, PricePoint[]>>({
+    queryKey: ['properties', 'priceHistory'],
+    queryFn: async () => {
+      if (!actor) return new Map();
+      return new Map(await actor.getAllPriceHistories());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useGetArchivedProperties() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Property[]>({
+    queryKey: ['properties', 'archived'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getArchivedProperties();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useArchiveProperty() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (propertyId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.archiveProperty(propertyId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      toast.success('Property archived');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to archive property: ${error.message}`);
+    },
+  });
+}
+
+export function useUnarchiveProperty() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (propertyId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.unarchiveProperty(propertyId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      toast.success('Property restored');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to restore property: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteProperty() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (propertyId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteProperty(propertyId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      toast.success('Property deleted permanently');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete property: ${error.message}`);
+    },
+  });
+}
+
 // Inquiry Queries
 export function useGetAllInquiries() {
   const { actor, isFetching } = useActor();
@@ -223,12 +568,25 @@ export function useGetAllInquiries() {
   });
 }
 
+export function useGetInquiriesByProperty(propertyId: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Inquiry[]>({
+    queryKey: ['inquiries', 'property', propertyId],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getInquiriesByProperty(propertyId);
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
 export function useAddInquiry() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ propertyId, customerName, contactInfo, source, assignedAgent, notes }: { propertyId: string; customerName: string; contactInfo: string; source: Source; assignedAgent: Principal; notes: string }) => {
+    mutationFn: async ({ propertyId, customerName, contactInfo, source, assignedAgent, notes }: { propertyId: string; customerName: string; contactInfo: string; source: Source; assignedAgent: Principal | null; notes: string }) => {
       if (!actor) throw new Error('Actor not available');
       return actor.addInquiry(propertyId, customerName, contactInfo, source, assignedAgent, notes);
     },
@@ -247,9 +605,9 @@ export function useUpdateInquiry() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ inquiryId, customerName, contactInfo, source, status, assignedAgent, notes }: { inquiryId: string; customerName: string; contactInfo: string; source: Source; status: Status__1; assignedAgent: Principal; notes: string }) => {
+    mutationFn: async ({ inquiryId, customerName, contactInfo, source, status, assignedAgent, followUpAt, followUpNote }: { inquiryId: string; customerName: string; contactInfo: string; source: Source; status: Status__1; assignedAgent: Principal; followUpAt: bigint | null; followUpNote: string }) => {
       if (!actor) throw new Error('Actor not available');
-      return actor.updateInquiry(inquiryId, customerName, contactInfo, source, status, assignedAgent, notes);
+      return actor.updateInquiry(inquiryId, customerName, contactInfo, source, status, assignedAgent, followUpAt, followUpNote);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['inquiries'] });
@@ -261,44 +619,757 @@ export function useUpdateInquiry() {
   });
 }
 
-// Analytics Queries
-export function useGetCombinedAnalytics() {
-  const { actor, isFetching } = useActor();
+export function useAddInquiryActivity() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
 
-  return useQuery<CombinedAnalytics>({
-    queryKey: ['combinedAnalytics'],
-    queryFn: async () => {
+  return useMutation({
+    mutationFn: async ({ inquiryId, kind, text }: { inquiryId: string; kind: ActivityKind; text: string }) => {
       if (!actor) throw new Error('Actor not available');
-      return actor.getCombinedAnalytics();
+      return actor.addInquiryActivity(inquiryId, kind, text);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      toast.success('Activity logged');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to log activity: ${error.message}`);
     },
-    enabled: !!actor && !isFetching,
   });
 }
 
-// Reset to Fresh Draft Mutation
-export function useResetToFreshDraft() {
+export function useCloseInquiry() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({ inquiryId, outcome, finalPrice, lostReason }: { inquiryId: string; outcome: Outcome; finalPrice: bigint; lostReason: string }) => {
       if (!actor) throw new Error('Actor not available');
-      return actor.resetToFreshDraft();
+      return actor.closeInquiry(inquiryId, outcome, finalPrice, lostReason);
+    },
+    onSuccess: (_, { outcome }) => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      // Winning a deal takes the property off the market
+      if (outcome === 'won') {
+        queryClient.invalidateQueries({ queryKey: ['properties'] });
+        queryClient.invalidateQueries({ queryKey: ['publicListings'] });
+      }
+      toast.success(outcome === 'won' ? 'Inquiry closed as won' : 'Inquiry closed as lost');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to close inquiry: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteInquiry() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inquiryId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteInquiry(inquiryId);
     },
     onSuccess: () => {
-      // Invalidate all relevant query keys to refresh the entire app state
-      queryClient.invalidateQueries({ queryKey: ['agents'] });
-      queryClient.invalidateQueries({ queryKey: ['properties'] });
       queryClient.invalidateQueries({ queryKey: ['inquiries'] });
-      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
-      queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
-      queryClient.invalidateQueries({ queryKey: ['currentUserRole'] });
-      queryClient.invalidateQueries({ queryKey: ['isCallerAdmin'] });
-      
-      toast.success('Application data has been reset to fresh draft successfully');
+      toast.success('Inquiry deleted successfully');
     },
     onError: (error: Error) => {
-      toast.error(`Failed to reset application data: ${error.message}`);
+      toast.error(`Failed to delete inquiry: ${error.message}`);
+    },
+  });
+}
+
+export function useMergeInquiries() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inquiryIds: string[]) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.mergeInquiries(inquiryIds);
+    },
+    onSuccess: (_, inquiryIds) => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      toast.success(`Merged ${inquiryIds.length} duplicate inquiries`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to merge inquiries: ${error.message}`);
+    },
+  });
+}
+
+// Customer Queries
+// Kept under the inquiries key since new and edited inquiries create and relink customers
+export function useGetCustomers() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Customer[]>({
+    queryKey: ['inquiries', 'customers'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getCustomers();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export interface CustomerInput {
+  name: string;
+  phone: string;
+  email: string;
+  budgetMin: bigint;
+  budgetMax: bigint;
+  preferredSuburbs: string[];
+  preferredConfigurations: Configuration[];
+}
+
+export function useAddCustomer() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CustomerInput) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.addCustomer(
+        input.name,
+        input.phone,
+        input.email,
+        input.budgetMin,
+        input.budgetMax,
+        input.preferredSuburbs,
+        input.preferredConfigurations
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'customers'] });
+      toast.success('Customer added successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to add customer: ${error.message}`);
+    },
+  });
+}
+
+export function useUpdateCustomer() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ customerId, ...input }: CustomerInput & { customerId: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateCustomer(
+        customerId,
+        input.name,
+        input.phone,
+        input.email,
+        input.budgetMin,
+        input.budgetMax,
+        input.preferredSuburbs,
+        input.preferredConfigurations
+      );
+    },
+    onSuccess: () => {
+      // Linked inquiries pick up the new name and contact details
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      toast.success('Customer updated successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update customer: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteCustomer() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (customerId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteCustomer(customerId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'customers'] });
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'requirements'] });
+      queryClient.invalidateQueries({ queryKey: ['properties', 'requirementAlerts'] });
+      toast.success('Customer deleted successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete customer: ${error.message}`);
+    },
+  });
+}
+
+// Buyer Requirement Queries
+export function useGetRequirements() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Requirement[]>({
+    queryKey: ['inquiries', 'requirements'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getRequirements();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+// Matches and alerts follow the listings, so property changes refresh them too
+export function useGetRequirementMatches(requirementId: string | null) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Property[]>({
+    queryKey: ['properties', 'requirementMatches', requirementId],
+    queryFn: async () => {
+      if (!actor || !requirementId) return [];
+      return actor.getRequirementMatches(requirementId);
+    },
+    enabled: !!actor && !isFetching && !!requirementId,
+  });
+}
+
+export function useGetRequirementAlerts() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<MatchAlert[]>({
+    queryKey: ['properties', 'requirementAlerts'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getRequirementAlerts();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export interface RequirementInput {
+  agent: Principal;
+  filter: AdvancedFilter;
+  note: string;
+}
+
+export function useAddRequirement() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ customerId, ...input }: RequirementInput & { customerId: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.addRequirement(customerId, input.agent, input.filter, input.note);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'requirements'] });
+      toast.success('Requirement added successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to add requirement: ${error.message}`);
+    },
+  });
+}
+
+export function useUpdateRequirement() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ requirementId, open, ...input }: RequirementInput & { requirementId: string; open: boolean }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateRequirement(requirementId, input.agent, input.filter, input.note, open);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'requirements'] });
+      queryClient.invalidateQueries({ queryKey: ['properties', 'requirementMatches'] });
+      queryClient.invalidateQueries({ queryKey: ['properties', 'requirementAlerts'] });
+      toast.success('Requirement updated successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update requirement: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteRequirement() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (requirementId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteRequirement(requirementId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'requirements'] });
+      queryClient.invalidateQueries({ queryKey: ['properties', 'requirementAlerts'] });
+      toast.success('Requirement deleted successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete requirement: ${error.message}`);
+    },
+  });
+}
+
+export function useDismissRequirementAlert() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (alertId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.dismissRequirementAlert(alertId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['properties', 'requirementAlerts'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to dismiss alert: ${error.message}`);
+    },
+  });
+}
+
+// Map Preset Queries
+export function useGetMapPresets() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<MapPreset[]>({
+    queryKey: ['mapPresets'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getMapPresets();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export interface MapPresetInput {
+  name: string;
+  filters: SearchCriteria;
+  sharedWithTeam: boolean;
+}
+
+export function useSaveMapPreset() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: MapPresetInput) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.saveMapPreset(input.name, input.filters, input.sharedWithTeam);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mapPresets'] });
+      toast.success('Preset saved successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save preset: ${error.message}`);
+    },
+  });
+}
+
+export function useUpdateMapPreset() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ presetId, ...input }: MapPresetInput & { presetId: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateMapPreset(presetId, input.name, input.filters, input.sharedWithTeam);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mapPresets'] });
+      toast.success('Preset updated successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update preset: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteMapPreset() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (presetId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteMapPreset(presetId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mapPresets'] });
+      toast.success('Preset deleted successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete preset: ${error.message}`);
+    },
+  });
+}
+
+export function useSetMapPresetPinned() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ presetId, pinned }: { presetId: string; pinned: boolean }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.setMapPresetPinned(presetId, pinned);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mapPresets'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to pin preset: ${error.message}`);
+    },
+  });
+}
+
+// Map Zone Queries
+export function useGetZones() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Zone[]>({
+    queryKey: ['zones'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getZones();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useAddZone() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, points }: { name: string; points: Coordinates[] }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.addZone(name, points);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['zones'] });
+      toast.success('Zone saved successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save zone: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteZone() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (zoneId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteZone(zoneId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['zones'] });
+      toast.success('Zone deleted successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete zone: ${error.message}`);
+    },
+  });
+}
+
+// Site Visit Queries
+// Kept under the inquiries key so anything that refreshes inquiries refreshes the visits booked against them
+export function useGetSiteVisits() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<SiteVisit[]>({
+    queryKey: ['inquiries', 'siteVisits'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getSiteVisits();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export interface SiteVisitSlotInput {
+  agentId: Principal;
+  startsAt: Time;
+  endsAt: Time;
+}
+
+export function useScheduleSiteVisit() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ inquiryId, propertyId, agentId, startsAt, endsAt }: SiteVisitSlotInput & { inquiryId: string; propertyId: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.scheduleSiteVisit(inquiryId, propertyId, agentId, startsAt, endsAt);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'siteVisits'] });
+      toast.success('Site visit scheduled successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to schedule site visit: ${error.message}`);
+    },
+  });
+}
+
+export function useRescheduleSiteVisit() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ visitId, agentId, startsAt, endsAt }: SiteVisitSlotInput & { visitId: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.rescheduleSiteVisit(visitId, agentId, startsAt, endsAt);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'siteVisits'] });
+      toast.success('Site visit rescheduled successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to reschedule site visit: ${error.message}`);
+    },
+  });
+}
+
+export function useSetSiteVisitOutcome() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ visitId, outcome }: { visitId: string; outcome: VisitOutcome }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.setSiteVisitOutcome(visitId, outcome);
+    },
+    onSuccess: (_, { outcome }) => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'siteVisits'] });
+      toast.success(outcome === 'done' ? 'Site visit marked as done' : 'Site visit marked as no-show');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update site visit: ${error.message}`);
+    },
+  });
+}
+
+export function useCancelSiteVisit() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (visitId: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.cancelSiteVisit(visitId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries', 'siteVisits'] });
+      toast.success('Site visit cancelled');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to cancel site visit: ${error.message}`);
+    },
+  });
+}
+
+// Public Listing Portal Queries
+export function useGetPublicListings() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<PublicListing[]>({
+    queryKey: ['publicListings'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getPublicListings();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useSubmitPublicInquiry() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ propertyId, customerName, contactInfo, notes }: { propertyId: string; customerName: string; contactInfo: string; notes: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.submitPublicInquiry(propertyId, customerName, contactInfo, notes);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      toast.success('Thank you! The listing agent will be in touch soon.');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to send your inquiry: ${error.message}`);
+    },
+  });
+}
+
+// Analytics Queries
+export function useGetCombinedAnalytics() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<CombinedAnalytics>({
+    queryKey: ['combinedAnalytics'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getCombinedAnalytics();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+// Keyed under properties so every property update refreshes it
+export function useGetPriceReductionBySuburb() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<PriceReduction[]>({
+    queryKey: ['properties', 'priceReduction'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getPriceReductionBySuburb();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+// Reset to Fresh Draft Mutation
+export function useResetToFreshDraft() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.resetToFreshDraft();
+    },
+    onSuccess: () => {
+      // Invalidate all relevant query keys to refresh the entire app state
+      queryClient.invalidateQueries({ queryKey: ['agents'] });
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
+      queryClient.invalidateQueries({ queryKey: ['currentUserRole'] });
+      queryClient.invalidateQueries({ queryKey: ['isCallerAdmin'] });
+      
+      toast.success('Application data has been reset to fresh draft successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to reset application data: ${error.message}`);
+    },
+  });
+}
+
+export function useResetSelectedData() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scope: ResetScope) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.resetSelectedData(scope);
+    },
+    onSuccess: (_, scope) => {
+      if (scope.agents) {
+        queryClient.invalidateQueries({ queryKey: ['agents'] });
+        queryClient.invalidateQueries({ queryKey: ['inquiries', 'siteVisits'] });
+        queryClient.invalidateQueries({ queryKey: ['inquiries', 'requirements'] });
+        queryClient.invalidateQueries({ queryKey: ['properties', 'requirementAlerts'] });
+      }
+      if (scope.properties) {
+        queryClient.invalidateQueries({ queryKey: ['properties'] });
+        queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      }
+      if (scope.properties || scope.inquiries) {
+        queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+        queryClient.invalidateQueries({ queryKey: ['properties', 'requirementAlerts'] });
+      }
+      if (scope.userProfiles) {
+        queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['isAppEmpty'] });
+
+      toast.success('Selected application data has been reset successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to reset application data: ${error.message}`);
+    },
+  });
+}
+
+// Demo Data Mutation
+// Whether demo data can be seeded; unlike the list queries this counts archived listings and customers
+export function useIsAppEmpty(enabled = true) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<boolean>({
+    queryKey: ['isAppEmpty'],
+    queryFn: async () => {
+      if (!actor) return false;
+      return actor.isAppEmpty();
+    },
+    enabled: !!actor && !isFetching && enabled,
+  });
+}
+
+export function useSeedDemoData() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.seedDemoData();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agents'] });
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      queryClient.invalidateQueries({ queryKey: ['isAppEmpty'] });
+      toast.success('Mulund demo data has been loaded successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to load demo data: ${error.message}`);
+    },
+  });
+}
+
+// Data Snapshot Mutations
+export function useExportDataSnapshot() {
+  const { actor } = useActor();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.exportDataSnapshot();
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to export data snapshot: ${error.message}`);
+    },
+  });
+}
+
+export function useRestoreDataSnapshot() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (snapshot: DataSnapshot) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.restoreDataSnapshot(snapshot);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agents'] });
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['inquiries'] });
+      queryClient.invalidateQueries({ queryKey: ['combinedAnalytics'] });
+      queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
+      queryClient.invalidateQueries({ queryKey: ['isAppEmpty'] });
+      toast.success('Application data restored from snapshot successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to restore data snapshot: ${error.message}`);
     },
   });
 }
@@ -1,22 +1,37 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
 import { useGetAllAgents, useAddAgent, useUpdateAgent, useDeactivateAgent, useIsCallerAdmin } from '../hooks/useQueries';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
 import { Badge } from '../components/ui/badge';
-import { Plus, Edit, UserX, Loader2, ShieldAlert } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../components/ui/dropdown-menu';
+import { Plus, Edit, UserX, Loader2, ShieldAlert, Contact, Download, QrCode } from 'lucide-react';
 import { Role, type Profile } from '../backend';
 import { Principal } from '@dfinity/principal';
 import AgentForm from '../components/AgentForm';
+import AssignmentRulesCard from '../components/AssignmentRulesCard';
+import AgentContactCard from '../components/AgentContactCard';
+import { buildRosterVCards, buildVCard, downloadVCard, ROLE_LABELS, vCardFileName, type VCardVersion } from '../utils/vCard';
 
 export default function AgentsPage() {
   const { data: agents = [], isLoading } = useGetAllAgents();
   const { data: isAdmin, isLoading: isAdminLoading } = useIsCallerAdmin();
   const deactivateAgent = useDeactivateAgent();
+  const search = useSearch({ from: '/agents' });
+  const navigate = useNavigate({ from: '/agents' });
 
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [selectedAgent, setSelectedAgent] = useState<Profile | null>(null);
+  const [contactCardAgent, setContactCardAgent] = useState<Profile | null>(null);
 
   const handleDeactivate = async (agentId: Principal) => {
     if (confirm('Are you sure you want to deactivate this agent?')) {
@@ -24,11 +39,39 @@ export default function AgentsPage() {
     }
   };
 
+  const handleExportRoster = (version: VCardVersion) => {
+    downloadVCard(buildRosterVCards(agents, version), `maa-agents-v${version.charAt(0)}.vcf`);
+  };
+
   const openEditDialog = (agent: Profile) => {
     setSelectedAgent(agent);
     setShowEditDialog(true);
   };
 
+  // The agent being edited lives in the URL so the dialog can be linked to directly
+  const setEditSearch = (agentId: string | undefined, replace = false) => {
+    navigate({ search: (prev) => ({ ...prev, edit: agentId }), replace });
+  };
+
+  const handleEditDialogOpenChange = (open: boolean) => {
+    setShowEditDialog(open);
+    if (!open) setEditSearch(undefined, true);
+  };
+
+  // Follow the ?edit= param, including links pasted from elsewhere and the back button
+  useEffect(() => {
+    if (!search.edit) {
+      if (showEditDialog) {
+        setShowEditDialog(false);
+        setSelectedAgent(null);
+      }
+      return;
+    }
+    if (showEditDialog && selectedAgent?.id.toString() === search.edit) return;
+    const agent = agents.find((a) => a.id.toString() === search.edit);
+    if (agent) openEditDialog(agent);
+  }, [search.edit, agents]);
+
   const getRoleBadge = (role: Role) => {
     const variants: Record<Role, 'default' | 'secondary' | 'outline'> = {
       [Role.admin]: 'default',
@@ -36,13 +79,7 @@ export default function AgentsPage() {
       [Role.juniorAgent]: 'outline',
       [Role.assistant]: 'outline',
     };
-    const labels: Record<Role, string> = {
-      [Role.admin]: 'Admin',
-      [Role.agent]: 'Agent',
-      [Role.juniorAgent]: 'Junior Agent',
-      [Role.assistant]: 'Assistant',
-    };
-    return <Badge variant={variants[role]}>{labels[role]}</Badge>;
+    return <Badge variant={variants[role]}>{ROLE_LABELS[role]}</Badge>;
   };
 
   if (isAdminLoading) {
@@ -76,10 +113,26 @@ export default function AgentsPage() {
           <h1 className="mb-2 text-3xl font-bold">User Management</h1>
           <p className="text-muted-foreground">Manage your real estate agents and sub-users</p>
         </div>
-        <Button onClick={() => setShowAddDialog(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Agent
-        </Button>
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={!agents.some((a) => a.active)}>
+                <Download className="mr-2 h-4 w-4" />
+                Export Directory
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Active agents as one .vcf</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => handleExportRoster('3.0')}>vCard 3.0</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportRoster('4.0')}>vCard 4.0</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button onClick={() => setShowAddDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Agent
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -116,7 +169,28 @@ export default function AgentsPage() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
-                          <Button variant="outline" size="sm" onClick={() => openEditDialog(agent)}>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" size="sm" title="Contact card">
+                                <Contact className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => downloadVCard(buildVCard(agent, '3.0'), vCardFileName(agent.name))}>
+                                <Download className="mr-2 h-4 w-4" />
+                                Download vCard 3.0
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => downloadVCard(buildVCard(agent, '4.0'), vCardFileName(agent.name))}>
+                                <Download className="mr-2 h-4 w-4" />
+                                Download vCard 4.0
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setContactCardAgent(agent)}>
+                                <QrCode className="mr-2 h-4 w-4" />
+                                QR contact card
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                          <Button variant="outline" size="sm" onClick={() => setEditSearch(agent.id.toString())}>
                             <Edit className="h-4 w-4" />
                           </Button>
                           {agent.active && (
@@ -135,6 +209,10 @@ export default function AgentsPage() {
         </CardContent>
       </Card>
 
+      <AssignmentRulesCard />
+
+      <AgentContactCard agent={contactCardAgent} onOpenChange={(open) => !open && setContactCardAgent(null)} />
+
       <AgentForm
         open={showAddDialog}
         onOpenChange={setShowAddDialog}
@@ -143,7 +221,7 @@ export default function AgentsPage() {
 
       <AgentForm
         open={showEditDialog}
-        onOpenChange={setShowEditDialog}
+        onOpenChange={handleEditDialogOpenChange}
         mode="edit"
         agent={selectedAgent}
         onClose={() => setSelectedAgent(null)}
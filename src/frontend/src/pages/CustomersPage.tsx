@@ -0,0 +1,433 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearch } from '@tanstack/react-router';
+import {
+  useDeleteCustomer,
+  useDeleteRequirement,
+  useGetAllAgents,
+  useGetAllInquiries,
+  useGetAllProperties,
+  useGetCustomers,
+  useGetRequirements,
+  useIsCallerAdmin,
+  useUpdateRequirement,
+} from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { Input } from '../components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { Edit, Eye, ListChecks, Loader2, Lock, LockOpen, Plus, Search, Trash2 } from 'lucide-react';
+import { Outcome, Role, Status__1, type Customer, type Requirement } from '../backend';
+import type { Principal } from '@dfinity/principal';
+import CustomerForm, { CONFIGURATION_LABELS } from '../components/CustomerForm';
+import RequirementForm, { CATEGORY_LABELS, FURNISHING_LABELS } from '../components/RequirementForm';
+import RequirementMatchesDialog from '../components/RequirementMatchesDialog';
+import { formatBudget, getCustomerInquiries, matchesCustomerSearch } from '../utils/customers';
+import { fromAdvancedFilter, getCustomerRequirements } from '../utils/requirements';
+import { OUTCOME_LABELS } from '../utils/inquiryOutcomes';
+import type { CustomersSearch } from '../utils/routeSearch';
+
+const STATUS_LABELS: Record<Status__1, string> = {
+  [Status__1.new_]: 'New',
+  [Status__1.inProgress]: 'In Progress',
+  [Status__1.followUp]: 'Follow Up',
+  [Status__1.closed]: 'Closed',
+};
+
+export default function CustomersPage() {
+  const { data: customers = [], isLoading } = useGetCustomers();
+  const { data: inquiries = [] } = useGetAllInquiries();
+  const { data: properties = [] } = useGetAllProperties();
+  const { data: agents = [] } = useGetAllAgents();
+  const { data: requirements = [] } = useGetRequirements();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { identity } = useInternetIdentity();
+  const deleteCustomer = useDeleteCustomer();
+  const updateRequirement = useUpdateRequirement();
+  const deleteRequirement = useDeleteRequirement();
+  const search = useSearch({ from: '/customers' });
+  const navigate = useNavigate({ from: '/customers' });
+
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showRequirementForm, setShowRequirementForm] = useState(false);
+  const [editedRequirement, setEditedRequirement] = useState<Requirement | null>(null);
+
+  // Only admins and agents can add or delete customers; assistants only see their own customers
+  const callerAgent = agents.find((a) => a.id.toString() === identity?.getPrincipal().toString());
+  const canManageAllInquiries = !!isAdmin || callerAgent?.role === Role.admin || callerAgent?.role === Role.agent;
+  const canAssignToOthers = canManageAllInquiries || callerAgent?.role === Role.juniorAgent;
+
+  const updateSearch = (changes: Partial<CustomersSearch>, replace = false) => {
+    navigate({ search: (prev) => ({ ...prev, ...changes }), replace });
+  };
+
+  const filteredCustomers = customers.filter((c) => matchesCustomerSearch(c, search.q ?? ''));
+  const viewedCustomer = customers.find((c) => c.id === search.customer) ?? null;
+  const editedCustomer = customers.find((c) => c.id === search.edit) ?? null;
+  const viewedInquiries = viewedCustomer ? getCustomerInquiries(inquiries, viewedCustomer.id) : [];
+  const viewedRequirements = viewedCustomer ? getCustomerRequirements(requirements, viewedCustomer.id) : [];
+  const matchedRequirement = requirements.find((r) => r.id === search.requirement) ?? null;
+
+  const getAgentName = (agentPrincipal: Principal): string => {
+    const agent = agents.find((a) => a.id.toString() === agentPrincipal.toString());
+    return agent?.name || agentPrincipal.toString().substring(0, 10) + '...';
+  };
+
+  const getPropertyTitle = (propertyId: string): string => {
+    const property = properties.find((p) => p.id === propertyId);
+    return property?.title || propertyId.substring(0, 30) + '...';
+  };
+
+  const formatDate = (time: bigint): string => {
+    // Backend timestamps are in nanoseconds
+    return new Date(Number(time / 1_000_000n)).toLocaleDateString();
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (confirm(`Are you sure you want to delete ${customer.name}?`)) {
+      await deleteCustomer.mutateAsync(customer.id);
+    }
+  };
+
+  const handleToggleRequirement = async (requirement: Requirement) => {
+    await updateRequirement.mutateAsync({
+      requirementId: requirement.id,
+      agent: requirement.agent,
+      filter: requirement.filter,
+      note: requirement.note,
+      open: !requirement.open,
+    });
+  };
+
+  const handleDeleteRequirement = async (requirement: Requirement) => {
+    if (confirm('Are you sure you want to delete this requirement?')) {
+      await deleteRequirement.mutateAsync(requirement.id);
+    }
+  };
+
+  const renderCriteria = (requirement: Requirement) => {
+    const criteria = fromAdvancedFilter(requirement.filter);
+    return (
+      <div className="flex flex-wrap gap-1">
+        {(criteria.budgetMin > 0n || criteria.budgetMax > 0n) && <Badge variant="outline">{formatBudget(criteria)}</Badge>}
+        {criteria.configurations.map((configuration) => (
+          <Badge key={configuration} variant="secondary">
+            {CONFIGURATION_LABELS[configuration]}
+          </Badge>
+        ))}
+        {criteria.categories.map((category) => (
+          <Badge key={category} variant="outline">
+            {CATEGORY_LABELS[category]}
+          </Badge>
+        ))}
+        {criteria.furnishings.map((furnishing) => (
+          <Badge key={furnishing} variant="outline">
+            {FURNISHING_LABELS[furnishing]}
+          </Badge>
+        ))}
+        {criteria.suburbs.map((suburb) => (
+          <Badge key={suburb} variant="outline">
+            {suburb}
+          </Badge>
+        ))}
+        {criteria.nearby && (
+          <Badge variant="outline">
+            Within {criteria.nearby.radiusKm} km of {criteria.nearby.lat.toFixed(4)}, {criteria.nearby.lng.toFixed(4)}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  const renderPreferences = (customer: Customer) => {
+    if (customer.preferredSuburbs.length === 0 && customer.preferredConfigurations.length === 0) {
+      return <span className="text-muted-foreground">—</span>;
+    }
+    return (
+      <div className="flex flex-wrap gap-1">
+        {customer.preferredSuburbs.map((suburb) => (
+          <Badge key={suburb} variant="outline">
+            {suburb}
+          </Badge>
+        ))}
+        {customer.preferredConfigurations.map((configuration) => (
+          <Badge key={configuration} variant="secondary">
+            {CONFIGURATION_LABELS[configuration]}
+          </Badge>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="mb-2 text-3xl font-bold">Customers</h1>
+          <p className="text-muted-foreground">Everyone who has inquired, with their inquiries across properties</p>
+        </div>
+        {canManageAllInquiries && (
+          <Button onClick={() => setShowAddDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Customer
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <CardTitle>All Customers ({filteredCustomers.length})</CardTitle>
+          <div className="relative w-full sm:w-72">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search.q ?? ''}
+              onChange={(e) => updateSearch({ q: e.target.value || undefined }, true)}
+              placeholder="Search name, phone or email"
+              className="pl-9"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Budget</TableHead>
+                    <TableHead>Preferences</TableHead>
+                    <TableHead>Inquiries</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCustomers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
+                        {customers.length === 0 ? 'No customers yet. They are added as inquiries come in.' : 'No customers match your search'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredCustomers.map((customer) => {
+                      const customerInquiries = getCustomerInquiries(inquiries, customer.id);
+                      const propertyCount = new Set(customerInquiries.map((i) => i.propertyId)).size;
+                      return (
+                        <TableRow key={customer.id}>
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-2">
+                              {customer.name}
+                              {customerInquiries.length > 1 && <Badge variant="secondary">Repeat</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{customer.phone || <span className="text-muted-foreground">—</span>}</TableCell>
+                          <TableCell className="text-sm">{customer.email || <span className="text-muted-foreground">—</span>}</TableCell>
+                          <TableCell className="text-sm">{formatBudget(customer)}</TableCell>
+                          <TableCell className="max-w-[260px]">{renderPreferences(customer)}</TableCell>
+                          <TableCell className="text-sm">
+                            {customerInquiries.length}
+                            {propertyCount > 1 && <span className="text-muted-foreground"> across {propertyCount} properties</span>}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button variant="outline" size="sm" title="View inquiries" onClick={() => updateSearch({ customer: customer.id })}>
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              <Button variant="outline" size="sm" title="Edit" onClick={() => updateSearch({ edit: customer.id })}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              {canManageAllInquiries && customerInquiries.length === 0 && (
+                                <Button variant="outline" size="sm" title="Delete" onClick={() => handleDelete(customer)}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Customer Inquiries Dialog */}
+      <Dialog open={!!viewedCustomer} onOpenChange={(open) => !open && updateSearch({ customer: undefined }, true)}>
+        <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewedCustomer?.name}</DialogTitle>
+            <DialogDescription>
+              {[viewedCustomer?.phone, viewedCustomer?.email].filter(Boolean).join(' · ')}
+            </DialogDescription>
+          </DialogHeader>
+
+          {viewedCustomer && (
+            <div className="space-y-4">
+              <div className="grid gap-4 text-sm sm:grid-cols-2">
+                <div>
+                  <p className="text-muted-foreground">Budget</p>
+                  <p className="font-medium">{formatBudget(viewedCustomer)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Preferences</p>
+                  {renderPreferences(viewedCustomer)}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Property</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Agent</TableHead>
+                      <TableHead>Received</TableHead>
+                      <TableHead className="text-right">Inquiry</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewedInquiries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
+                          No inquiries yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      viewedInquiries.map((inquiry) => (
+                        <TableRow key={inquiry.id}>
+                          <TableCell className="max-w-[220px] truncate text-sm">
+                            <Link to="/properties/$propertyId" params={{ propertyId: inquiry.propertyId }} className="hover:underline">
+                              {getPropertyTitle(inquiry.propertyId)}
+                            </Link>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              <Badge variant={inquiry.status === Status__1.closed ? 'secondary' : 'outline'}>
+                                {STATUS_LABELS[inquiry.status]}
+                              </Badge>
+                              {inquiry.closure && (
+                                <Badge variant={inquiry.closure.outcome === Outcome.won ? 'default' : 'outline'}>
+                                  {OUTCOME_LABELS[inquiry.closure.outcome]}
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{getAgentName(inquiry.assignedAgent)}</TableCell>
+                          <TableCell className="text-sm">{formatDate(inquiry.createdAt)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="outline" size="sm" asChild>
+                              <Link to="/inquiries" search={{ edit: inquiry.id }}>
+                                Open
+                              </Link>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Requirements</h3>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setEditedRequirement(null);
+                      setShowRequirementForm(true);
+                    }}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Requirement
+                  </Button>
+                </div>
+                {viewedRequirements.length === 0 ? (
+                  <p className="py-2 text-sm text-muted-foreground">
+                    No requirements yet. Record what the buyer is looking for to see matching listings.
+                  </p>
+                ) : (
+                  <ul className="divide-y rounded-md border">
+                    {viewedRequirements.map((requirement) => (
+                      <li key={requirement.id} className="flex flex-col gap-2 p-3 sm:flex-row sm:items-start sm:justify-between">
+                        <div className="min-w-0 space-y-1">
+                          <div className="flex items-center gap-2 text-sm">
+                            <Badge variant={requirement.open ? 'default' : 'secondary'}>{requirement.open ? 'Open' : 'Closed'}</Badge>
+                            <span className="text-muted-foreground">{getAgentName(requirement.agent)}</span>
+                          </div>
+                          {renderCriteria(requirement)}
+                          {requirement.note && <p className="text-sm">{requirement.note}</p>}
+                        </div>
+                        <div className="flex shrink-0 gap-2">
+                          <Button variant="outline" size="sm" title="Matching listings" onClick={() => updateSearch({ requirement: requirement.id })}>
+                            <ListChecks className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Edit"
+                            onClick={() => {
+                              setEditedRequirement(requirement);
+                              setShowRequirementForm(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title={requirement.open ? 'Close' : 'Reopen'}
+                            onClick={() => handleToggleRequirement(requirement)}
+                            disabled={updateRequirement.isPending}
+                          >
+                            {requirement.open ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                          </Button>
+                          <Button variant="outline" size="sm" title="Delete" onClick={() => handleDeleteRequirement(requirement)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <RequirementForm
+        open={showRequirementForm}
+        onOpenChange={setShowRequirementForm}
+        customer={viewedCustomer}
+        requirement={editedRequirement}
+        canAssignToOthers={canAssignToOthers}
+      />
+
+      <RequirementMatchesDialog
+        requirement={matchedRequirement}
+        customerName={customers.find((c) => c.id === matchedRequirement?.customerId)?.name ?? 'the customer'}
+        onOpenChange={(open) => !open && updateSearch({ requirement: undefined }, true)}
+      />
+
+      <CustomerForm open={showAddDialog} onOpenChange={setShowAddDialog} />
+
+      <CustomerForm
+        open={!!editedCustomer}
+        onOpenChange={(open) => !open && updateSearch({ edit: undefined }, true)}
+        customer={editedCustomer}
+      />
+    </div>
+  );
+}
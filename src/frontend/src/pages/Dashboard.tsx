@@ -4,6 +4,9 @@ import { Users, Home, FileText, TrendingUp, Building2, CheckCircle2 } from 'luci
 import { Category, Status, Status__1 } from '../backend';
 import { Skeleton } from '../components/ui/skeleton';
 import AdminResetControl from '../components/AdminResetControl';
+import DemoDataSeedControl from '../components/DemoDataSeedControl';
+import OverdueFollowUpsCard from '../components/OverdueFollowUpsCard';
+import RequirementAlertsCard from '../components/RequirementAlertsCard';
 
 export default function Dashboard() {
   const { data: agents = [], isLoading: agentsLoading } = useGetAllAgents();
@@ -126,6 +129,10 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      <OverdueFollowUpsCard />
+
+      <RequirementAlertsCard />
+
       <div className="mt-8">
         <img 
           src="/assets/generated/dashboard-hero.dim_1200x400.jpg" 
@@ -134,7 +141,8 @@ export default function Dashboard() {
         />
       </div>
 
-      <div className="mt-8">
+      <div className="mt-8 space-y-6">
+        <DemoDataSeedControl />
         <AdminResetControl />
       </div>
     </div>
@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { useGetAllInquiries, useGetAllProperties, useGetAllAgents, useAddInquiry, useUpdateInquiry } from '../hooks/useQueries';
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearch } from '@tanstack/react-router';
+import { useGetAllInquiries, useGetAllProperties, useGetAllAgents, useAddInquiry, useUpdateInquiry, useDeleteInquiry, useMergeInquiries, useIsCallerAdmin, useGetCustomers } from '../hooks/useQueries';
 import { useInternetIdentity } from '../hooks/useInternetIdentity';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
@@ -11,21 +12,36 @@ import { Textarea } from '../components/ui/textarea';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
 import { Badge } from '../components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
-import { Plus, Edit, Loader2, AlertCircle } from 'lucide-react';
-import { Source, Status__1, type Inquiry } from '../backend';
+import { Plus, Edit, Loader2, AlertCircle, Trash2, Merge, CalendarClock, CalendarPlus, Columns3, List, X, CheckCircle2 } from 'lucide-react';
+import { Outcome, Role, Source, Status__1, type Inquiry } from '../backend';
 import { Principal } from '@dfinity/principal';
 import { Alert, AlertDescription } from '../components/ui/alert';
+import InquiryActivityTimeline from '../components/InquiryActivityTimeline';
+import InquiryKanbanBoard from '../components/InquiryKanbanBoard';
+import CloseInquiryDialog from '../components/CloseInquiryDialog';
+import { SOURCE_LABELS } from '../components/AssignmentRuleForm';
+import { OUTCOME_LABELS } from '../utils/inquiryOutcomes';
 import { toast } from 'sonner';
+import { findDuplicateInquiryGroups } from '../utils/inquiryDuplicates';
+import { findCustomerByContact } from '../utils/customers';
+import { fromDateTimeInputValue, isFollowUpDueToday, isFollowUpOverdue, sortByFollowUpDate, toDateTimeInputValue } from '../utils/inquiryFollowUps';
+import type { InquiriesSearch, InquiriesTab } from '../utils/routeSearch';
 
 export default function InquiriesPage() {
   const { data: inquiries = [], isLoading } = useGetAllInquiries();
   const { data: properties = [] } = useGetAllProperties();
   const { data: agents = [] } = useGetAllAgents();
+  const { data: customers = [] } = useGetCustomers();
   const { identity } = useInternetIdentity();
   const addInquiry = useAddInquiry();
   const updateInquiry = useUpdateInquiry();
+  const deleteInquiry = useDeleteInquiry();
+  const mergeInquiries = useMergeInquiries();
+  const { data: isAdmin } = useIsCallerAdmin();
 
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const search = useSearch({ from: '/inquiries' });
+  const navigate = useNavigate({ from: '/inquiries' });
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [selectedInquiry, setSelectedInquiry] = useState<Inquiry | null>(null);
   const [formData, setFormData] = useState({
@@ -36,8 +52,26 @@ export default function InquiriesPage() {
     status: Status__1.new_,
     assignedAgent: '',
     notes: '',
+    followUpAt: '',
+    followUpNote: '',
   });
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [inquiryToDelete, setInquiryToDelete] = useState<Inquiry | null>(null);
+  const [inquiryToClose, setInquiryToClose] = useState<Inquiry | null>(null);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [mergingGroupKey, setMergingGroupKey] = useState<string | null>(null);
+
+  // Only admins and agents can delete or merge inquiries; assistants only see their own
+  const callerAgent = agents.find(a => a.id.toString() === identity?.getPrincipal().toString());
+  const canManageAllInquiries = !!isAdmin || callerAgent?.role === Role.admin || callerAgent?.role === Role.agent;
+  const duplicateGroups = findDuplicateInquiryGroups(inquiries);
+
+  // Repeat buyers are flagged wherever their inquiries are listed
+  const inquiryCountByCustomer = new Map<string, number>();
+  for (const inquiry of inquiries) {
+    inquiryCountByCustomer.set(inquiry.customerId, (inquiryCountByCustomer.get(inquiry.customerId) ?? 0) + 1);
+  }
+  const matchedCustomer = findCustomerByContact(customers, formData.contactInfo);
 
   const validateForm = (isEdit: boolean = false): boolean => {
     const errors: Record<string, string> = {};
@@ -79,11 +113,16 @@ export default function InquiriesPage() {
       errors.assignedAgent = 'Please assign an agent';
     }
 
-    // Notes are required
-    if (!formData.notes.trim()) {
+    // New inquiries open their activity log with a note
+    if (!isEdit && !formData.notes.trim()) {
       errors.notes = 'Notes are required';
     }
 
+    // A reminder note without a due date would never surface anywhere
+    if (isEdit && formData.followUpNote.trim() && !formData.followUpAt) {
+      errors.followUpAt = 'Please set when to follow up';
+    }
+
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -96,10 +135,8 @@ export default function InquiriesPage() {
     }
 
     try {
-      // Determine assigned agent
-      const agentPrincipal = formData.assignedAgent 
-        ? Principal.fromText(formData.assignedAgent)
-        : identity?.getPrincipal() || Principal.anonymous();
+      // Without a chosen agent the backend applies the assignment rules
+      const agentPrincipal = formData.assignedAgent ? Principal.fromText(formData.assignedAgent) : null;
 
       // Submit inquiry
       await addInquiry.mutateAsync({
@@ -141,19 +178,50 @@ export default function InquiriesPage() {
         source: formData.source,
         status: formData.status,
         assignedAgent: agentPrincipal,
-        notes: formData.notes.trim(),
+        followUpAt: fromDateTimeInputValue(formData.followUpAt),
+        followUpNote: formData.followUpNote.trim(),
       });
 
-      // Close dialog and reset
-      setShowEditDialog(false);
-      setSelectedInquiry(null);
-      resetForm();
+      // Close dialog and reset, then ask how the inquiry ended if it was just closed
+      const needsOutcome = formData.status === Status__1.closed && !selectedInquiry.closure;
+      closeEditDialog();
+      if (needsOutcome) setInquiryToClose(selectedInquiry);
     } catch (error: any) {
       console.error('Error updating inquiry:', error);
       // Error toast is already handled by the mutation
     }
   };
 
+  const handleDelete = async () => {
+    if (!inquiryToDelete) return;
+    try {
+      await deleteInquiry.mutateAsync(inquiryToDelete.id);
+      setInquiryToDelete(null);
+    } catch (error: any) {
+      console.error('Error deleting inquiry:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const handleMergeGroup = async (group: Inquiry[]) => {
+    setMergingGroupKey(group[0].id);
+    try {
+      await mergeInquiries.mutateAsync(group.map(i => i.id));
+    } catch (error: any) {
+      console.error('Error merging inquiries:', error);
+      // Error toast is already handled by the mutation
+    } finally {
+      setMergingGroupKey(null);
+    }
+  };
+
+  const handleMergeAll = async () => {
+    for (const group of duplicateGroups) {
+      await handleMergeGroup(group);
+    }
+    setShowMergeDialog(false);
+  };
+
   const resetForm = () => {
     setFormData({
       propertyId: '',
@@ -163,6 +231,8 @@ export default function InquiriesPage() {
       status: Status__1.new_,
       assignedAgent: '',
       notes: '',
+      followUpAt: '',
+      followUpNote: '',
     });
     setValidationErrors({});
   };
@@ -176,12 +246,40 @@ export default function InquiriesPage() {
       source: inquiry.source,
       status: inquiry.status,
       assignedAgent: inquiry.assignedAgent.toString(),
-      notes: inquiry.notes,
+      notes: '',
+      followUpAt: toDateTimeInputValue(inquiry.followUpAt),
+      followUpNote: inquiry.followUpNote,
     });
     setValidationErrors({});
     setShowEditDialog(true);
   };
 
+  // The status tab and the inquiry being edited live in the URL so they can be bookmarked or shared
+  const updateSearch = (changes: Partial<InquiriesSearch>, replace = false) => {
+    navigate({ search: (prev) => ({ ...prev, ...changes }), replace });
+  };
+
+  const closeEditDialog = () => {
+    setShowEditDialog(false);
+    setSelectedInquiry(null);
+    resetForm();
+    updateSearch({ edit: undefined }, true);
+  };
+
+  // Follow the ?edit= param, including links pasted from elsewhere and the back button
+  useEffect(() => {
+    if (!search.edit) {
+      if (showEditDialog) {
+        setShowEditDialog(false);
+        setSelectedInquiry(null);
+      }
+      return;
+    }
+    if (showEditDialog && selectedInquiry?.id === search.edit) return;
+    const inquiry = inquiries.find((i) => i.id === search.edit);
+    if (inquiry) openEditDialog(inquiry);
+  }, [search.edit, inquiries]);
+
   const getStatusBadge = (status: Status__1) => {
     const variants: Record<Status__1, 'default' | 'secondary' | 'outline'> = {
       [Status__1.new_]: 'default',
@@ -198,6 +296,19 @@ export default function InquiriesPage() {
     return <Badge variant={variants[status]}>{labels[status]}</Badge>;
   };
 
+  const getOutcomeBadge = (inquiry: Inquiry) => {
+    if (!inquiry.closure) return null;
+    const won = inquiry.closure.outcome === Outcome.won;
+    return (
+      <Badge
+        variant={won ? 'default' : 'outline'}
+        title={won ? `Final price ₹${Number(inquiry.closure.finalPrice).toLocaleString()}` : inquiry.closure.lostReason}
+      >
+        {OUTCOME_LABELS[inquiry.closure.outcome]}
+      </Badge>
+    );
+  };
+
   const getSourceBadge = (source: Source) => {
     const colors: Record<Source, string> = {
       [Source.website]: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
@@ -221,6 +332,15 @@ export default function InquiriesPage() {
     return inquiries.filter((i) => i.status === status);
   };
 
+  // The board shows the whole pipeline at once, narrowed by agent and source
+  const boardInquiries = inquiries.filter(
+    (i) => (!search.agent || i.assignedAgent.toString() === search.agent) && (!search.source || i.source === search.source)
+  );
+
+  const now = new Date();
+  const overdueInquiries = sortByFollowUpDate(inquiries.filter((i) => isFollowUpOverdue(i, now)));
+  const dueTodayInquiries = sortByFollowUpDate(inquiries.filter((i) => isFollowUpDueToday(i, now)));
+
   const getAgentName = (agentPrincipal: Principal): string => {
     const agent = agents.find(a => a.id.toString() === agentPrincipal.toString());
     return agent?.name || agentPrincipal.toString().substring(0, 10) + '...';
@@ -231,6 +351,11 @@ export default function InquiriesPage() {
     return property?.title || propertyId.substring(0, 30) + '...';
   };
 
+  const formatDate = (time: bigint): string => {
+    // Backend timestamps are in nanoseconds
+    return new Date(Number(time / 1_000_000n)).toLocaleString();
+  };
+
   const InquiryTable = ({ inquiries }: { inquiries: Inquiry[] }) => (
     <div className="overflow-x-auto">
       <Table>
@@ -242,29 +367,88 @@ export default function InquiriesPage() {
             <TableHead>Source</TableHead>
             <TableHead>Assigned Agent</TableHead>
             <TableHead>Status</TableHead>
+            <TableHead>Follow-up</TableHead>
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {inquiries.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+              <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
                 No inquiries found
               </TableCell>
             </TableRow>
           ) : (
             inquiries.map((inquiry) => (
               <TableRow key={inquiry.id}>
-                <TableCell className="font-medium">{inquiry.customerName}</TableCell>
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2">
+                    <Link to="/customers" search={{ customer: inquiry.customerId }} className="hover:underline">
+                      {inquiry.customerName}
+                    </Link>
+                    {(inquiryCountByCustomer.get(inquiry.customerId) ?? 0) > 1 && (
+                      <Badge variant="secondary" title={`${inquiryCountByCustomer.get(inquiry.customerId)} inquiries from this customer`}>
+                        Repeat
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
                 <TableCell className="text-sm">{inquiry.contactInfo}</TableCell>
-                <TableCell className="text-sm max-w-[200px] truncate">{getPropertyTitle(inquiry.propertyId)}</TableCell>
+                <TableCell className="text-sm max-w-[200px] truncate">
+                  <Link to="/properties/$propertyId" params={{ propertyId: inquiry.propertyId }} className="hover:underline">
+                    {getPropertyTitle(inquiry.propertyId)}
+                  </Link>
+                </TableCell>
                 <TableCell>{getSourceBadge(inquiry.source)}</TableCell>
                 <TableCell className="text-sm">{getAgentName(inquiry.assignedAgent)}</TableCell>
-                <TableCell>{getStatusBadge(inquiry.status)}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {getStatusBadge(inquiry.status)}
+                    {getOutcomeBadge(inquiry)}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm max-w-[220px]">
+                  {inquiry.followUpAt === undefined ? (
+                    <span className="text-muted-foreground">—</span>
+                  ) : (
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className={isFollowUpOverdue(inquiry, now) ? 'text-destructive font-medium' : ''}>
+                          {formatDate(inquiry.followUpAt)}
+                        </span>
+                        {isFollowUpOverdue(inquiry, now) && <Badge variant="destructive">Overdue</Badge>}
+                      </div>
+                      {inquiry.followUpNote && (
+                        <p className="text-xs text-muted-foreground truncate" title={inquiry.followUpNote}>
+                          {inquiry.followUpNote}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </TableCell>
                 <TableCell className="text-right">
-                  <Button variant="outline" size="sm" onClick={() => openEditDialog(inquiry)}>
-                    <Edit className="h-4 w-4" />
-                  </Button>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => updateSearch({ edit: inquiry.id })}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    {inquiry.status !== Status__1.closed && (
+                      <Button variant="outline" size="sm" title="Book site visit" asChild>
+                        <Link to="/visits" search={{ schedule: inquiry.id }}>
+                          <CalendarPlus className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    )}
+                    {!inquiry.closure && (
+                      <Button variant="outline" size="sm" title="Close with outcome" onClick={() => setInquiryToClose(inquiry)}>
+                        <CheckCircle2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canManageAllInquiries && (
+                      <Button variant="outline" size="sm" title="Delete" onClick={() => setInquiryToDelete(inquiry)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
                 </TableCell>
               </TableRow>
             ))
@@ -281,29 +465,106 @@ export default function InquiriesPage() {
           <h1 className="mb-2 text-3xl font-bold">Inquiries Management</h1>
           <p className="text-muted-foreground">Track and manage customer inquiries</p>
         </div>
-        <Button onClick={() => { resetForm(); setShowAddDialog(true); }}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Inquiry
-        </Button>
+        <div className="flex gap-2">
+          {canManageAllInquiries && (
+            <Button variant="outline" onClick={() => setShowMergeDialog(true)} disabled={duplicateGroups.length === 0}>
+              <Merge className="mr-2 h-4 w-4" />
+              Merge Duplicates ({duplicateGroups.length})
+            </Button>
+          )}
+          <Button onClick={() => { resetForm(); setShowAddDialog(true); }}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Inquiry
+          </Button>
+        </div>
       </div>
 
       <Card>
-        <CardHeader>
-          <CardTitle>All Inquiries</CardTitle>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>{search.board ? 'Pipeline' : 'All Inquiries'}</CardTitle>
+          <div className="flex gap-2">
+            <Button variant={search.board ? 'outline' : 'default'} size="sm" onClick={() => updateSearch({ board: undefined })}>
+              <List className="mr-2 h-4 w-4" />
+              Table
+            </Button>
+            <Button variant={search.board ? 'default' : 'outline'} size="sm" onClick={() => updateSearch({ board: true })}>
+              <Columns3 className="mr-2 h-4 w-4" />
+              Board
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
             <div className="flex justify-center py-8">
               <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
             </div>
+          ) : search.board ? (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={search.agent ?? 'all'}
+                  onValueChange={(value) => updateSearch({ agent: value === 'all' ? undefined : value }, true)}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All agents</SelectItem>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id.toString()} value={agent.id.toString()}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={search.source ?? 'all'}
+                  onValueChange={(value) => updateSearch({ source: value === 'all' ? undefined : (value as Source) }, true)}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All sources</SelectItem>
+                    {Object.values(Source).map((source) => (
+                      <SelectItem key={source} value={source}>
+                        {SOURCE_LABELS[source]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(search.agent || search.source) && (
+                  <Button variant="ghost" size="sm" onClick={() => updateSearch({ agent: undefined, source: undefined }, true)}>
+                    <X className="mr-2 h-4 w-4" />
+                    Clear filters
+                  </Button>
+                )}
+                <p className="ml-auto text-sm text-muted-foreground">Drag a card to another column to change its status</p>
+              </div>
+              <InquiryKanbanBoard
+                inquiries={boardInquiries}
+                getAgentName={getAgentName}
+                getPropertyTitle={getPropertyTitle}
+                canMove={(inquiry) => canManageAllInquiries || inquiry.assignedAgent.toString() === identity?.getPrincipal().toString()}
+                onOpen={(inquiry) => updateSearch({ edit: inquiry.id })}
+                onCloseRequest={setInquiryToClose}
+              />
+            </div>
           ) : (
-            <Tabs defaultValue="all">
+            <Tabs
+              value={search.tab ?? 'all'}
+              onValueChange={(tab) => updateSearch({ tab: tab === 'all' ? undefined : (tab as InquiriesTab) })}
+            >
               <TabsList className="mb-4 flex-wrap h-auto">
                 <TabsTrigger value="all">All ({inquiries.length})</TabsTrigger>
                 <TabsTrigger value="new">New ({filterByStatus(Status__1.new_).length})</TabsTrigger>
                 <TabsTrigger value="inProgress">In Progress ({filterByStatus(Status__1.inProgress).length})</TabsTrigger>
                 <TabsTrigger value="followUp">Follow Up ({filterByStatus(Status__1.followUp).length})</TabsTrigger>
                 <TabsTrigger value="closed">Closed ({filterByStatus(Status__1.closed).length})</TabsTrigger>
+                <TabsTrigger value="overdue" className={overdueInquiries.length > 0 ? 'text-destructive' : ''}>
+                  Overdue ({overdueInquiries.length})
+                </TabsTrigger>
+                <TabsTrigger value="dueToday">Due Today ({dueTodayInquiries.length})</TabsTrigger>
               </TabsList>
               <TabsContent value="all">
                 <InquiryTable inquiries={inquiries} />
@@ -320,6 +581,12 @@ export default function InquiriesPage() {
               <TabsContent value="closed">
                 <InquiryTable inquiries={filterByStatus(Status__1.closed)} />
               </TabsContent>
+              <TabsContent value="overdue">
+                <InquiryTable inquiries={overdueInquiries} />
+              </TabsContent>
+              <TabsContent value="dueToday">
+                <InquiryTable inquiries={dueTodayInquiries} />
+              </TabsContent>
             </Tabs>
           )}
         </CardContent>
@@ -362,6 +629,32 @@ export default function InquiriesPage() {
               )}
             </div>
 
+            {customers.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="add-existing-customer">Existing Customer</Label>
+                <Select
+                  value={matchedCustomer?.id ?? ''}
+                  onValueChange={(value) => {
+                    const customer = customers.find((c) => c.id === value);
+                    if (customer) {
+                      setFormData({ ...formData, customerName: customer.name, contactInfo: customer.phone || customer.email });
+                    }
+                  }}
+                >
+                  <SelectTrigger id="add-existing-customer">
+                    <SelectValue placeholder="New customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customers.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id}>
+                        {customer.name} · {customer.phone || customer.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="add-customer-name">Customer Name <span className="text-destructive">*</span></Label>
               <Input
@@ -388,6 +681,12 @@ export default function InquiriesPage() {
               {validationErrors.contactInfo && (
                 <p className="text-sm text-destructive">{validationErrors.contactInfo}</p>
               )}
+              {!validationErrors.contactInfo && matchedCustomer && (
+                <p className="text-sm text-muted-foreground">
+                  Will be linked to {matchedCustomer.name}, who has {inquiryCountByCustomer.get(matchedCustomer.id) ?? 0} other
+                  {(inquiryCountByCustomer.get(matchedCustomer.id) ?? 0) === 1 ? ' inquiry' : ' inquiries'}
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -410,7 +709,7 @@ export default function InquiriesPage() {
               <Label htmlFor="add-assigned-agent">Assigned Agent (Optional)</Label>
               <Select value={formData.assignedAgent} onValueChange={(value) => setFormData({ ...formData, assignedAgent: value })}>
                 <SelectTrigger id="add-assigned-agent">
-                  <SelectValue placeholder="Assign to yourself by default" />
+                  <SelectValue placeholder="Assign automatically using assignment rules" />
                 </SelectTrigger>
                 <SelectContent>
                   {agents.filter(a => a.active).map((agent) => (
@@ -451,7 +750,7 @@ export default function InquiriesPage() {
       </Dialog>
 
       {/* Edit Inquiry Dialog */}
-      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+      <Dialog open={showEditDialog} onOpenChange={(open) => !open && closeEditDialog()}>
         <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Inquiry</DialogTitle>
@@ -525,6 +824,19 @@ export default function InquiriesPage() {
                   <SelectItem value={Status__1.closed}>Closed</SelectItem>
                 </SelectContent>
               </Select>
+              {selectedInquiry?.closure && formData.status === Status__1.closed && (
+                <p className="text-sm text-muted-foreground">
+                  {selectedInquiry.closure.outcome === Outcome.won
+                    ? `Won at ₹${Number(selectedInquiry.closure.finalPrice).toLocaleString()}`
+                    : `Lost: ${selectedInquiry.closure.lostReason}`}
+                </p>
+              )}
+              {selectedInquiry?.closure && formData.status !== Status__1.closed && (
+                <p className="text-sm text-muted-foreground">Reopening clears the recorded outcome</p>
+              )}
+              {!selectedInquiry?.closure && formData.status === Status__1.closed && (
+                <p className="text-sm text-muted-foreground">You'll be asked how the inquiry ended after saving</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -547,23 +859,50 @@ export default function InquiriesPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="edit-notes">Notes <span className="text-destructive">*</span></Label>
-              <Textarea
-                id="edit-notes"
-                value={formData.notes}
-                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                placeholder="Enter inquiry notes and details"
-                rows={4}
-                className={validationErrors.notes ? 'border-destructive' : ''}
-              />
-              {validationErrors.notes && (
-                <p className="text-sm text-destructive">{validationErrors.notes}</p>
+              <Label htmlFor="edit-follow-up-at" className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4" />
+                Follow-up Due
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="edit-follow-up-at"
+                  type="datetime-local"
+                  value={formData.followUpAt}
+                  onChange={(e) => setFormData({ ...formData, followUpAt: e.target.value })}
+                  className={validationErrors.followUpAt ? 'border-destructive' : ''}
+                />
+                {formData.followUpAt && (
+                  <Button variant="outline" onClick={() => setFormData({ ...formData, followUpAt: '', followUpNote: '' })}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+              {validationErrors.followUpAt && (
+                <p className="text-sm text-destructive">{validationErrors.followUpAt}</p>
               )}
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-follow-up-note">Reminder Note</Label>
+              <Input
+                id="edit-follow-up-note"
+                value={formData.followUpNote}
+                onChange={(e) => setFormData({ ...formData, followUpNote: e.target.value })}
+                placeholder="e.g. Send the revised floor plan"
+              />
+            </div>
+
+            {selectedInquiry && (
+              <div className="space-y-2">
+                <Label>Activity</Label>
+                {/* Read the live record so newly logged entries show up straight away */}
+                <InquiryActivityTimeline inquiry={inquiries.find((i) => i.id === selectedInquiry.id) ?? selectedInquiry} />
+              </div>
+            )}
           </div>
 
           <DialogFooter>
-            <Button variant="outline" onClick={() => { setShowEditDialog(false); setSelectedInquiry(null); resetForm(); }}>
+            <Button variant="outline" onClick={closeEditDialog}>
               Cancel
             </Button>
             <Button onClick={handleEdit} disabled={updateInquiry.isPending}>
@@ -573,6 +912,91 @@ export default function InquiriesPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Merge Duplicate Inquiries Dialog */}
+      <Dialog open={showMergeDialog} onOpenChange={setShowMergeDialog}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Merge Duplicate Inquiries</DialogTitle>
+            <DialogDescription>
+              Inquiries with the same contact for the same property are folded into the earliest one. Activity from all
+              duplicates is combined into one timeline and the rest are removed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {duplicateGroups.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-8">No duplicate inquiries found</p>
+            ) : (
+              duplicateGroups.map((group) => (
+                <div key={group[0].id} className="rounded-lg border p-4">
+                  <div className="mb-3 flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{group[0].contactInfo}</p>
+                      <p className="text-sm text-muted-foreground">{getPropertyTitle(group[0].propertyId)}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => handleMergeGroup(group)}
+                      disabled={mergeInquiries.isPending}
+                    >
+                      {mergingGroupKey === group[0].id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Merge {group.length}
+                    </Button>
+                  </div>
+                  <div className="space-y-2">
+                    {group.map((inquiry, index) => (
+                      <div key={inquiry.id} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{inquiry.customerName}</span>
+                          {getSourceBadge(inquiry.source)}
+                          {getStatusBadge(inquiry.status)}
+                          {index === 0 && <Badge variant="outline">Kept</Badge>}
+                        </div>
+                        <span className="text-muted-foreground">{formatDate(inquiry.createdAt)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowMergeDialog(false)}>
+              Close
+            </Button>
+            <Button onClick={handleMergeAll} disabled={duplicateGroups.length === 0 || mergeInquiries.isPending}>
+              {mergeInquiries.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge All
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Close Inquiry With Outcome Dialog */}
+      <CloseInquiryDialog inquiry={inquiryToClose} onOpenChange={(open) => !open && setInquiryToClose(null)} />
+
+      {/* Delete Inquiry Confirmation Dialog */}
+      <Dialog open={!!inquiryToDelete} onOpenChange={(open) => !open && setInquiryToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Inquiry</DialogTitle>
+            <DialogDescription>
+              This permanently removes the inquiry from {inquiryToDelete?.customerName}. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInquiryToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleteInquiry.isPending}>
+              {deleteInquiry.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Inquiry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,343 @@
+import { useMemo } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import { useGetPublicListings } from '../hooks/useQueries';
+import { Button } from '../components/ui/button';
+import { Card, CardContent } from '../components/ui/card';
+import { Badge } from '../components/ui/badge';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '../components/ui/carousel';
+import { Image as ImageIcon, LayoutGrid, Loader2, Map as MapIcon, MapPin, X } from 'lucide-react';
+import { Category, Configuration, Furnishing, PropertyType, type PublicListing } from '../backend';
+import PropertyMap from '../components/PropertyMap';
+import PublicInquiryForm from '../components/PublicInquiryForm';
+import type { ListingsSearch } from '../utils/routeSearch';
+
+const CATEGORY_LABELS: Record<Category, string> = {
+  [Category.resale]: 'Resale',
+  [Category.rental]: 'Rental',
+  [Category.underConstruction]: 'Under Construction',
+};
+
+const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  [PropertyType.residential]: 'Residential',
+  [PropertyType.commercial]: 'Commercial',
+  [PropertyType.industrial]: 'Industrial',
+};
+
+const CONFIGURATION_LABELS: Record<Configuration, string> = {
+  [Configuration.rk1]: '1 RK',
+  [Configuration.bhk1]: '1 BHK',
+  [Configuration.bhk1_5]: '1.5 BHK',
+  [Configuration.bhk2]: '2 BHK',
+  [Configuration.bhk2_5]: '2.5 BHK',
+  [Configuration.bhk3]: '3 BHK',
+  [Configuration.bhk3_5]: '3.5 BHK',
+  [Configuration.bhk4]: '4 BHK',
+  [Configuration.bhk5]: '5 BHK',
+  [Configuration.jodiFlat]: 'Jodi Flat',
+  [Configuration.duplex]: 'Duplex',
+  [Configuration.penthouse]: 'Penthouse',
+  [Configuration.bungalow]: 'Bungalow',
+  [Configuration.independentHouse]: 'Independent House',
+};
+
+const FURNISHING_LABELS: Record<Furnishing, string> = {
+  [Furnishing.unfurnished]: 'Unfurnished',
+  [Furnishing.semiFurnished]: 'Semi Furnished',
+  [Furnishing.furnished]: 'Furnished',
+};
+
+const ALL = 'all';
+
+export default function ListingsPage() {
+  const search = useSearch({ from: '/listings' });
+  const navigate = useNavigate({ from: '/listings' });
+  const { data: listings = [], isLoading } = useGetPublicListings();
+
+  const updateSearch = (changes: Partial<ListingsSearch>, replace = false) => {
+    navigate({ search: (prev) => ({ ...prev, ...changes }), replace });
+  };
+
+  const suburbs = useMemo(
+    () => Array.from(new Set(listings.map((p) => p.location.suburb).filter(Boolean))).sort(),
+    [listings]
+  );
+
+  const filteredListings = useMemo(
+    () =>
+      listings.filter((property) => {
+        if (search.category && property.category !== search.category) return false;
+        if (search.propertyType && property.propertyType !== search.propertyType) return false;
+        if (search.configuration && property.configuration !== search.configuration) return false;
+        if (search.suburb && property.location.suburb !== search.suburb) return false;
+        const price = Number(property.price);
+        if (search.minPrice !== undefined && price < search.minPrice) return false;
+        if (search.maxPrice !== undefined && price > search.maxPrice) return false;
+        return true;
+      }),
+    [listings, search.category, search.propertyType, search.configuration, search.suburb, search.minPrice, search.maxPrice]
+  );
+
+  // A shared link may point at a listing that has since been sold or withdrawn
+  const selectedProperty = search.property ? listings.find((p) => p.id === search.property) : undefined;
+
+  const hasFilters =
+    !!search.category || !!search.propertyType || !!search.configuration || !!search.suburb ||
+    search.minPrice !== undefined || search.maxPrice !== undefined;
+
+  const clearFilters = () => {
+    updateSearch(
+      {
+        category: undefined,
+        propertyType: undefined,
+        configuration: undefined,
+        suburb: undefined,
+        minPrice: undefined,
+        maxPrice: undefined,
+      },
+      true
+    );
+  };
+
+  const handlePriceChange = (field: 'minPrice' | 'maxPrice', value: string) => {
+    const parsed = Number(value);
+    updateSearch({ [field]: value && Number.isFinite(parsed) ? parsed : undefined }, true);
+  };
+
+  const openProperty = (property: PublicListing) => updateSearch({ property: property.id });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="mb-2 text-3xl font-bold">Available Properties</h1>
+          <p className="text-muted-foreground">Browse homes and commercial spaces listed by MAA member agents</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant={search.map ? 'outline' : 'default'} size="sm" onClick={() => updateSearch({ map: undefined })}>
+            <LayoutGrid className="mr-2 h-4 w-4" />
+            Grid
+          </Button>
+          <Button variant={search.map ? 'default' : 'outline'} size="sm" onClick={() => updateSearch({ map: true })}>
+            <MapIcon className="mr-2 h-4 w-4" />
+            Map
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="grid gap-4 pt-6 sm:grid-cols-2 lg:grid-cols-6">
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={search.category ?? ALL} onValueChange={(value) => updateSearch({ category: value === ALL ? undefined : (value as Category) }, true)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Categories</SelectItem>
+                {Object.values(Category).map((category) => (
+                  <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Property Type</Label>
+            <Select value={search.propertyType ?? ALL} onValueChange={(value) => updateSearch({ propertyType: value === ALL ? undefined : (value as PropertyType) }, true)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Types</SelectItem>
+                {Object.values(PropertyType).map((type) => (
+                  <SelectItem key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Configuration</Label>
+            <Select value={search.configuration ?? ALL} onValueChange={(value) => updateSearch({ configuration: value === ALL ? undefined : (value as Configuration) }, true)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any Configuration</SelectItem>
+                {Object.values(Configuration).map((configuration) => (
+                  <SelectItem key={configuration} value={configuration}>{CONFIGURATION_LABELS[configuration]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Suburb</Label>
+            <Select value={search.suburb ?? ALL} onValueChange={(value) => updateSearch({ suburb: value === ALL ? undefined : value }, true)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Suburbs</SelectItem>
+                {suburbs.map((suburb) => (
+                  <SelectItem key={suburb} value={suburb}>{suburb}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="listings-min-price">Min Price (₹)</Label>
+            <Input
+              id="listings-min-price"
+              type="number"
+              min={0}
+              value={search.minPrice ?? ''}
+              onChange={(e) => handlePriceChange('minPrice', e.target.value)}
+              placeholder="No minimum"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="listings-max-price">Max Price (₹)</Label>
+            <Input
+              id="listings-max-price"
+              type="number"
+              min={0}
+              value={search.maxPrice ?? ''}
+              onChange={(e) => handlePriceChange('maxPrice', e.target.value)}
+              placeholder="No maximum"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="mb-4 flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {filteredListings.length} of {listings.length} properties
+        </p>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="mr-2 h-4 w-4" />
+            Clear Filters
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : search.map ? (
+        <div className="h-[600px] w-full overflow-hidden rounded-lg border">
+          <PropertyMap properties={filteredListings} showDetailsLink={false} onPropertyClick={openProperty} />
+        </div>
+      ) : filteredListings.length === 0 ? (
+        <div className="py-16 text-center text-muted-foreground">
+          {listings.length === 0 ? 'No properties are available right now' : 'No properties match your filters'}
+        </div>
+      ) : (
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {filteredListings.map((property) => (
+            <Card
+              key={property.id}
+              className="cursor-pointer overflow-hidden transition-shadow hover:shadow-lg"
+              onClick={() => openProperty(property)}
+            >
+              {property.images.length > 0 ? (
+                <img
+                  src={property.images[0].getDirectURL()}
+                  alt={property.title}
+                  className="aspect-video w-full object-cover"
+                />
+              ) : (
+                <div className="flex aspect-video items-center justify-center bg-muted text-muted-foreground">
+                  <ImageIcon className="h-10 w-10" />
+                </div>
+              )}
+              <CardContent className="space-y-2 pt-4">
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="font-semibold">{property.title}</h3>
+                  <Badge variant="outline">{CATEGORY_LABELS[property.category]}</Badge>
+                </div>
+                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <MapPin className="h-3 w-3" />
+                  {property.location.area}, {property.location.suburb}
+                </p>
+                <div className="flex items-center justify-between">
+                  <span className="text-lg font-bold">₹{Number(property.price).toLocaleString()}</span>
+                  <span className="text-sm text-muted-foreground">{CONFIGURATION_LABELS[property.configuration]}</span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selectedProperty} onOpenChange={(open) => !open && updateSearch({ property: undefined }, true)}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          {selectedProperty && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedProperty.title}</DialogTitle>
+                <DialogDescription className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  {selectedProperty.location.roadName && `${selectedProperty.location.roadName}, `}
+                  {selectedProperty.location.area}, {selectedProperty.location.suburb}, {selectedProperty.location.city}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-6">
+                {selectedProperty.images.length > 0 && (
+                  <Carousel className="mx-12">
+                    <CarouselContent>
+                      {selectedProperty.images.map((image, index) => (
+                        <CarouselItem key={index}>
+                          <img
+                            src={image.getDirectURL()}
+                            alt={`${selectedProperty.title} image ${index + 1}`}
+                            className="aspect-video w-full rounded-lg object-cover"
+                          />
+                        </CarouselItem>
+                      ))}
+                    </CarouselContent>
+                    {selectedProperty.images.length > 1 && (
+                      <>
+                        <CarouselPrevious />
+                        <CarouselNext />
+                      </>
+                    )}
+                  </Carousel>
+                )}
+                <div className="text-2xl font-bold">₹{Number(selectedProperty.price).toLocaleString()}</div>
+                {selectedProperty.description && (
+                  <p className="whitespace-pre-line text-sm">{selectedProperty.description}</p>
+                )}
+                <dl className="grid gap-4 text-sm sm:grid-cols-4">
+                  <div>
+                    <dt className="text-muted-foreground">Category</dt>
+                    <dd className="font-medium">{CATEGORY_LABELS[selectedProperty.category]}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Property Type</dt>
+                    <dd className="font-medium">{PROPERTY_TYPE_LABELS[selectedProperty.propertyType]}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Configuration</dt>
+                    <dd className="font-medium">{CONFIGURATION_LABELS[selectedProperty.configuration]}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Furnishing</dt>
+                    <dd className="font-medium">{FURNISHING_LABELS[selectedProperty.furnishing]}</dd>
+                  </div>
+                </dl>
+                <div className="rounded-lg border p-4">
+                  <h3 className="mb-4 font-semibold">Interested in this property?</h3>
+                  <PublicInquiryForm key={selectedProperty.id} property={selectedProperty} />
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useGetAllProperties, useSearchAndFilterProperties, useAddProperty, useUpdateProperty } from '../hooks/useQueries';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link, useNavigate, useSearch } from '@tanstack/react-router';
+import { useGetAllProperties, useSearchAndFilterProperties, useAdvancedFilterProperties, useAddProperty, useUpdateProperty, useGetArchivedProperties, useArchiveProperty, useUnarchiveProperty, useDeleteProperty, useIsCallerAdmin, useGetAllPriceHistories, useGetZones, useDeleteZone } from '../hooks/useQueries';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
@@ -12,14 +13,34 @@ import { Badge } from '../components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { Switch } from '../components/ui/switch';
 import { Alert, AlertDescription } from '../components/ui/alert';
-import { Plus, Edit, Loader2, MapPin, Map as MapIcon, Layers, Upload, X, Image as ImageIcon, AlertCircle } from 'lucide-react';
-import { Category, Status, PropertyType, Configuration, Furnishing, type Property, type Coordinates, type SearchCriteria, ExternalBlob } from '../backend';
+import { Plus, Edit, Loader2, MapPin, Map as MapIcon, Layers, Upload, X, Image as ImageIcon, AlertCircle, Archive, ArchiveRestore, Trash2, FileUp, SlidersHorizontal, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import { Category, Status, PropertyType, Configuration, Furnishing, type Property, type Coordinates, type Zone, ExternalBlob } from '../backend';
 import PropertyMap, { type MapFilters } from '../components/PropertyMap';
+import PropertyImportDialog from '../components/PropertyImportDialog';
+import PropertyBulkActionsBar from '../components/PropertyBulkActionsBar';
+import PropertyHistoryTimeline from '../components/PropertyHistoryTimeline';
+import PriceHistoryChart from '../components/PriceHistoryChart';
+import PriceSparkline from '../components/PriceSparkline';
+import MapPresetsBar from '../components/MapPresetsBar';
+import AdvancedFilterPanel from '../components/AdvancedFilterPanel';
+import ZoneSaveDialog from '../components/ZoneSaveDialog';
+import { mapFiltersFromSearch, type PropertiesSearch, type PropertiesSort, type PropertiesTab } from '../utils/routeSearch';
+import { mapFiltersToCriteria } from '../utils/mapPresets';
+import { countAdvancedCriteria, fromAdvancedSearch, toAdvancedSearch } from '../utils/advancedFilter';
+import { filterByZone } from '../utils/zones';
+import { distanceKm, formatDistance, getRadiusCenter, sortByDistance } from '../utils/geo';
 import { toast } from 'sonner';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
 const ALLOWED_FILE_TYPES = ['image/jpeg', 'image/png', 'image/jpg'];
 
+// Clicking the Distance header cycles nearest first, farthest first, then the default order
+const NEXT_DISTANCE_SORT: Record<PropertiesSort | 'none', PropertiesSort | undefined> = {
+  none: 'nearest',
+  nearest: 'farthest',
+  farthest: undefined,
+};
+
 interface ImagePreview {
   blob: ExternalBlob;
   url: string;
@@ -30,14 +51,23 @@ export default function PropertiesPage() {
   const { data: allProperties = [], isLoading: allPropertiesLoading } = useGetAllProperties();
   const addProperty = useAddProperty();
   const updateProperty = useUpdateProperty();
+  const { data: archivedProperties = [], isLoading: archivedPropertiesLoading } = useGetArchivedProperties();
+  const archiveProperty = useArchiveProperty();
+  const unarchiveProperty = useUnarchiveProperty();
+  const deleteProperty = useDeleteProperty();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { data: priceHistories } = useGetAllPriceHistories();
+  const search = useSearch({ from: '/properties' });
+  const navigate = useNavigate({ from: '/properties' });
 
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
-  const [showMapView, setShowMapView] = useState(false);
   const [showClustering, setShowClustering] = useState(true);
   const [showRadiusCircles, setShowRadiusCircles] = useState(false);
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
   const [selectedPropertyIds, setSelectedPropertyIds] = useState<string[]>([]);
+  const [propertyToDelete, setPropertyToDelete] = useState<Property | null>(null);
   const [imagePreviews, setImagePreviews] = useState<ImagePreview[]>([]);
   const [uploadError, setUploadError] = useState<string>('');
   const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({});
@@ -57,34 +87,47 @@ export default function PropertiesPage() {
     coordinates: { lat: 19.0760, lng: 72.8777 } as Coordinates,
   });
 
-  // Filter state for map - real-time filtering
-  const [mapFilters, setMapFilters] = useState<MapFilters>({});
+  // Tab, map view, map filters and the property being edited live in the URL
+  // so that any view of this page can be bookmarked or shared
+  const showMapView = !!search.map;
+  const mapFilters = useMemo(() => mapFiltersFromSearch(search), [search]);
   const [useFilters, setUseFilters] = useState(false);
+  const [appliedMapFilters, setAppliedMapFilters] = useState<MapFilters | undefined>(undefined);
+  const advancedFilter = useMemo(() => fromAdvancedSearch(search.advanced), [search.advanced]);
+  const [showAdvancedFilters, setShowAdvancedFilters] = useState(!!search.advanced);
+  const { data: zones = [] } = useGetZones();
+  const deleteZone = useDeleteZone();
+  const [drawnZonePoints, setDrawnZonePoints] = useState<Coordinates[] | null>(null);
 
-  // Build search criteria from map filters for real-time updates
-  const searchCriteria: SearchCriteria = {
-    category: mapFilters.category,
-    propertyType: mapFilters.propertyType,
-    configuration: mapFilters.configuration,
-    furnishing: mapFilters.furnishing,
-    minPrice: mapFilters.minPrice ? BigInt(mapFilters.minPrice) : undefined,
-    maxPrice: mapFilters.maxPrice ? BigInt(mapFilters.maxPrice) : undefined,
-    status: mapFilters.status,
-    lat: mapFilters.centerLat,
-    lng: mapFilters.centerLng,
-    radius: mapFilters.radiusKm,
-    city: mapFilters.city,
-    suburb: mapFilters.suburb,
-    area: mapFilters.area,
-    roadName: mapFilters.roadName,
+  const updateSearch = (changes: Partial<PropertiesSearch>, replace = false) => {
+    navigate({ search: (prev) => ({ ...prev, ...changes }), replace });
   };
 
+  // Build search criteria from map filters for real-time updates
+  const searchCriteria = mapFiltersToCriteria(mapFilters);
+
   // Use filtered properties when filters are active - real-time query
   const { data: filteredProperties = [], isLoading: filteredLoading } = useSearchAndFilterProperties(searchCriteria);
   
+  // Multi-select filters go to advancedFilterProperties and narrow whatever the map filters leave
+  const { data: advancedProperties = [], isLoading: advancedLoading } = useAdvancedFilterProperties(search.advanced);
+  
   // Determine which properties to display
-  const properties = useFilters ? filteredProperties : allProperties;
-  const isLoading = useFilters ? filteredLoading : allPropertiesLoading;
+  const mapProperties = filterByZone(
+    useFilters ? filteredProperties : allProperties,
+    zones.find((z) => z.id === mapFilters.zoneId)
+  );
+  const matchingProperties = search.advanced
+    ? advancedProperties.filter((p) => mapProperties.some((m) => m.id === p.id))
+    : mapProperties;
+  // While a radius is set each row shows its distance from the centre and can be sorted by it
+  const radiusCenter = getRadiusCenter(mapFilters);
+  const properties =
+    radiusCenter && search.sort
+      ? sortByDistance(matchingProperties, radiusCenter, search.sort === 'farthest')
+      : matchingProperties;
+  const isLoading = (useFilters ? filteredLoading : allPropertiesLoading) || (!!search.advanced && advancedLoading);
+  const selectedProperties = properties.filter(p => selectedPropertyIds.includes(p.id));
 
   // Update useFilters when map filters change - real-time detection
   useEffect(() => {
@@ -218,14 +261,54 @@ export default function PropertiesPage() {
         status: formData.status,
         images,
       });
-      setShowEditDialog(false);
-      setSelectedProperty(null);
-      resetForm();
+      closeEditDialog();
     } catch (error) {
       console.error('Error updating property:', error);
     }
   };
 
+  const closeEditDialog = () => {
+    setShowEditDialog(false);
+    setSelectedProperty(null);
+    resetForm();
+    updateSearch({ edit: undefined }, true);
+  };
+
+  const closeEditDialogFor = (propertyId: string) => {
+    if (selectedProperty?.id === propertyId) {
+      closeEditDialog();
+    }
+    setSelectedPropertyIds(prev => prev.filter(id => id !== propertyId));
+  };
+
+  const handleArchive = async (property: Property) => {
+    try {
+      await archiveProperty.mutateAsync(property.id);
+      closeEditDialogFor(property.id);
+    } catch (error) {
+      console.error('Error archiving property:', error);
+    }
+  };
+
+  const handleUnarchive = async (property: Property) => {
+    try {
+      await unarchiveProperty.mutateAsync(property.id);
+    } catch (error) {
+      console.error('Error restoring property:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!propertyToDelete) return;
+    try {
+      await deleteProperty.mutateAsync(propertyToDelete.id);
+      closeEditDialogFor(propertyToDelete.id);
+      setPropertyToDelete(null);
+    } catch (error) {
+      console.error('Error deleting property:', error);
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -285,6 +368,21 @@ export default function PropertiesPage() {
     setShowEditDialog(true);
   };
 
+  // Follow the ?edit= param, including links pasted from elsewhere and the back button
+  useEffect(() => {
+    if (!search.edit) {
+      if (showEditDialog) {
+        setShowEditDialog(false);
+        setSelectedProperty(null);
+      }
+      return;
+    }
+    if (showEditDialog && selectedProperty?.id === search.edit) return;
+    const property =
+      allProperties.find((p) => p.id === search.edit) ?? archivedProperties.find((p) => p.id === search.edit);
+    if (property) openEditDialog(property);
+  }, [search.edit, allProperties, archivedProperties]);
+
   const handleCoordinatesChange = (coords: Coordinates) => {
     setFormData(prev => ({ ...prev, coordinates: coords }));
   };
@@ -311,11 +409,25 @@ export default function PropertiesPage() {
   };
 
   const handleMapFilterChange = (filters: MapFilters) => {
-    setMapFilters(filters);
+    updateSearch(filters, true);
+  };
+
+  // Replaces the map's own filters too, e.g. when a preset or a new zone is applied
+  const applyMapFilters = (filters: MapFilters) => {
+    updateSearch(filters, true);
+    setAppliedMapFilters(filters);
+  };
+
+  const handleZoneDelete = (zone: Zone) => {
+    if (confirm(`Are you sure you want to delete the zone "${zone.name}"?`)) {
+      deleteZone.mutate(zone.id, {
+        onSuccess: () => applyMapFilters({ ...mapFilters, zoneId: undefined }),
+      });
+    }
   };
 
   const handlePropertyClick = (property: Property) => {
-    openEditDialog(property);
+    updateSearch({ edit: property.id });
   };
 
   const getCategoryBadge = (category: Category) => {
@@ -399,26 +511,43 @@ export default function PropertiesPage() {
       <Table>
         <TableHeader>
           <TableRow>
-            {showMapView && (
-              <TableHead className="w-12">
-                <input
-                  type="checkbox"
-                  checked={selectedPropertyIds.length === properties.length && properties.length > 0}
-                  onChange={(e) => {
-                    if (e.target.checked) {
-                      setSelectedPropertyIds(properties.map(p => p.id));
-                    } else {
-                      setSelectedPropertyIds([]);
-                    }
-                  }}
-                  className="h-4 w-4 rounded border-gray-300"
-                />
-              </TableHead>
-            )}
+            <TableHead className="w-12">
+              <input
+                type="checkbox"
+                checked={properties.length > 0 && properties.every(p => selectedPropertyIds.includes(p.id))}
+                onChange={(e) => {
+                  if (e.target.checked) {
+                    setSelectedPropertyIds(prev => [...new Set([...prev, ...properties.map(p => p.id)])]);
+                  } else {
+                    setSelectedPropertyIds(prev => prev.filter(id => !properties.some(p => p.id === id)));
+                  }
+                }}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+            </TableHead>
             <TableHead>Title</TableHead>
             <TableHead>Images</TableHead>
             <TableHead>Location</TableHead>
             <TableHead>Price</TableHead>
+            {radiusCenter && (
+              <TableHead>
+                <button
+                  type="button"
+                  className="flex items-center gap-1 hover:text-foreground"
+                  onClick={() => updateSearch({ sort: NEXT_DISTANCE_SORT[search.sort ?? 'none'] }, true)}
+                >
+                  Distance
+                  {search.sort === 'nearest' ? (
+                    <ArrowUp className="h-3 w-3" />
+                  ) : search.sort === 'farthest' ? (
+                    <ArrowDown className="h-3 w-3" />
+                  ) : (
+                    <ArrowUpDown className="h-3 w-3" />
+                  )}
+                </button>
+              </TableHead>
+            )}
+            <TableHead>Price Trend</TableHead>
             <TableHead>Category</TableHead>
             <TableHead>Property Type</TableHead>
             <TableHead>Configuration</TableHead>
@@ -430,24 +559,26 @@ export default function PropertiesPage() {
         <TableBody>
           {properties.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={showMapView ? 11 : 10} className="text-center text-muted-foreground">
+              <TableCell colSpan={radiusCenter ? 13 : 12} className="text-center text-muted-foreground">
                 No properties found
               </TableCell>
             </TableRow>
           ) : (
             properties.map((property) => (
               <TableRow key={property.id}>
-                {showMapView && (
-                  <TableCell>
-                    <input
-                      type="checkbox"
-                      checked={selectedPropertyIds.includes(property.id)}
-                      onChange={() => togglePropertySelection(property.id)}
-                      className="h-4 w-4 rounded border-gray-300"
-                    />
-                  </TableCell>
-                )}
-                <TableCell className="font-medium">{property.title}</TableCell>
+                <TableCell>
+                  <input
+                    type="checkbox"
+                    checked={selectedPropertyIds.includes(property.id)}
+                    onChange={() => togglePropertySelection(property.id)}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                </TableCell>
+                <TableCell className="font-medium">
+                  <Link to="/properties/$propertyId" params={{ propertyId: property.id }} className="hover:underline">
+                    {property.title}
+                  </Link>
+                </TableCell>
                 <TableCell>
                   {property.images.length > 0 ? (
                     <div className="flex items-center gap-1">
@@ -466,6 +597,14 @@ export default function PropertiesPage() {
                   </div>
                 </TableCell>
                 <TableCell>₹{Number(property.price).toLocaleString()}</TableCell>
+                {radiusCenter && (
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatDistance(distanceKm(radiusCenter, property.coordinates))}
+                  </TableCell>
+                )}
+                <TableCell>
+                  <PriceSparkline points={priceHistories?.get(property.id) ?? []} />
+                </TableCell>
                 <TableCell>{getCategoryBadge(property.category)}</TableCell>
                 <TableCell>{getPropertyTypeBadge(property.propertyType)}</TableCell>
                 <TableCell>
@@ -476,9 +615,94 @@ export default function PropertiesPage() {
                 <TableCell>{getFurnishingBadge(property.furnishing)}</TableCell>
                 <TableCell>{getStatusBadge(property.status)}</TableCell>
                 <TableCell className="text-right">
-                  <Button variant="outline" size="sm" onClick={() => openEditDialog(property)}>
-                    <Edit className="h-4 w-4" />
-                  </Button>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => updateSearch({ edit: property.id })}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Archive"
+                      onClick={() => handleArchive(property)}
+                      disabled={archiveProperty.isPending}
+                    >
+                      <Archive className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  const ArchivedPropertyTable = () => (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Title</TableHead>
+            <TableHead>Location</TableHead>
+            <TableHead>Price</TableHead>
+            <TableHead>Category</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Archived On</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {archivedPropertiesLoading ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center">
+                <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+              </TableCell>
+            </TableRow>
+          ) : archivedProperties.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">
+                No archived properties
+              </TableCell>
+            </TableRow>
+          ) : (
+            archivedProperties.map((property) => (
+              <TableRow key={property.id}>
+                <TableCell className="font-medium">
+                  <Link to="/properties/$propertyId" params={{ propertyId: property.id }} className="hover:underline">
+                    {property.title}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <MapPin className="h-3 w-3" />
+                    {property.location.area}, {property.location.suburb}
+                  </div>
+                </TableCell>
+                <TableCell>₹{Number(property.price).toLocaleString()}</TableCell>
+                <TableCell>{getCategoryBadge(property.category)}</TableCell>
+                <TableCell>{getStatusBadge(property.status)}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {new Date(Number(property.updatedAt / 1_000_000n)).toLocaleDateString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUnarchive(property)}
+                      disabled={unarchiveProperty.isPending}
+                    >
+                      <ArchiveRestore className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+                    {isAdmin && (
+                      <Button variant="destructive" size="sm" onClick={() => setPropertyToDelete(property)}>
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </Button>
+                    )}
+                  </div>
                 </TableCell>
               </TableRow>
             ))
@@ -496,10 +720,23 @@ export default function PropertiesPage() {
           <p className="text-muted-foreground">Manage your real estate listings</p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" onClick={() => setShowMapView(!showMapView)}>
+          <Button variant={showAdvancedFilters ? 'default' : 'outline'} onClick={() => setShowAdvancedFilters(!showAdvancedFilters)}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            Advanced Filters
+            {countAdvancedCriteria(advancedFilter) > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {countAdvancedCriteria(advancedFilter)}
+              </Badge>
+            )}
+          </Button>
+          <Button variant="outline" onClick={() => updateSearch({ map: showMapView ? undefined : true })}>
             <MapIcon className="mr-2 h-4 w-4" />
             {showMapView ? 'Hide Map' : 'Show Map'}
           </Button>
+          <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Import
+          </Button>
           <Button onClick={() => { resetForm(); setShowAddDialog(true); }}>
             <Plus className="mr-2 h-4 w-4" />
             Add Property
@@ -507,6 +744,14 @@ export default function PropertiesPage() {
         </div>
       </div>
 
+      {showAdvancedFilters && (
+        <AdvancedFilterPanel
+          filter={advancedFilter}
+          onChange={(filter) => updateSearch({ advanced: toAdvancedSearch(filter) }, true)}
+          onClose={() => setShowAdvancedFilters(false)}
+        />
+      )}
+
       {showMapView && (
         <Card className="mb-6">
           <CardHeader className="flex flex-row items-center justify-between">
@@ -536,6 +781,9 @@ export default function PropertiesPage() {
             </div>
           </CardHeader>
           <CardContent>
+            <div className="mb-4">
+              <MapPresetsBar currentFilters={mapFilters} onApply={applyMapFilters} />
+            </div>
             <div className="h-[500px] rounded-lg overflow-hidden border">
               <PropertyMap
                 properties={properties}
@@ -544,6 +792,11 @@ export default function PropertiesPage() {
                 onMarkerDragEnd={handleCoordinatesChange}
                 enableFilters={true}
                 onFilterChange={handleMapFilterChange}
+                initialFilters={mapFilters}
+                appliedFilters={appliedMapFilters}
+                zones={zones}
+                onZoneDrawn={setDrawnZonePoints}
+                onZoneDelete={handleZoneDelete}
                 showClustering={showClustering}
                 showRadiusCircles={showRadiusCircles}
               />
@@ -562,30 +815,53 @@ export default function PropertiesPage() {
               <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
             </div>
           ) : (
-            <Tabs defaultValue="all">
-              <TabsList className="mb-4 flex-wrap h-auto">
-                <TabsTrigger value="all">All ({properties.length})</TabsTrigger>
-                <TabsTrigger value="resale">Resale ({filterByCategory(Category.resale).length})</TabsTrigger>
-                <TabsTrigger value="rental">Rental ({filterByCategory(Category.rental).length})</TabsTrigger>
-                <TabsTrigger value="underConstruction">Under Construction ({filterByCategory(Category.underConstruction).length})</TabsTrigger>
-              </TabsList>
-              <TabsContent value="all">
-                <PropertyTable properties={properties} />
-              </TabsContent>
-              <TabsContent value="resale">
-                <PropertyTable properties={filterByCategory(Category.resale)} />
-              </TabsContent>
-              <TabsContent value="rental">
-                <PropertyTable properties={filterByCategory(Category.rental)} />
-              </TabsContent>
-              <TabsContent value="underConstruction">
-                <PropertyTable properties={filterByCategory(Category.underConstruction)} />
-              </TabsContent>
-            </Tabs>
+            <>
+              {selectedProperties.length > 0 && (
+                <PropertyBulkActionsBar
+                  selectedProperties={selectedProperties}
+                  onClearSelection={() => setSelectedPropertyIds([])}
+                />
+              )}
+              <Tabs
+                value={search.tab ?? 'all'}
+                onValueChange={(tab) => updateSearch({ tab: tab === 'all' ? undefined : (tab as PropertiesTab) })}
+              >
+                <TabsList className="mb-4 flex-wrap h-auto">
+                  <TabsTrigger value="all">All ({properties.length})</TabsTrigger>
+                  <TabsTrigger value="resale">Resale ({filterByCategory(Category.resale).length})</TabsTrigger>
+                  <TabsTrigger value="rental">Rental ({filterByCategory(Category.rental).length})</TabsTrigger>
+                  <TabsTrigger value="underConstruction">Under Construction ({filterByCategory(Category.underConstruction).length})</TabsTrigger>
+                  <TabsTrigger value="archived">Archived ({archivedProperties.length})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="all">
+                  <PropertyTable properties={properties} />
+                </TabsContent>
+                <TabsContent value="resale">
+                  <PropertyTable properties={filterByCategory(Category.resale)} />
+                </TabsContent>
+                <TabsContent value="rental">
+                  <PropertyTable properties={filterByCategory(Category.rental)} />
+                </TabsContent>
+                <TabsContent value="underConstruction">
+                  <PropertyTable properties={filterByCategory(Category.underConstruction)} />
+                </TabsContent>
+                <TabsContent value="archived">
+                  <ArchivedPropertyTable />
+                </TabsContent>
+              </Tabs>
+            </>
           )}
         </CardContent>
       </Card>
 
+      <PropertyImportDialog open={showImportDialog} onOpenChange={setShowImportDialog} />
+
+      <ZoneSaveDialog
+        points={drawnZonePoints}
+        onOpenChange={(open) => !open && setDrawnZonePoints(null)}
+        onSaved={(zoneId) => applyMapFilters({ ...mapFilters, zoneId })}
+      />
+
       {/* Add Property Dialog */}
       <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
         <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
@@ -826,7 +1102,7 @@ export default function PropertiesPage() {
       </Dialog>
 
       {/* Edit Property Dialog */}
-      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+      <Dialog open={showEditDialog} onOpenChange={(open) => !open && closeEditDialog()}>
         <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Property</DialogTitle>
@@ -1067,13 +1343,59 @@ export default function PropertiesPage() {
             )}
           </div>
 
+          {selectedProperty && (
+            <div className="space-y-6 border-t pt-4">
+              <PriceHistoryChart property={selectedProperty} />
+              <PropertyHistoryTimeline property={selectedProperty} />
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => selectedProperty && handleArchive(selectedProperty)}
+                disabled={archiveProperty.isPending}
+              >
+                {archiveProperty.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Archive className="mr-2 h-4 w-4" />}
+                Archive
+              </Button>
+              {isAdmin && (
+                <Button variant="destructive" onClick={() => setPropertyToDelete(selectedProperty)}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete Permanently
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={closeEditDialog}>
+                Cancel
+              </Button>
+              <Button onClick={handleEdit} disabled={updateProperty.isPending}>
+                {updateProperty.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Update Property
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Property Confirmation Dialog */}
+      <Dialog open={!!propertyToDelete} onOpenChange={(open) => !open && setPropertyToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Property Permanently</DialogTitle>
+            <DialogDescription>
+              This removes "{propertyToDelete?.title}", its images and all of its inquiries. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
           <DialogFooter>
-            <Button variant="outline" onClick={() => { setShowEditDialog(false); setSelectedProperty(null); resetForm(); }}>
+            <Button variant="outline" onClick={() => setPropertyToDelete(null)}>
               Cancel
             </Button>
-            <Button onClick={handleEdit} disabled={updateProperty.isPending}>
-              {updateProperty.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Update Property
+            <Button variant="destructive" onClick={handleDelete} disabled={deleteProperty.isPending}>
+              {deleteProperty.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Permanently
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,366 @@
+import { useGetProperty, useGetInquiriesByProperty, useGetPropertyHistory, useGetAllAgents } from '../hooks/useQueries';
+import { Link, useRouter } from '@tanstack/react-router';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Badge } from '../components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '../components/ui/carousel';
+import { Alert, AlertDescription } from '../components/ui/alert';
+import { AlertCircle, ArrowLeft, History, Image as ImageIcon, Link2, Loader2, MapPin, MessageSquare } from 'lucide-react';
+import { Category, Configuration, Furnishing, PropertyType, Source, Status, Status__1 } from '../backend';
+import PropertyMap from '../components/PropertyMap';
+import PriceHistoryChart from '../components/PriceHistoryChart';
+import type { Principal } from '@dfinity/principal';
+import { toast } from 'sonner';
+
+interface PropertyDetailPageProps {
+  propertyId: string;
+}
+
+const CATEGORY_LABELS: Record<Category, string> = {
+  [Category.resale]: 'Resale',
+  [Category.rental]: 'Rental',
+  [Category.underConstruction]: 'Under Construction',
+};
+
+const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  [PropertyType.residential]: 'Residential',
+  [PropertyType.commercial]: 'Commercial',
+  [PropertyType.industrial]: 'Industrial',
+};
+
+const CONFIGURATION_LABELS: Record<Configuration, string> = {
+  [Configuration.rk1]: '1 RK',
+  [Configuration.bhk1]: '1 BHK',
+  [Configuration.bhk1_5]: '1.5 BHK',
+  [Configuration.bhk2]: '2 BHK',
+  [Configuration.bhk2_5]: '2.5 BHK',
+  [Configuration.bhk3]: '3 BHK',
+  [Configuration.bhk3_5]: '3.5 BHK',
+  [Configuration.bhk4]: '4 BHK',
+  [Configuration.bhk5]: '5 BHK',
+  [Configuration.jodiFlat]: 'Jodi Flat',
+  [Configuration.duplex]: 'Duplex',
+  [Configuration.penthouse]: 'Penthouse',
+  [Configuration.bungalow]: 'Bungalow',
+  [Configuration.independentHouse]: 'Independent House',
+};
+
+const FURNISHING_LABELS: Record<Furnishing, string> = {
+  [Furnishing.unfurnished]: 'Unfurnished',
+  [Furnishing.semiFurnished]: 'Semi Furnished',
+  [Furnishing.furnished]: 'Furnished',
+};
+
+const STATUS_LABELS: Record<Status, string> = {
+  [Status.available]: 'Available',
+  [Status.sold]: 'Sold',
+  [Status.rented]: 'Rented',
+  [Status.underContract]: 'Under Contract',
+};
+
+const INQUIRY_STATUS_LABELS: Record<Status__1, string> = {
+  [Status__1.new_]: 'New',
+  [Status__1.inProgress]: 'In Progress',
+  [Status__1.followUp]: 'Follow Up',
+  [Status__1.closed]: 'Closed',
+};
+
+const SOURCE_LABELS: Record<Source, string> = {
+  [Source.website]: 'Website',
+  [Source.referral]: 'Referral',
+  [Source.walkIn]: 'Walk-in',
+  [Source.phone]: 'Phone',
+  [Source.socialMedia]: 'Social Media',
+};
+
+// The change history records statuses in Motoko notation, e.g. "#underContract"
+function formatRecordedStatus(value: string): string {
+  return STATUS_LABELS[value.replace(/^#/, '') as Status] ?? value;
+}
+
+function formatDate(time: bigint): string {
+  // Backend timestamps are in nanoseconds
+  return new Date(Number(time / 1_000_000n)).toLocaleString();
+}
+
+export default function PropertyDetailPage({ propertyId }: PropertyDetailPageProps) {
+  const router = useRouter();
+  const { data: property, isLoading, error } = useGetProperty(propertyId);
+  const { data: inquiries = [], isLoading: inquiriesLoading } = useGetInquiriesByProperty(propertyId);
+  const { data: history = [] } = useGetPropertyHistory(propertyId);
+  const { data: agents = [] } = useGetAllAgents();
+
+  const getAgentName = (principal: Principal): string => {
+    const agent = agents.find((a) => a.id.toString() === principal.toString());
+    return agent?.name || principal.toString().substring(0, 10) + '...';
+  };
+
+  const handleCopyLink = async () => {
+    const { href } = router.buildLocation({ to: '/properties/$propertyId', params: { propertyId } });
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${href}`);
+      toast.success('Link copied to clipboard');
+    } catch (copyError) {
+      console.error('Failed to copy link:', copyError);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !property) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>This property does not exist or you do not have access to it.</AlertDescription>
+        </Alert>
+        <Button variant="outline" asChild>
+          <Link to="/properties">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Properties
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const statusChanges = history.flatMap((entry) =>
+    entry.changes
+      .filter((change) => change.field === 'status')
+      .map((change) => ({ changedBy: entry.changedBy, changedAt: entry.changedAt, from: change.oldValue, to: change.newValue }))
+  );
+  // The listing status is the "from" side of the first recorded change
+  const initialStatus = statusChanges.length > 0 ? formatRecordedStatus(statusChanges[0].from) : STATUS_LABELS[property.status];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-3" asChild>
+            <Link to="/properties">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Properties
+            </Link>
+          </Button>
+          <h1 className="mb-2 text-3xl font-bold">{property.title}</h1>
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <MapPin className="h-4 w-4" />
+            {property.location.roadName && `${property.location.roadName}, `}
+            {property.location.area}, {property.location.suburb}, {property.location.city}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <div className="text-3xl font-bold">₹{Number(property.price).toLocaleString()}</div>
+          <div className="flex gap-2">
+            {property.archived && <Badge variant="secondary">Archived</Badge>}
+            <Badge>{STATUS_LABELS[property.status]}</Badge>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCopyLink}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Copy Link
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardContent className="pt-6">
+              {property.images.length === 0 ? (
+                <div className="flex aspect-video flex-col items-center justify-center rounded-lg bg-muted text-muted-foreground">
+                  <ImageIcon className="mb-2 h-10 w-10" />
+                  <p className="text-sm">No images uploaded</p>
+                </div>
+              ) : (
+                <Carousel className="mx-12">
+                  <CarouselContent>
+                    {property.images.map((image, index) => (
+                      <CarouselItem key={index}>
+                        <img
+                          src={image.getDirectURL()}
+                          alt={`${property.title} image ${index + 1}`}
+                          className="aspect-video w-full rounded-lg object-cover"
+                        />
+                      </CarouselItem>
+                    ))}
+                  </CarouselContent>
+                  {property.images.length > 1 && (
+                    <>
+                      <CarouselPrevious />
+                      <CarouselNext />
+                    </>
+                  )}
+                </Carousel>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {property.description && <p className="whitespace-pre-line text-sm">{property.description}</p>}
+              <dl className="grid gap-4 text-sm sm:grid-cols-3">
+                <div>
+                  <dt className="text-muted-foreground">Category</dt>
+                  <dd className="font-medium">{CATEGORY_LABELS[property.category]}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Property Type</dt>
+                  <dd className="font-medium">{PROPERTY_TYPE_LABELS[property.propertyType]}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Configuration</dt>
+                  <dd className="font-medium">{CONFIGURATION_LABELS[property.configuration]}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Furnishing</dt>
+                  <dd className="font-medium">{FURNISHING_LABELS[property.furnishing]}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Listed By</dt>
+                  <dd className="font-medium">{getAgentName(property.listedBy)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Listed On</dt>
+                  <dd className="font-medium">{formatDate(property.createdAt)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">City</dt>
+                  <dd className="font-medium">{property.location.city}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Suburb</dt>
+                  <dd className="font-medium">{property.location.suburb}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Area</dt>
+                  <dd className="font-medium">{property.location.area}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Road Name</dt>
+                  <dd className="font-medium">{property.location.roadName || '-'}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Coordinates</dt>
+                  <dd className="font-medium">
+                    {property.coordinates.lat.toFixed(5)}, {property.coordinates.lng.toFixed(5)}
+                  </dd>
+                </div>
+              </dl>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5" />
+                Inquiries ({inquiries.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {inquiriesLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : inquiries.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground">No inquiries for this property yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Contact</TableHead>
+                        <TableHead>Source</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Assigned Agent</TableHead>
+                        <TableHead>Received</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {inquiries.map((inquiry) => (
+                        <TableRow key={inquiry.id}>
+                          <TableCell className="font-medium">{inquiry.customerName}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{inquiry.contactInfo}</TableCell>
+                          <TableCell>{SOURCE_LABELS[inquiry.source]}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{INQUIRY_STATUS_LABELS[inquiry.status]}</Badge>
+                          </TableCell>
+                          <TableCell>{getAgentName(inquiry.assignedAgent)}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{formatDate(inquiry.createdAt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Location
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[300px] w-full overflow-hidden rounded-lg border">
+                <PropertyMap properties={[property]} center={property.coordinates} showClustering={false} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Status History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="relative space-y-4 border-l pl-4">
+                {[...statusChanges].reverse().map((change, index) => (
+                  <li key={index} className="relative">
+                    <span className="absolute left-[-21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                    <p className="text-sm font-medium">
+                      {formatRecordedStatus(change.from)} → {formatRecordedStatus(change.to)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {getAgentName(change.changedBy)} · {formatDate(change.changedAt)}
+                    </p>
+                  </li>
+                ))}
+                <li className="relative">
+                  <span className="absolute left-[-21px] top-1.5 h-2.5 w-2.5 rounded-full bg-muted-foreground" />
+                  <p className="text-sm font-medium">Listed as {initialStatus}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {getAgentName(property.listedBy)} · {formatDate(property.createdAt)}
+                  </p>
+                </li>
+              </ol>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <PriceHistoryChart property={property} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useMemo } from 'react';
-import { useGetAllProperties, useGetAllInquiries, useGetAllAgents, useGetCombinedAnalytics } from '../hooks/useQueries';
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import { useGetAllProperties, useGetAllInquiries, useGetAllAgents, useGetCombinedAnalytics, useGetPriceReductionBySuburb, useGetZones, useDeleteZone } from '../hooks/useQueries';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Label } from '../components/ui/label';
@@ -7,21 +8,41 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
 import { Button } from '../components/ui/button';
 import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Category, Source, Status, Status__1 } from '../backend';
-import { Loader2, TrendingUp, PieChartIcon, BarChart3, Download, MapIcon } from 'lucide-react';
+import { Category, Source, Status, Status__1, type Coordinates, type Zone } from '../backend';
+import { Loader2, TrendingUp, PieChartIcon, BarChart3, Download, MapIcon, TrendingDown } from 'lucide-react';
 import PropertyMap from '../components/PropertyMap';
 import type { MapFilters } from '../components/PropertyMap';
+import MapPresetsBar from '../components/MapPresetsBar';
+import ZoneSaveDialog from '../components/ZoneSaveDialog';
+import { filterByZone } from '../utils/zones';
+import { filterByRadius } from '../utils/geo';
 import MapLinkedInsights from '../components/MapLinkedInsights';
+import type { ReportsPriceRange, ReportsSearch, ReportsTab } from '../utils/routeSearch';
+import { formatActivityForExport } from '../utils/inquiryActivity';
+import { conversionStats, OUTCOME_LABELS } from '../utils/inquiryOutcomes';
 
 export default function ReportsPage() {
   const { data: properties = [], isLoading: propertiesLoading } = useGetAllProperties();
   const { data: inquiries = [], isLoading: inquiriesLoading } = useGetAllInquiries();
   const { data: agents = [], isLoading: agentsLoading } = useGetAllAgents();
   const { data: combinedAnalytics, isLoading: analyticsLoading } = useGetCombinedAnalytics();
+  const { data: priceReductions = [], isLoading: priceReductionsLoading } = useGetPriceReductionBySuburb();
 
-  const [categoryFilter, setCategoryFilter] = useState<Category | 'all'>('all');
-  const [priceRange, setPriceRange] = useState<string>('all');
+  const search = useSearch({ from: '/reports' });
+  const navigate = useNavigate({ from: '/reports' });
+
+  // Filters and the selected tab live in the URL so a report view can be bookmarked or shared
+  const categoryFilter: Category | 'all' = search.category ?? 'all';
+  const priceRange: ReportsPriceRange | 'all' = search.price ?? 'all';
+  const updateSearch = (changes: Partial<ReportsSearch>, replace = false) => {
+    navigate({ search: (prev) => ({ ...prev, ...changes }), replace });
+  };
   const [mapFilters, setMapFilters] = useState<MapFilters>({});
+  const [appliedMapFilters, setAppliedMapFilters] = useState<MapFilters | undefined>(undefined);
+  const { data: zones = [] } = useGetZones();
+  const deleteZone = useDeleteZone();
+  const [drawnZonePoints, setDrawnZonePoints] = useState<Coordinates[] | null>(null);
+  const selectedZone = zones.find((z) => z.id === mapFilters.zoneId);
   const [isMapFiltering, setIsMapFiltering] = useState(false);
 
   const isLoading = propertiesLoading || inquiriesLoading || agentsLoading;
@@ -77,6 +98,27 @@ export default function ReportsPage() {
     }));
   }, [agents, properties, inquiries]);
 
+  // Won/lost outcomes and conversion rate per inquiry source
+  const conversionBySourceData = useMemo(() => {
+    return [
+      conversionStats('Website', inquiries.filter((i) => i.source === Source.website)),
+      conversionStats('Referral', inquiries.filter((i) => i.source === Source.referral)),
+      conversionStats('Walk-in', inquiries.filter((i) => i.source === Source.walkIn)),
+      conversionStats('Phone', inquiries.filter((i) => i.source === Source.phone)),
+      conversionStats('Social Media', inquiries.filter((i) => i.source === Source.socialMedia)),
+    ];
+  }, [inquiries]);
+
+  // Won/lost outcomes and conversion rate per assigned agent
+  const conversionByAgentData = useMemo(() => {
+    return agents.map((agent) =>
+      conversionStats(
+        agent.name,
+        inquiries.filter((i) => i.assignedAgent.toString() === agent.id.toString())
+      )
+    );
+  }, [agents, inquiries]);
+
   // Price Range Distribution
   const priceRangeData = useMemo(() => {
     const ranges = [
@@ -170,6 +212,26 @@ export default function ReportsPage() {
       .slice(0, 10);
   }, [properties]);
 
+  // Price Reductions by Suburb, most frequently reduced first
+  const suburbPriceReductions = useMemo(() => {
+    return [...priceReductions].sort(
+      (a, b) =>
+        Number(b.reducedCount) - Number(a.reducedCount) ||
+        (b.averageReductionPercent ?? 0) - (a.averageReductionPercent ?? 0) ||
+        a.region.localeCompare(b.region)
+    );
+  }, [priceReductions]);
+
+  const suburbReductionChartData = useMemo(() => {
+    return suburbPriceReductions
+      .filter((r) => r.averageReductionPercent !== undefined)
+      .slice(0, 10)
+      .map((r) => ({
+        suburb: r.region,
+        averageReduction: Number(r.averageReductionPercent!.toFixed(1)),
+      }));
+  }, [suburbPriceReductions]);
+
   // Filtered Properties
   const filteredProperties = useMemo(() => {
     let filtered = properties;
@@ -179,7 +241,7 @@ export default function ReportsPage() {
     }
 
     if (priceRange !== 'all') {
-      const ranges: Record<string, [number, number]> = {
+      const ranges: Record<ReportsPriceRange, [number, number]> = {
         low: [0, 5000000],
         medium: [5000000, 20000000],
         high: [20000000, Infinity],
@@ -223,18 +285,8 @@ export default function ReportsPage() {
       filtered = filtered.filter((p) => p.location.area === mapFilters.area);
     }
 
-    if (mapFilters.radiusKm && mapFilters.centerLat !== undefined && mapFilters.centerLng !== undefined) {
-      filtered = filtered.filter((p) => {
-        const dLat = mapFilters.centerLat! - p.coordinates.lat;
-        const dLng = mapFilters.centerLng! - p.coordinates.lng;
-        const distanceSquared = dLat * dLat + dLng * dLng;
-        const radiusSquared = mapFilters.radiusKm! * mapFilters.radiusKm!;
-        return distanceSquared <= radiusSquared;
-      });
-    }
-
-    return filtered;
-  }, [properties, mapFilters]);
+    return filterByZone(filterByRadius(filtered, mapFilters), selectedZone);
+  }, [properties, mapFilters, selectedZone]);
 
   // Export to CSV
   const exportToCSV = (data: any[], filename: string) => {
@@ -293,7 +345,10 @@ export default function ReportsPage() {
       Source: i.source,
       Status: i.status,
       PropertyId: i.propertyId,
-      Notes: i.notes,
+      Outcome: i.closure ? OUTCOME_LABELS[i.closure.outcome] : '',
+      FinalPrice: i.closure ? Number(i.closure.finalPrice) : '',
+      LostReason: i.closure?.lostReason ?? '',
+      Activity: formatActivityForExport(i.activity),
     }));
     exportToCSV(exportData, 'inquiries_report');
   };
@@ -323,6 +378,20 @@ export default function ReportsPage() {
     setTimeout(() => setIsMapFiltering(false), 300);
   };
 
+  // Replaces the map's own filters too, e.g. when a preset or a new zone is applied
+  const applyMapFilters = (filters: MapFilters) => {
+    handleMapFilterChange(filters);
+    setAppliedMapFilters(filters);
+  };
+
+  const handleZoneDelete = (zone: Zone) => {
+    if (confirm(`Are you sure you want to delete the zone "${zone.name}"?`)) {
+      deleteZone.mutate(zone.id, {
+        onSuccess: () => applyMapFilters({ ...mapFilters, zoneId: undefined }),
+      });
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex h-[calc(100vh-200px)] items-center justify-center">
@@ -341,7 +410,10 @@ export default function ReportsPage() {
       <div className="mb-6 grid gap-4 md:grid-cols-2">
         <div className="space-y-2">
           <Label>Filter by Category</Label>
-          <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as Category | 'all')}>
+          <Select
+            value={categoryFilter}
+            onValueChange={(value) => updateSearch({ category: value === 'all' ? undefined : (value as Category) }, true)}
+          >
             <SelectTrigger>
               <SelectValue />
             </SelectTrigger>
@@ -355,7 +427,10 @@ export default function ReportsPage() {
         </div>
         <div className="space-y-2">
           <Label>Filter by Price Range</Label>
-          <Select value={priceRange} onValueChange={setPriceRange}>
+          <Select
+            value={priceRange}
+            onValueChange={(value) => updateSearch({ price: value === 'all' ? undefined : (value as ReportsPriceRange) }, true)}
+          >
             <SelectTrigger>
               <SelectValue />
             </SelectTrigger>
@@ -369,7 +444,11 @@ export default function ReportsPage() {
         </div>
       </div>
 
-      <Tabs defaultValue="overview" className="space-y-6">
+      <Tabs
+        value={search.tab ?? 'overview'}
+        onValueChange={(tab) => updateSearch({ tab: tab === 'overview' ? undefined : (tab as ReportsTab) })}
+        className="space-y-6"
+      >
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="properties">Properties</TabsTrigger>
@@ -622,6 +701,67 @@ export default function ReportsPage() {
               </CardContent>
             </Card>
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingDown className="h-5 w-5" />
+                Price Reductions by Suburb
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                How often listings are reduced, by how much, and how long after listing the first cut comes
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {priceReductionsLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : suburbPriceReductions.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground">No listings to analyse</p>
+              ) : (
+                <>
+                  {suburbReductionChartData.length > 0 && (
+                    <ResponsiveContainer width="100%" height={300}>
+                      <BarChart data={suburbReductionChartData} layout="vertical">
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" unit="%" />
+                        <YAxis dataKey="suburb" type="category" width={100} />
+                        <Tooltip formatter={(value: number) => `${value}%`} />
+                        <Bar dataKey="averageReduction" fill={COLORS[4]} name="Avg Reduction" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  )}
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Suburb</TableHead>
+                        <TableHead className="text-right">Listings</TableHead>
+                        <TableHead className="text-right">Reduced</TableHead>
+                        <TableHead className="text-right">Avg Reduction</TableHead>
+                        <TableHead className="text-right">Avg Days to First Reduction</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {suburbPriceReductions.map((r) => (
+                        <TableRow key={r.region}>
+                          <TableCell className="font-medium">{r.region}</TableCell>
+                          <TableCell className="text-right">{Number(r.listingCount)}</TableCell>
+                          <TableCell className="text-right">{Number(r.reducedCount)}</TableCell>
+                          <TableCell className="text-right">
+                            {r.averageReductionPercent !== undefined ? `${r.averageReductionPercent.toFixed(1)}%` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {r.averageDaysToReduction !== undefined ? r.averageDaysToReduction.toFixed(1) : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="map-insights" className="space-y-6">
@@ -636,12 +776,19 @@ export default function ReportsPage() {
               </p>
             </CardHeader>
             <CardContent>
+              <div className="mb-4">
+                <MapPresetsBar currentFilters={mapFilters} onApply={applyMapFilters} />
+              </div>
               <div className="h-[500px] w-full overflow-hidden rounded-lg border">
                 <PropertyMap
                   properties={properties}
                   enableFilters={true}
                   onFilterChange={handleMapFilterChange}
+                  appliedFilters={appliedMapFilters}
                   isFiltering={isMapFiltering}
+                  zones={zones}
+                  onZoneDrawn={setDrawnZonePoints}
+                  onZoneDelete={handleZoneDelete}
                   showClustering={true}
                 />
               </div>
@@ -651,8 +798,15 @@ export default function ReportsPage() {
           <MapLinkedInsights
             properties={mapFilteredProperties}
             filters={mapFilters}
+            zoneName={selectedZone?.name}
             isLoading={isMapFiltering}
           />
+
+          <ZoneSaveDialog
+            points={drawnZonePoints}
+            onOpenChange={(open) => !open && setDrawnZonePoints(null)}
+            onSaved={(zoneId) => applyMapFilters({ ...mapFilters, zoneId })}
+          />
         </TabsContent>
 
         <TabsContent value="inquiries" className="space-y-6">
@@ -700,6 +854,27 @@ export default function ReportsPage() {
             </Card>
           </div>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Conversion by Source</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={conversionBySourceData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis yAxisId="count" allowDecimals={false} />
+                  <YAxis yAxisId="rate" orientation="right" unit="%" domain={[0, 100]} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar yAxisId="count" dataKey="won" fill={COLORS[1]} name="Won" />
+                  <Bar yAxisId="count" dataKey="lost" fill={COLORS[3]} name="Lost" />
+                  <Bar yAxisId="rate" dataKey="conversionRate" fill={COLORS[0]} name="Conversion Rate (%)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Recent Inquiries</CardTitle>
@@ -751,6 +926,23 @@ export default function ReportsPage() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Conversion by Agent</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={conversionByAgentData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis unit="%" domain={[0, 100]} />
+                  <Tooltip />
+                  <Bar dataKey="conversionRate" fill={COLORS[2]} name="Conversion Rate (%)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Agent Details</CardTitle>
@@ -764,6 +956,9 @@ export default function ReportsPage() {
                       <TableHead>Role</TableHead>
                       <TableHead>Properties</TableHead>
                       <TableHead>Inquiries</TableHead>
+                      <TableHead>Won</TableHead>
+                      <TableHead>Lost</TableHead>
+                      <TableHead>Conversion</TableHead>
                       <TableHead>Status</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -774,6 +969,9 @@ export default function ReportsPage() {
                         <TableCell>{agents[index]?.role}</TableCell>
                         <TableCell>{agent.properties}</TableCell>
                         <TableCell>{agent.inquiries}</TableCell>
+                        <TableCell>{conversionByAgentData[index]?.won}</TableCell>
+                        <TableCell>{conversionByAgentData[index]?.lost}</TableCell>
+                        <TableCell>{conversionByAgentData[index]?.conversionRate}%</TableCell>
                         <TableCell>{agents[index]?.active ? 'Active' : 'Inactive'}</TableCell>
                       </TableRow>
                     ))}
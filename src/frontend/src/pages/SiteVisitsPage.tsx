@@ -0,0 +1,405 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearch } from '@tanstack/react-router';
+import {
+  useCancelSiteVisit,
+  useGetAllAgents,
+  useGetAllInquiries,
+  useGetAllProperties,
+  useGetSiteVisits,
+  useIsCallerAdmin,
+  useSetSiteVisitOutcome,
+} from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Calendar } from '../components/ui/calendar';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { CalendarClock, CheckCircle2, ChevronLeft, ChevronRight, Loader2, Plus, UserX, X } from 'lucide-react';
+import SiteVisitDialog from '../components/SiteVisitDialog';
+import { Role, VisitOutcome, type SiteVisit } from '../backend';
+import type { Principal } from '@dfinity/principal';
+import {
+  addDays,
+  formatVisitTime,
+  fromDateKey,
+  isSameDay,
+  startOfWeek,
+  toDateKey,
+  visitStart,
+  VISIT_OUTCOME_LABELS,
+} from '../utils/siteVisits';
+import type { VisitsSearch } from '../utils/routeSearch';
+
+export default function SiteVisitsPage() {
+  const { data: visits = [], isLoading } = useGetSiteVisits();
+  const { data: inquiries = [] } = useGetAllInquiries();
+  const { data: properties = [] } = useGetAllProperties();
+  const { data: agents = [] } = useGetAllAgents();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { identity } = useInternetIdentity();
+  const setVisitOutcome = useSetSiteVisitOutcome();
+  const cancelVisit = useCancelSiteVisit();
+
+  const search = useSearch({ from: '/visits' });
+  const navigate = useNavigate({ from: '/visits' });
+
+  const [showBookingDialog, setShowBookingDialog] = useState(false);
+  const [visitToReschedule, setVisitToReschedule] = useState<SiteVisit | null>(null);
+  const [selectedVisitId, setSelectedVisitId] = useState<string | null>(null);
+
+  const callerId = identity?.getPrincipal().toString();
+  const callerAgent = agents.find((a) => a.id.toString() === callerId);
+  // Agents and admins see every agent's calendar; juniors can also book for colleagues
+  const canManageAllInquiries = !!isAdmin || callerAgent?.role === Role.admin || callerAgent?.role === Role.agent;
+  const canAssignToOthers = canManageAllInquiries || callerAgent?.role === Role.juniorAgent;
+
+  const view = search.view ?? 'week';
+  const selectedDate = fromDateKey(search.date) ?? new Date();
+  const days = view === 'day' ? [selectedDate] : Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(selectedDate), i));
+  const [month, setMonth] = useState(selectedDate);
+
+  const updateSearch = (changes: Partial<VisitsSearch>, replace = false) => {
+    navigate({ search: (prev) => ({ ...prev, ...changes }), replace });
+  };
+
+  // Keep the month grid on the selected day when paging through weeks
+  useEffect(() => {
+    setMonth(selectedDate);
+  }, [search.date]);
+
+  // Opened from an inquiry's "Book Visit" action
+  useEffect(() => {
+    if (search.schedule && inquiries.length > 0) {
+      setShowBookingDialog(true);
+    }
+  }, [search.schedule, inquiries.length]);
+
+  const filteredVisits = useMemo(
+    () => visits.filter((v) => !search.agent || v.agent.toString() === search.agent),
+    [visits, search.agent]
+  );
+
+  // One row per agent with a visit in range, or just the filtered agent
+  const visitsInRange = filteredVisits.filter((v) => days.some((day) => isSameDay(visitStart(v), day)));
+  const rowAgentIds = new Set(visitsInRange.map((v) => v.agent.toString()));
+  if (search.agent) rowAgentIds.add(search.agent);
+  const rows = Array.from(rowAgentIds).map((agentId) => ({
+    agentId,
+    visits: visitsInRange.filter((v) => v.agent.toString() === agentId),
+  }));
+
+  const visitDays = useMemo(() => filteredVisits.map(visitStart), [filteredVisits]);
+
+  const selectedVisit = visits.find((v) => v.id === selectedVisitId) ?? null;
+
+  const getAgentName = (agentId: Principal | string): string => {
+    const agent = agents.find((a) => a.id.toString() === agentId.toString());
+    return agent?.name || agentId.toString().substring(0, 10) + '...';
+  };
+
+  const getCustomerName = (inquiryId: string): string => {
+    return inquiries.find((i) => i.id === inquiryId)?.customerName ?? 'Unknown customer';
+  };
+
+  const getPropertyTitle = (propertyId: string): string => {
+    const property = properties.find((p) => p.id === propertyId);
+    return property?.title || propertyId.substring(0, 30) + '...';
+  };
+
+  const canChangeVisit = (visit: SiteVisit) => canManageAllInquiries || visit.agent.toString() === callerId;
+
+  const shiftDate = (direction: number) => {
+    updateSearch({ date: toDateKey(addDays(selectedDate, direction * (view === 'day' ? 1 : 7))) }, true);
+  };
+
+  const rangeLabel =
+    view === 'day'
+      ? selectedDate.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })
+      : `${days[0].toLocaleDateString([], { day: 'numeric', month: 'short' })} – ${days[6].toLocaleDateString([], {
+          day: 'numeric',
+          month: 'short',
+          year: 'numeric',
+        })}`;
+
+  const handleOutcome = async (visit: SiteVisit, outcome: VisitOutcome) => {
+    try {
+      await setVisitOutcome.mutateAsync({ visitId: visit.id, outcome });
+      setSelectedVisitId(null);
+    } catch (error) {
+      console.error('Error updating site visit:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const handleCancel = async (visit: SiteVisit) => {
+    try {
+      await cancelVisit.mutateAsync(visit.id);
+      setSelectedVisitId(null);
+    } catch (error) {
+      console.error('Error cancelling site visit:', error);
+      // Error toast is already handled by the mutation
+    }
+  };
+
+  const getOutcomeBadge = (visit: SiteVisit) => {
+    if (!visit.outcome) return <Badge variant="secondary">Scheduled</Badge>;
+    return (
+      <Badge variant={visit.outcome === VisitOutcome.done ? 'default' : 'destructive'}>
+        {VISIT_OUTCOME_LABELS[visit.outcome]}
+      </Badge>
+    );
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="mb-2 text-3xl font-bold">Site Visits</h1>
+          <p className="text-muted-foreground">Book property viewings and track how they went</p>
+        </div>
+        <Button
+          onClick={() => {
+            setVisitToReschedule(null);
+            setShowBookingDialog(true);
+          }}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Schedule Visit
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[auto_1fr]">
+        <Card className="h-fit">
+          <CardContent className="space-y-4 pt-6">
+            <Calendar
+              mode="single"
+              weekStartsOn={1}
+              selected={selectedDate}
+              onSelect={(date) => date && updateSearch({ date: toDateKey(date) }, true)}
+              month={month}
+              onMonthChange={setMonth}
+              modifiers={{ booked: visitDays }}
+              modifiersClassNames={{ booked: '[&>button]:font-bold [&>button]:underline [&>button]:underline-offset-4' }}
+              className="mx-auto rounded-md border"
+            />
+            {canManageAllInquiries && (
+              <div className="space-y-2">
+                <Label htmlFor="visits-agent-filter">Agent</Label>
+                <Select
+                  value={search.agent ?? 'all'}
+                  onValueChange={(value) => updateSearch({ agent: value === 'all' ? undefined : value }, true)}
+                >
+                  <SelectTrigger id="visits-agent-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All agents</SelectItem>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id.toString()} value={agent.id.toString()}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">Underlined days have visits booked</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => shiftDate(-1)} title="Previous">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => shiftDate(1)} title="Next">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => updateSearch({ date: undefined }, true)}>
+                Today
+              </Button>
+              <CardTitle className="ml-2 text-lg">{rangeLabel}</CardTitle>
+            </div>
+            <div className="flex gap-2">
+              <Button variant={view === 'day' ? 'default' : 'outline'} size="sm" onClick={() => updateSearch({ view: 'day' })}>
+                Day
+              </Button>
+              <Button variant={view === 'week' ? 'default' : 'outline'} size="sm" onClick={() => updateSearch({ view: undefined })}>
+                Week
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : rows.length === 0 ? (
+              <div className="py-12 text-center text-muted-foreground">
+                <CalendarClock className="mx-auto mb-3 h-10 w-10" />
+                No site visits booked {view === 'day' ? 'on this day' : 'this week'}
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <div
+                  className="grid min-w-[720px] gap-px overflow-hidden rounded-md border bg-border"
+                  style={{ gridTemplateColumns: `160px repeat(${days.length}, minmax(0, 1fr))` }}
+                >
+                  <div className="bg-muted p-2 text-xs font-semibold text-muted-foreground">Agent</div>
+                  {days.map((day) => (
+                    <button
+                      key={toDateKey(day)}
+                      type="button"
+                      onClick={() => updateSearch({ view: 'day', date: toDateKey(day) })}
+                      className={`bg-muted p-2 text-left text-xs font-semibold hover:bg-muted/70 ${
+                        isSameDay(day, now) ? 'text-primary' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {day.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}
+                    </button>
+                  ))}
+
+                  {rows.map((row) => (
+                    <div key={row.agentId} className="contents">
+                      <div className="bg-background p-2 text-sm font-medium">{getAgentName(row.agentId)}</div>
+                      {days.map((day) => {
+                        const dayVisits = row.visits.filter((v) => isSameDay(visitStart(v), day));
+                        return (
+                          <div key={toDateKey(day)} className="min-h-[72px] space-y-1 bg-background p-1">
+                            {dayVisits.map((visit) => (
+                              <button
+                                key={visit.id}
+                                type="button"
+                                onClick={() => setSelectedVisitId(visit.id)}
+                                className={`w-full rounded border-l-4 bg-muted/40 p-1.5 text-left text-xs hover:bg-muted ${
+                                  visit.outcome === VisitOutcome.done
+                                    ? 'border-l-green-500'
+                                    : visit.outcome === VisitOutcome.noShow
+                                      ? 'border-l-destructive opacity-70'
+                                      : 'border-l-primary'
+                                }`}
+                              >
+                                <p className="font-medium">{formatVisitTime(visit)}</p>
+                                <p className="truncate">{getCustomerName(visit.inquiryId)}</p>
+                                {view === 'day' && (
+                                  <p className="truncate text-muted-foreground">{getPropertyTitle(visit.propertyId)}</p>
+                                )}
+                              </button>
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Visit Details Dialog */}
+      <Dialog open={!!selectedVisit} onOpenChange={(open) => !open && setSelectedVisitId(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Site Visit {selectedVisit && getOutcomeBadge(selectedVisit)}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedVisit &&
+                `${visitStart(selectedVisit).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })}, ${formatVisitTime(selectedVisit)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedVisit && (
+            <div className="space-y-3 py-2 text-sm">
+              <div>
+                <p className="text-muted-foreground">Customer</p>
+                <Link to="/inquiries" search={{ edit: selectedVisit.inquiryId }} className="font-medium hover:underline">
+                  {getCustomerName(selectedVisit.inquiryId)}
+                </Link>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Property</p>
+                <Link
+                  to="/properties/$propertyId"
+                  params={{ propertyId: selectedVisit.propertyId }}
+                  className="font-medium hover:underline"
+                >
+                  {getPropertyTitle(selectedVisit.propertyId)}
+                </Link>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Agent</p>
+                <p className="font-medium">{getAgentName(selectedVisit.agent)}</p>
+              </div>
+              {!canChangeVisit(selectedVisit) && (
+                <p className="text-muted-foreground">Only the visiting agent or a senior agent can change this visit</p>
+              )}
+            </div>
+          )}
+          {selectedVisit && canChangeVisit(selectedVisit) && (
+            <DialogFooter className="flex-wrap gap-2 sm:justify-between">
+              <Button variant="outline" onClick={() => handleCancel(selectedVisit)} disabled={cancelVisit.isPending}>
+                {cancelVisit.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+                Cancel Visit
+              </Button>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setVisitToReschedule(selectedVisit);
+                    setSelectedVisitId(null);
+                    setShowBookingDialog(true);
+                  }}
+                >
+                  Reschedule
+                </Button>
+                {/* Outcomes can only be recorded once the visit has started */}
+                {visitStart(selectedVisit) <= now && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleOutcome(selectedVisit, VisitOutcome.noShow)}
+                      disabled={setVisitOutcome.isPending || selectedVisit.outcome === VisitOutcome.noShow}
+                    >
+                      <UserX className="mr-2 h-4 w-4" />
+                      No-show
+                    </Button>
+                    <Button
+                      onClick={() => handleOutcome(selectedVisit, VisitOutcome.done)}
+                      disabled={setVisitOutcome.isPending || selectedVisit.outcome === VisitOutcome.done}
+                    >
+                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                      Done
+                    </Button>
+                  </>
+                )}
+              </div>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <SiteVisitDialog
+        open={showBookingDialog}
+        onOpenChange={(open) => {
+          setShowBookingDialog(open);
+          if (!open) {
+            setVisitToReschedule(null);
+            if (search.schedule) updateSearch({ schedule: undefined }, true);
+          }
+        }}
+        visit={visitToReschedule}
+        defaultInquiryId={search.schedule}
+        defaultDate={selectedDate}
+        canAssignToOthers={canAssignToOthers}
+      />
+    </div>
+  );
+}
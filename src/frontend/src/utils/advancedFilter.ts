@@ -0,0 +1,74 @@
+import type { AdvancedFilter, Location } from '../backend';
+import type { AdvancedSearch } from './routeSearch';
+
+/**
+ * Builds the filter advancedFilterProperties expects from the properties page URL.
+ * Each list is OR-ed within itself and AND-ed with the others; an empty list doesn't filter.
+ */
+export function fromAdvancedSearch(search: AdvancedSearch | undefined): AdvancedFilter {
+  return {
+    categories: search?.categories ?? [],
+    propertyTypes: search?.propertyTypes ?? [],
+    configurations: search?.configurations ?? [],
+    furnishings: search?.furnishings ?? [],
+    statuses: search?.statuses ?? [],
+    locations: search?.locations ?? [],
+    priceRanges: (search?.priceRanges ?? []).map(([min, max]) => [
+      min !== null ? BigInt(min) : null,
+      max !== null ? BigInt(max) : null,
+    ]),
+    coordinateFilters: search?.coordinateFilters ?? [],
+  };
+}
+
+function nonEmpty<T>(values: T[]): T[] | undefined {
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * The reverse of fromAdvancedSearch. Empty lists are left out and an empty filter
+ * gives undefined, so clearing everything also clears the URL.
+ */
+export function toAdvancedSearch(filter: AdvancedFilter): AdvancedSearch | undefined {
+  const search: AdvancedSearch = {
+    categories: nonEmpty(filter.categories),
+    propertyTypes: nonEmpty(filter.propertyTypes),
+    configurations: nonEmpty(filter.configurations),
+    furnishings: nonEmpty(filter.furnishings),
+    statuses: nonEmpty(filter.statuses),
+    locations: nonEmpty(filter.locations),
+    priceRanges: nonEmpty(
+      filter.priceRanges.map(([min, max]): [number | null, number | null] => [
+        min !== null ? Number(min) : null,
+        max !== null ? Number(max) : null,
+      ])
+    ),
+    coordinateFilters: nonEmpty(filter.coordinateFilters),
+  };
+  return Object.values(search).some((v) => v !== undefined) ? search : undefined;
+}
+
+export function countAdvancedCriteria(filter: AdvancedFilter): number {
+  return (
+    filter.categories.length +
+    filter.propertyTypes.length +
+    filter.configurations.length +
+    filter.furnishings.length +
+    filter.statuses.length +
+    filter.locations.length +
+    filter.priceRanges.length +
+    filter.coordinateFilters.length
+  );
+}
+
+export function formatPriceRange([min, max]: [bigint | null, bigint | null]): string {
+  const format = (price: bigint) => `₹${Number(price).toLocaleString()}`;
+  if (min !== null && max !== null) return `${format(min)}–${format(max)}`;
+  if (max !== null) return `Under ${format(max)}`;
+  if (min !== null) return `From ${format(min)}`;
+  return 'Any price';
+}
+
+export function formatLocation(location: Location): string {
+  return [location.roadName, location.area, location.suburb, location.city].filter(Boolean).join(', ');
+}
@@ -0,0 +1,108 @@
+import type { Furnishing, Status, Property } from '../backend';
+
+// Updates are sent concurrently in batches of this size
+export const BULK_BATCH_SIZE = 10;
+
+export type BulkPropertyChange =
+  | { kind: 'status'; status: Status }
+  | { kind: 'price'; percent: number }
+  | { kind: 'furnishing'; furnishing: Furnishing }
+  | { kind: 'archive' };
+
+export interface BulkPropertyFailure {
+  propertyId: string;
+  title: string;
+  message: string;
+}
+
+export interface BulkPropertyResult {
+  succeededCount: number;
+  failures: BulkPropertyFailure[];
+}
+
+/**
+ * Applies a percentage change to a price, rounding to the nearest rupee
+ * and never going below zero
+ */
+export function adjustPrice(price: bigint, percent: number): bigint {
+  const adjusted = Math.round(Number(price) * (1 + percent / 100));
+  return BigInt(Math.max(0, adjusted));
+}
+
+export function describeBulkChange(change: BulkPropertyChange): string {
+  switch (change.kind) {
+    case 'status':
+      return `Status changed to ${change.status}`;
+    case 'price':
+      return `Price ${change.percent >= 0 ? 'increased' : 'reduced'} by ${Math.abs(change.percent)}%`;
+    case 'furnishing':
+      return `Furnishing changed to ${change.furnishing}`;
+    case 'archive':
+      return 'Archived';
+  }
+}
+
+// Spreadsheet apps run cells starting with these as formulas (a leading tab or carriage return included);
+// plain numbers such as a negative longitude are safe
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+
+function csvValue(value: string): string {
+  const text = FORMULA_PREFIX.test(value) && !NUMBER.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Builds a CSV of the given properties using the property import headers,
+ * so an export can be edited and imported again
+ */
+export function buildPropertiesCsv(properties: Property[]): string {
+  const headers = [
+    'id',
+    'title',
+    'description',
+    'city',
+    'suburb',
+    'area',
+    'roadName',
+    'price',
+    'category',
+    'propertyType',
+    'configuration',
+    'furnishing',
+    'status',
+    'lat',
+    'lng',
+  ];
+  const rows = properties.map((p) => [
+    p.id,
+    p.title,
+    p.description,
+    p.location.city,
+    p.location.suburb,
+    p.location.area,
+    p.location.roadName,
+    p.price.toString(),
+    p.category,
+    p.propertyType,
+    p.configuration,
+    p.furnishing,
+    p.status,
+    p.coordinates.lat.toString(),
+    p.coordinates.lng.toString(),
+  ]);
+  return [headers, ...rows].map((row) => row.map(csvValue).join(',')).join('\n');
+}
+
+export function downloadPropertiesCsv(properties: Property[], filename: string): void {
+  const blob = new Blob([buildPropertiesCsv(properties)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', `${filename}.csv`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
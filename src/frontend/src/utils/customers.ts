@@ -0,0 +1,47 @@
+import type { Customer, Inquiry } from '../backend';
+import { normalizeContactInfo } from './inquiryDuplicates';
+
+/**
+ * Finds the customer a new inquiry with this contact would be linked to,
+ * matching phone numbers by digits and emails case-insensitively as the backend does
+ */
+export function findCustomerByContact(customers: Customer[], contactInfo: string): Customer | undefined {
+  const contactKey = normalizeContactInfo(contactInfo);
+  if (!contactKey) return undefined;
+  return customers.find(
+    (c) => normalizeContactInfo(c.phone) === contactKey || normalizeContactInfo(c.email) === contactKey
+  );
+}
+
+/**
+ * The customer's inquiries across all properties, newest first
+ */
+export function getCustomerInquiries(inquiries: Inquiry[], customerId: string): Inquiry[] {
+  return inquiries
+    .filter((i) => i.customerId === customerId)
+    .sort((a, b) => (a.createdAt > b.createdAt ? -1 : a.createdAt < b.createdAt ? 1 : 0));
+}
+
+export function formatBudget(customer: Pick<Customer, 'budgetMin' | 'budgetMax'>): string {
+  const format = (amount: bigint) => `₹${Number(amount).toLocaleString()}`;
+  if (customer.budgetMin > 0n && customer.budgetMax > 0n) {
+    return `${format(customer.budgetMin)} – ${format(customer.budgetMax)}`;
+  }
+  if (customer.budgetMax > 0n) return `Up to ${format(customer.budgetMax)}`;
+  if (customer.budgetMin > 0n) return `From ${format(customer.budgetMin)}`;
+  return 'Not specified';
+}
+
+/**
+ * Matches the customer's name, phone number or email against a search term
+ */
+export function matchesCustomerSearch(customer: Customer, term: string): boolean {
+  const query = term.trim().toLowerCase();
+  if (!query) return true;
+  const digits = query.replace(/\D/g, '');
+  return (
+    customer.name.toLowerCase().includes(query) ||
+    customer.email.toLowerCase().includes(query) ||
+    (digits.length > 0 && customer.phone.replace(/\D/g, '').includes(digits))
+  );
+}
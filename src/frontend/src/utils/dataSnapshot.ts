@@ -0,0 +1,748 @@
+import { Principal } from '@dfinity/principal';
+import {
+  ExternalBlob,
+  Category,
+  Configuration,
+  Furnishing,
+  Outcome,
+  PropertyType,
+  ActivityKind,
+  Role,
+  Source,
+  Status,
+  Status__1,
+  Strategy,
+  VisitOutcome,
+  type AdvancedFilter,
+  type Customer,
+  type DataSnapshot,
+  type Inquiry,
+  type MapPreset,
+  type MatchAlert,
+  type Profile,
+  type PricePoint,
+  type Property,
+  type PropertyChange,
+  type Requirement,
+  type Rule,
+  type SearchCriteria,
+  type SiteVisit,
+  type UserProfile,
+  type Zone,
+} from '../backend';
+
+const SNAPSHOT_FORMAT = 'real-estate-crm-snapshot';
+const SNAPSHOT_VERSION = 1;
+
+interface SerializedAgent {
+  id: string;
+  name: string;
+  contactInfo: string;
+  role: Role;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SerializedProperty {
+  id: string;
+  title: string;
+  description: string;
+  location: Property['location'];
+  coordinates: Property['coordinates'];
+  price: string;
+  category: Category;
+  propertyType: PropertyType;
+  configuration: Configuration;
+  furnishing: Furnishing;
+  status: Status;
+  listedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  // Base64-encoded image bytes, so the snapshot survives blob cleanup after a reset
+  images: string[];
+  // Absent in snapshots taken before archiving existed
+  archived?: boolean;
+}
+
+interface SerializedActivity {
+  kind: ActivityKind;
+  text: string;
+  author: string;
+  createdAt: string;
+}
+
+interface SerializedClosure {
+  outcome: Outcome;
+  finalPrice: string;
+  lostReason: string;
+  closedAt: string;
+}
+
+interface SerializedCustomer {
+  id: string;
+  name: string;
+  phone: string;
+  email: string;
+  budgetMin: string;
+  budgetMax: string;
+  preferredSuburbs: string[];
+  preferredConfigurations: Configuration[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SerializedInquiry {
+  id: string;
+  propertyId: string;
+  customerName: string;
+  contactInfo: string;
+  // Absent in snapshots taken before customers existed; the backend links these up by contact details
+  customerId?: string;
+  source: Source;
+  status: Status__1;
+  assignedAgent: string;
+  // Snapshots taken before the activity log have a single notes string instead
+  notes?: string;
+  activity?: SerializedActivity[];
+  createdAt: string;
+  updatedAt: string;
+  // Absent in snapshots taken before follow-ups existed
+  followUpAt?: string;
+  followUpNote?: string;
+  // Absent in snapshots taken before outcomes existed, and for inquiries not closed with one
+  closure?: SerializedClosure;
+}
+
+interface SerializedPropertyChange {
+  changedBy: string;
+  changedAt: string;
+  changes: PropertyChange['changes'];
+}
+
+interface SerializedPropertyHistory {
+  propertyId: string;
+  entries: SerializedPropertyChange[];
+}
+
+interface SerializedPricePoint {
+  price: string;
+  changedBy: string;
+  changedAt: string;
+}
+
+interface SerializedPriceHistory {
+  propertyId: string;
+  points: SerializedPricePoint[];
+}
+
+interface SerializedSiteVisit {
+  id: string;
+  inquiryId: string;
+  propertyId: string;
+  agent: string;
+  startsAt: string;
+  endsAt: string;
+  // Absent while the visit is still upcoming
+  outcome?: VisitOutcome;
+  bookedBy: string;
+  createdAt: string;
+}
+
+interface SerializedAdvancedFilter extends Omit<AdvancedFilter, 'priceRanges'> {
+  priceRanges: [string | null, string | null][];
+}
+
+interface SerializedRequirement {
+  id: string;
+  customerId: string;
+  agent: string;
+  filter: SerializedAdvancedFilter;
+  note: string;
+  open: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SerializedMatchAlert {
+  id: string;
+  requirementId: string;
+  propertyId: string;
+  agent: string;
+  createdAt: string;
+}
+
+interface SerializedAssignmentRule {
+  id: string;
+  name: string;
+  strategy: Strategy;
+  location: string;
+  sources: Source[];
+  agents: string[];
+  enabled: boolean;
+  priority: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SerializedAssignmentCursor {
+  ruleId: string;
+  cursor: string;
+}
+
+interface SerializedSearchCriteria extends Omit<SearchCriteria, 'minPrice' | 'maxPrice'> {
+  minPrice?: string;
+  maxPrice?: string;
+}
+
+interface SerializedMapPreset {
+  id: string;
+  name: string;
+  owner: string;
+  filters: SerializedSearchCriteria;
+  sharedWithTeam: boolean;
+  pinnedBy: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SerializedZone {
+  id: string;
+  name: string;
+  points: Zone['points'];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SerializedUserProfile extends UserProfile {
+  principal: string;
+}
+
+interface SerializedSnapshot {
+  format: string;
+  version: number;
+  createdAt: string;
+  agents: SerializedAgent[];
+  properties: SerializedProperty[];
+  inquiries: SerializedInquiry[];
+  // Absent in snapshots taken before customers existed
+  customers?: SerializedCustomer[];
+  userProfiles: SerializedUserProfile[];
+  // Absent in snapshots taken before property change history was included
+  propertyHistory?: SerializedPropertyHistory[];
+  // Absent in snapshots taken before price history was included
+  priceHistory?: SerializedPriceHistory[];
+  // Absent in snapshots taken before site visits were included
+  siteVisits?: SerializedSiteVisit[];
+  // Absent in snapshots taken before buyer requirements were included
+  requirements?: SerializedRequirement[];
+  requirementAlerts?: SerializedMatchAlert[];
+  // Absent in snapshots taken before assignment rules were included
+  assignmentRules?: SerializedAssignmentRule[];
+  assignmentCursors?: SerializedAssignmentCursor[];
+  // Absent in snapshots taken before map presets were included
+  mapPresets?: SerializedMapPreset[];
+  // Absent in snapshots taken before zones were included
+  zones?: SerializedZone[];
+}
+
+export interface SnapshotSummary {
+  createdAt: Date;
+  agentCount: number;
+  propertyCount: number;
+  inquiryCount: number;
+  customerCount: number;
+  userProfileCount: number;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function expectEnum<T extends string>(values: Record<string, T>, value: unknown, field: string): T {
+  const allowed = Object.values(values);
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new Error(`Invalid ${field} value: ${String(value)}`);
+  }
+  return value as T;
+}
+
+function expectArray<T>(value: unknown, field: string): T[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Snapshot is missing ${field}`);
+  }
+  return value as T[];
+}
+
+function parseSearchCriteria(criteria: SerializedSearchCriteria): SearchCriteria {
+  return {
+    ...criteria,
+    category: criteria.category !== undefined ? expectEnum(Category, criteria.category, 'category') : undefined,
+    propertyType:
+      criteria.propertyType !== undefined ? expectEnum(PropertyType, criteria.propertyType, 'property type') : undefined,
+    configuration:
+      criteria.configuration !== undefined ? expectEnum(Configuration, criteria.configuration, 'configuration') : undefined,
+    furnishing: criteria.furnishing !== undefined ? expectEnum(Furnishing, criteria.furnishing, 'furnishing') : undefined,
+    status: criteria.status !== undefined ? expectEnum(Status, criteria.status, 'property status') : undefined,
+    minPrice: criteria.minPrice !== undefined ? BigInt(criteria.minPrice) : undefined,
+    maxPrice: criteria.maxPrice !== undefined ? BigInt(criteria.maxPrice) : undefined,
+  };
+}
+
+function parseAdvancedFilter(filter: SerializedAdvancedFilter): AdvancedFilter {
+  return {
+    categories: expectArray<string>(filter.categories, 'categories').map((c) => expectEnum(Category, c, 'category')),
+    propertyTypes: expectArray<string>(filter.propertyTypes, 'property types').map((t) =>
+      expectEnum(PropertyType, t, 'property type')
+    ),
+    configurations: expectArray<string>(filter.configurations, 'configurations').map((c) =>
+      expectEnum(Configuration, c, 'configuration')
+    ),
+    furnishings: expectArray<string>(filter.furnishings, 'furnishings').map((f) => expectEnum(Furnishing, f, 'furnishing')),
+    statuses: expectArray<string>(filter.statuses, 'statuses').map((st) => expectEnum(Status, st, 'property status')),
+    locations: expectArray(filter.locations, 'locations'),
+    priceRanges: expectArray<[string | null, string | null]>(filter.priceRanges, 'price ranges').map(([min, max]) => [
+      min !== null ? BigInt(min) : null,
+      max !== null ? BigInt(max) : null,
+    ]),
+    coordinateFilters: expectArray(filter.coordinateFilters, 'coordinate filters'),
+  };
+}
+
+/**
+ * Serialize a backend snapshot to JSON, converting bigint, Principal and
+ * ExternalBlob values into plain strings
+ */
+export async function serializeSnapshot(snapshot: DataSnapshot): Promise<string> {
+  const properties = await Promise.all(
+    snapshot.properties.map(async (p): Promise<SerializedProperty> => ({
+      id: p.id,
+      title: p.title,
+      description: p.description,
+      location: p.location,
+      coordinates: p.coordinates,
+      price: p.price.toString(),
+      category: p.category,
+      propertyType: p.propertyType,
+      configuration: p.configuration,
+      furnishing: p.furnishing,
+      status: p.status,
+      listedBy: p.listedBy.toText(),
+      createdAt: p.createdAt.toString(),
+      updatedAt: p.updatedAt.toString(),
+      images: await Promise.all(p.images.map(async (image) => bytesToBase64(await image.getBytes()))),
+      archived: p.archived,
+    }))
+  );
+
+  const serialized: SerializedSnapshot = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: snapshot.createdAt.toString(),
+    agents: snapshot.agents.map((a) => ({
+      id: a.id.toText(),
+      name: a.name,
+      contactInfo: a.contactInfo,
+      role: a.role,
+      active: a.active,
+      createdAt: a.createdAt.toString(),
+      updatedAt: a.updatedAt.toString(),
+    })),
+    properties,
+    inquiries: snapshot.inquiries.map((i) => ({
+      id: i.id,
+      propertyId: i.propertyId,
+      customerName: i.customerName,
+      contactInfo: i.contactInfo,
+      customerId: i.customerId,
+      source: i.source,
+      status: i.status,
+      assignedAgent: i.assignedAgent.toText(),
+      activity: i.activity.map((entry) => ({
+        kind: entry.kind,
+        text: entry.text,
+        author: entry.author.toText(),
+        createdAt: entry.createdAt.toString(),
+      })),
+      createdAt: i.createdAt.toString(),
+      updatedAt: i.updatedAt.toString(),
+      followUpAt: i.followUpAt?.toString(),
+      followUpNote: i.followUpNote,
+      closure: i.closure && {
+        outcome: i.closure.outcome,
+        finalPrice: i.closure.finalPrice.toString(),
+        lostReason: i.closure.lostReason,
+        closedAt: i.closure.closedAt.toString(),
+      },
+    })),
+    customers: snapshot.customers.map((c) => ({
+      id: c.id,
+      name: c.name,
+      phone: c.phone,
+      email: c.email,
+      budgetMin: c.budgetMin.toString(),
+      budgetMax: c.budgetMax.toString(),
+      preferredSuburbs: c.preferredSuburbs,
+      preferredConfigurations: c.preferredConfigurations,
+      createdAt: c.createdAt.toString(),
+      updatedAt: c.updatedAt.toString(),
+    })),
+    userProfiles: snapshot.userProfiles.map(([principal, profile]) => ({
+      principal: principal.toText(),
+      name: profile.name,
+      contactInfo: profile.contactInfo,
+    })),
+    propertyHistory: snapshot.propertyHistory.map(([propertyId, entries]) => ({
+      propertyId,
+      entries: entries.map((entry) => ({
+        changedBy: entry.changedBy.toText(),
+        changedAt: entry.changedAt.toString(),
+        changes: entry.changes,
+      })),
+    })),
+    priceHistory: snapshot.priceHistory.map(([propertyId, points]) => ({
+      propertyId,
+      points: points.map((point) => ({
+        price: point.price.toString(),
+        changedBy: point.changedBy.toText(),
+        changedAt: point.changedAt.toString(),
+      })),
+    })),
+    siteVisits: snapshot.siteVisits.map((v) => ({
+      id: v.id,
+      inquiryId: v.inquiryId,
+      propertyId: v.propertyId,
+      agent: v.agent.toText(),
+      startsAt: v.startsAt.toString(),
+      endsAt: v.endsAt.toString(),
+      outcome: v.outcome,
+      bookedBy: v.bookedBy.toText(),
+      createdAt: v.createdAt.toString(),
+    })),
+    requirements: snapshot.requirements.map((r) => ({
+      id: r.id,
+      customerId: r.customerId,
+      agent: r.agent.toText(),
+      filter: {
+        ...r.filter,
+        priceRanges: r.filter.priceRanges.map(([min, max]): [string | null, string | null] => [
+          min !== null ? min.toString() : null,
+          max !== null ? max.toString() : null,
+        ]),
+      },
+      note: r.note,
+      open: r.open,
+      createdAt: r.createdAt.toString(),
+      updatedAt: r.updatedAt.toString(),
+    })),
+    requirementAlerts: snapshot.requirementAlerts.map((a) => ({
+      id: a.id,
+      requirementId: a.requirementId,
+      propertyId: a.propertyId,
+      agent: a.agent.toText(),
+      createdAt: a.createdAt.toString(),
+    })),
+    assignmentRules: snapshot.assignmentRules.map((r) => ({
+      id: r.id,
+      name: r.name,
+      strategy: r.strategy,
+      location: r.location,
+      sources: r.sources,
+      agents: r.agents.map((agent) => agent.toText()),
+      enabled: r.enabled,
+      priority: r.priority.toString(),
+      createdAt: r.createdAt.toString(),
+      updatedAt: r.updatedAt.toString(),
+    })),
+    assignmentCursors: snapshot.assignmentCursors.map(([ruleId, cursor]) => ({ ruleId, cursor: cursor.toString() })),
+    mapPresets: snapshot.mapPresets.map((p) => ({
+      id: p.id,
+      name: p.name,
+      owner: p.owner.toText(),
+      filters: {
+        ...p.filters,
+        minPrice: p.filters.minPrice?.toString(),
+        maxPrice: p.filters.maxPrice?.toString(),
+      },
+      sharedWithTeam: p.sharedWithTeam,
+      pinnedBy: p.pinnedBy.map((agent) => agent.toText()),
+      createdAt: p.createdAt.toString(),
+      updatedAt: p.updatedAt.toString(),
+    })),
+    zones: snapshot.zones.map((z) => ({
+      id: z.id,
+      name: z.name,
+      points: z.points,
+      createdBy: z.createdBy.toText(),
+      createdAt: z.createdAt.toString(),
+      updatedAt: z.updatedAt.toString(),
+    })),
+  };
+
+  return JSON.stringify(serialized);
+}
+
+/**
+ * Parse a snapshot file produced by serializeSnapshot back into backend types.
+ * Throws a descriptive error when the file is not a valid snapshot.
+ */
+export function parseSnapshot(json: string): DataSnapshot {
+  let raw: SerializedSnapshot;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Snapshot file is not valid JSON');
+  }
+
+  if (!raw || raw.format !== SNAPSHOT_FORMAT) {
+    throw new Error('File is not an application data snapshot');
+  }
+  if (raw.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${raw.version}`);
+  }
+
+  const agents: Profile[] = expectArray<SerializedAgent>(raw.agents, 'agents').map((a) => ({
+    id: Principal.fromText(a.id),
+    name: a.name,
+    contactInfo: a.contactInfo,
+    role: expectEnum(Role, a.role, 'role'),
+    active: a.active,
+    createdAt: BigInt(a.createdAt),
+    updatedAt: BigInt(a.updatedAt),
+  }));
+
+  const properties: Property[] = expectArray<SerializedProperty>(raw.properties, 'properties').map((p) => ({
+    id: p.id,
+    title: p.title,
+    description: p.description,
+    location: p.location,
+    coordinates: p.coordinates,
+    price: BigInt(p.price),
+    category: expectEnum(Category, p.category, 'category'),
+    propertyType: expectEnum(PropertyType, p.propertyType, 'property type'),
+    configuration: expectEnum(Configuration, p.configuration, 'configuration'),
+    furnishing: expectEnum(Furnishing, p.furnishing, 'furnishing'),
+    status: expectEnum(Status, p.status, 'property status'),
+    listedBy: Principal.fromText(p.listedBy),
+    createdAt: BigInt(p.createdAt),
+    updatedAt: BigInt(p.updatedAt),
+    images: expectArray<string>(p.images, 'images').map((image) => ExternalBlob.fromBytes(base64ToBytes(image))),
+    archived: p.archived ?? false,
+  }));
+
+  const inquiries: Inquiry[] = expectArray<SerializedInquiry>(raw.inquiries, 'inquiries').map((i) => ({
+    id: i.id,
+    propertyId: i.propertyId,
+    customerName: i.customerName,
+    contactInfo: i.contactInfo,
+    customerId: i.customerId ?? '',
+    source: expectEnum(Source, i.source, 'source'),
+    status: expectEnum(Status__1, i.status, 'inquiry status'),
+    assignedAgent: Principal.fromText(i.assignedAgent),
+    activity: i.activity
+      ? expectArray<SerializedActivity>(i.activity, 'activity').map((entry) => ({
+          kind: expectEnum(ActivityKind, entry.kind, 'activity kind'),
+          text: entry.text,
+          author: Principal.fromText(entry.author),
+          createdAt: BigInt(entry.createdAt),
+        }))
+      : i.notes
+        ? [{ kind: ActivityKind.note, text: i.notes, author: Principal.fromText(i.assignedAgent), createdAt: BigInt(i.createdAt) }]
+        : [],
+    createdAt: BigInt(i.createdAt),
+    updatedAt: BigInt(i.updatedAt),
+    followUpAt: i.followUpAt !== undefined ? BigInt(i.followUpAt) : undefined,
+    followUpNote: i.followUpNote ?? '',
+    closure: i.closure
+      ? {
+          outcome: expectEnum(Outcome, i.closure.outcome, 'outcome'),
+          finalPrice: BigInt(i.closure.finalPrice),
+          lostReason: i.closure.lostReason,
+          closedAt: BigInt(i.closure.closedAt),
+        }
+      : undefined,
+  }));
+
+  const customers: Customer[] = expectArray<SerializedCustomer>(raw.customers ?? [], 'customers').map((c) => ({
+    id: c.id,
+    name: c.name,
+    phone: c.phone,
+    email: c.email,
+    budgetMin: BigInt(c.budgetMin),
+    budgetMax: BigInt(c.budgetMax),
+    preferredSuburbs: expectArray<string>(c.preferredSuburbs, 'preferred suburbs'),
+    preferredConfigurations: expectArray<string>(c.preferredConfigurations, 'preferred configurations').map((configuration) =>
+      expectEnum(Configuration, configuration, 'configuration')
+    ),
+    createdAt: BigInt(c.createdAt),
+    updatedAt: BigInt(c.updatedAt),
+  }));
+
+  const userProfiles: Array<[Principal, UserProfile]> = expectArray<SerializedUserProfile>(
+    raw.userProfiles,
+    'user profiles'
+  ).map((u) => [Principal.fromText(u.principal), { name: u.name, contactInfo: u.contactInfo }]);
+
+  const propertyHistory: Array<[string, PropertyChange[]]> = expectArray<SerializedPropertyHistory>(
+    raw.propertyHistory ?? [],
+    'property history'
+  ).map((h) => [
+    h.propertyId,
+    expectArray<SerializedPropertyChange>(h.entries, 'property history entries').map((entry) => ({
+      changedBy: Principal.fromText(entry.changedBy),
+      changedAt: BigInt(entry.changedAt),
+      changes: expectArray(entry.changes, 'property changes'),
+    })),
+  ]);
+
+  const priceHistory: Array<[string, PricePoint[]]> = expectArray<SerializedPriceHistory>(
+    raw.priceHistory ?? [],
+    'price history'
+  ).map((h) => [
+    h.propertyId,
+    expectArray<SerializedPricePoint>(h.points, 'price history points').map((point) => ({
+      price: BigInt(point.price),
+      changedBy: Principal.fromText(point.changedBy),
+      changedAt: BigInt(point.changedAt),
+    })),
+  ]);
+
+  const siteVisits: SiteVisit[] = expectArray<SerializedSiteVisit>(raw.siteVisits ?? [], 'site visits').map((v) => ({
+    id: v.id,
+    inquiryId: v.inquiryId,
+    propertyId: v.propertyId,
+    agent: Principal.fromText(v.agent),
+    startsAt: BigInt(v.startsAt),
+    endsAt: BigInt(v.endsAt),
+    outcome: v.outcome !== undefined ? expectEnum(VisitOutcome, v.outcome, 'visit outcome') : undefined,
+    bookedBy: Principal.fromText(v.bookedBy),
+    createdAt: BigInt(v.createdAt),
+  }));
+
+  const requirements: Requirement[] = expectArray<SerializedRequirement>(raw.requirements ?? [], 'requirements').map((r) => ({
+    id: r.id,
+    customerId: r.customerId,
+    agent: Principal.fromText(r.agent),
+    filter: parseAdvancedFilter(r.filter),
+    note: r.note,
+    open: r.open,
+    createdAt: BigInt(r.createdAt),
+    updatedAt: BigInt(r.updatedAt),
+  }));
+
+  const requirementAlerts: MatchAlert[] = expectArray<SerializedMatchAlert>(
+    raw.requirementAlerts ?? [],
+    'requirement alerts'
+  ).map((a) => ({
+    id: a.id,
+    requirementId: a.requirementId,
+    propertyId: a.propertyId,
+    agent: Principal.fromText(a.agent),
+    createdAt: BigInt(a.createdAt),
+  }));
+
+  const assignmentRules: Rule[] = expectArray<SerializedAssignmentRule>(
+    raw.assignmentRules ?? [],
+    'assignment rules'
+  ).map((r) => ({
+    id: r.id,
+    name: r.name,
+    strategy: expectEnum(Strategy, r.strategy, 'assignment strategy'),
+    location: r.location,
+    sources: expectArray<string>(r.sources, 'rule sources').map((source) => expectEnum(Source, source, 'source')),
+    agents: expectArray<string>(r.agents, 'rule agents').map((agent) => Principal.fromText(agent)),
+    enabled: r.enabled,
+    priority: BigInt(r.priority),
+    createdAt: BigInt(r.createdAt),
+    updatedAt: BigInt(r.updatedAt),
+  }));
+
+  const assignmentCursors: Array<[string, bigint]> = expectArray<SerializedAssignmentCursor>(
+    raw.assignmentCursors ?? [],
+    'assignment cursors'
+  ).map((c) => [c.ruleId, BigInt(c.cursor)]);
+
+  const mapPresets: MapPreset[] = expectArray<SerializedMapPreset>(raw.mapPresets ?? [], 'map presets').map((p) => ({
+    id: p.id,
+    name: p.name,
+    owner: Principal.fromText(p.owner),
+    filters: parseSearchCriteria(p.filters),
+    sharedWithTeam: p.sharedWithTeam,
+    pinnedBy: expectArray<string>(p.pinnedBy, 'preset pins').map((agent) => Principal.fromText(agent)),
+    createdAt: BigInt(p.createdAt),
+    updatedAt: BigInt(p.updatedAt),
+  }));
+
+  const zones: Zone[] = expectArray<SerializedZone>(raw.zones ?? [], 'zones').map((z) => ({
+    id: z.id,
+    name: z.name,
+    points: expectArray(z.points, 'zone points'),
+    createdBy: Principal.fromText(z.createdBy),
+    createdAt: BigInt(z.createdAt),
+    updatedAt: BigInt(z.updatedAt),
+  }));
+
+  return {
+    createdAt: BigInt(raw.createdAt),
+    agents,
+    properties,
+    inquiries,
+    customers,
+    userProfiles,
+    propertyHistory,
+    priceHistory,
+    siteVisits,
+    requirements,
+    requirementAlerts,
+    assignmentRules,
+    assignmentCursors,
+    mapPresets,
+    zones,
+  };
+}
+
+export function summarizeSnapshot(snapshot: DataSnapshot): SnapshotSummary {
+  return {
+    // Backend timestamps are in nanoseconds
+    createdAt: new Date(Number(snapshot.createdAt / 1_000_000n)),
+    agentCount: snapshot.agents.length,
+    propertyCount: snapshot.properties.length,
+    inquiryCount: snapshot.inquiries.length,
+    customerCount: snapshot.customers.length,
+    userProfileCount: snapshot.userProfiles.length,
+  };
+}
+
+/**
+ * Serialize the snapshot and trigger a browser download of the JSON file
+ */
+export async function downloadSnapshot(snapshot: DataSnapshot): Promise<void> {
+  const json = await serializeSnapshot(snapshot);
+  const timestamp = summarizeSnapshot(snapshot).createdAt.toISOString().replace(/[:.]/g, '-');
+
+  const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', `app-data-snapshot-${timestamp}.json`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
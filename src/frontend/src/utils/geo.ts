@@ -0,0 +1,45 @@
+import type { Coordinates, Property } from '../backend';
+import type { MapFilters } from '../components/PropertyMap';
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle (haversine) distance in kilometres. The backend's Property.distanceKm
+ * uses the same formula, so a radius selects the same listings on either side.
+ */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = Math.PI / 180;
+  const dLat = (to.lat - from.lat) * toRadians;
+  const dLng = (to.lng - from.lng) * toRadians;
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(from.lat * toRadians) * Math.cos(to.lat * toRadians) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(Math.min(1, a)));
+}
+
+/**
+ * The centre of the map's radius filter, or undefined unless a centre and a radius are both set
+ */
+export function getRadiusCenter(filters: MapFilters): Coordinates | undefined {
+  if (!filters.radiusKm || filters.centerLat === undefined || filters.centerLng === undefined) return undefined;
+  return { lat: filters.centerLat, lng: filters.centerLng };
+}
+
+/**
+ * Keeps the properties within the filter's radius; with no radius set it filters nothing
+ */
+export function filterByRadius(properties: Property[], filters: MapFilters): Property[] {
+  const center = getRadiusCenter(filters);
+  if (!center) return properties;
+  return properties.filter((p) => distanceKm(center, p.coordinates) <= filters.radiusKm!);
+}
+
+export function sortByDistance(properties: Property[], center: Coordinates, farthestFirst = false): Property[] {
+  const direction = farthestFirst ? -1 : 1;
+  return [...properties].sort(
+    (a, b) => direction * (distanceKm(center, a.coordinates) - distanceKm(center, b.coordinates))
+  );
+}
+
+export function formatDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+}
@@ -0,0 +1,35 @@
+import { ActivityKind, type Activity } from '../backend';
+
+export const ACTIVITY_KIND_LABELS: Record<ActivityKind, string> = {
+  [ActivityKind.call]: 'Call',
+  [ActivityKind.siteVisit]: 'Site visit',
+  [ActivityKind.message]: 'Message',
+  [ActivityKind.note]: 'Note',
+};
+
+// Website inquiries are logged by the anonymous visitor who submitted them
+const ANONYMOUS_PRINCIPAL = '2vxsx-fae';
+
+export function isVisitorActivity(activity: Activity): boolean {
+  return activity.author.toString() === ANONYMOUS_PRINCIPAL;
+}
+
+/**
+ * Newest entry first, the order the timeline reads in
+ */
+export function sortActivityNewestFirst(activity: Activity[]): Activity[] {
+  return [...activity].sort((a, b) => Number(b.createdAt - a.createdAt));
+}
+
+/**
+ * Flattens an activity log into a single line, oldest entry first, for spreadsheet exports
+ */
+export function formatActivityForExport(activity: Activity[]): string {
+  return activity
+    .map((entry) => {
+      // Backend timestamps are in nanoseconds
+      const date = new Date(Number(entry.createdAt / 1_000_000n)).toLocaleString();
+      return `${date} ${ACTIVITY_KIND_LABELS[entry.kind]}: ${entry.text}`;
+    })
+    .join(' | ');
+}
@@ -0,0 +1,40 @@
+import type { Inquiry } from '../backend';
+
+/**
+ * Normalizes contact information for duplicate detection.
+ * Emails compare case-insensitively and phone numbers by digits only,
+ * matching the backend merge check.
+ */
+export function normalizeContactInfo(contactInfo: string): string {
+  const trimmed = contactInfo.trim();
+  if (trimmed.includes('@')) {
+    return trimmed.toLowerCase();
+  }
+  return trimmed.replace(/\D/g, '');
+}
+
+/**
+ * Groups inquiries that share contact information for the same property.
+ * Only groups with more than one inquiry are returned, each sorted oldest first
+ * so the first entry is the one that survives a merge.
+ */
+export function findDuplicateInquiryGroups(inquiries: Inquiry[]): Inquiry[][] {
+  const groups = new Map<string, Inquiry[]>();
+
+  for (const inquiry of inquiries) {
+    const contactKey = normalizeContactInfo(inquiry.contactInfo);
+    if (!contactKey) continue;
+
+    const key = `${inquiry.propertyId}|${contactKey}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(inquiry);
+    } else {
+      groups.set(key, [inquiry]);
+    }
+  }
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => [...group].sort((a, b) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0)));
+}
@@ -0,0 +1,47 @@
+import { Status__1, type Inquiry } from '../backend';
+
+/**
+ * Returns the follow-up due date of an inquiry that is still open.
+ * Closed inquiries keep their last due date but no longer need chasing.
+ */
+export function pendingFollowUpDate(inquiry: Inquiry): Date | null {
+  if (inquiry.followUpAt === undefined || inquiry.status === Status__1.closed) return null;
+  // Backend timestamps are in nanoseconds
+  return new Date(Number(inquiry.followUpAt / 1_000_000n));
+}
+
+export function isFollowUpOverdue(inquiry: Inquiry, now: Date = new Date()): boolean {
+  const due = pendingFollowUpDate(inquiry);
+  return due !== null && due < now;
+}
+
+/**
+ * Due later today; follow-ups already past their time count as overdue instead.
+ */
+export function isFollowUpDueToday(inquiry: Inquiry, now: Date = new Date()): boolean {
+  const due = pendingFollowUpDate(inquiry);
+  return due !== null && due >= now && due.toDateString() === now.toDateString();
+}
+
+/**
+ * Oldest due date first, so the longest-waiting customers come first
+ */
+export function sortByFollowUpDate(inquiries: Inquiry[]): Inquiry[] {
+  return [...inquiries].sort((a, b) => Number((a.followUpAt ?? 0n) - (b.followUpAt ?? 0n)));
+}
+
+/**
+ * Converts a backend timestamp to the local "YYYY-MM-DDTHH:mm" value of a datetime-local input
+ */
+export function toDateTimeInputValue(time: bigint | undefined): string {
+  if (time === undefined) return '';
+  const date = new Date(Number(time / 1_000_000n));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function fromDateTimeInputValue(value: string): bigint | null {
+  if (!value) return null;
+  const millis = new Date(value).getTime();
+  return Number.isFinite(millis) ? BigInt(millis) * 1_000_000n : null;
+}
@@ -0,0 +1,43 @@
+import { Outcome, Status__1, type Inquiry } from '../backend';
+
+export const OUTCOME_LABELS: Record<Outcome, string> = {
+  [Outcome.won]: 'Won',
+  [Outcome.lost]: 'Lost',
+};
+
+// Offered as quick picks when closing an inquiry as lost; any other reason can be typed in
+export const LOST_REASONS = [
+  'Price too high',
+  'Bought or rented elsewhere',
+  'Location not suitable',
+  'Financing fell through',
+  'Stopped responding',
+] as const;
+
+export interface ConversionStats {
+  name: string;
+  total: number;
+  won: number;
+  lost: number;
+  // Closed without recording an outcome, including inquiries closed before outcomes existed
+  closedUnknown: number;
+  // Won inquiries as a percentage of all inquiries in the group
+  conversionRate: number;
+}
+
+/**
+ * Won/lost counts and conversion rate for a group of inquiries
+ */
+export function conversionStats(name: string, inquiries: Inquiry[]): ConversionStats {
+  const won = inquiries.filter((i) => i.closure?.outcome === Outcome.won).length;
+  const lost = inquiries.filter((i) => i.closure?.outcome === Outcome.lost).length;
+  const closedUnknown = inquiries.filter((i) => i.status === Status__1.closed && !i.closure).length;
+  return {
+    name,
+    total: inquiries.length,
+    won,
+    lost,
+    closedUnknown,
+    conversionRate: inquiries.length === 0 ? 0 : Math.round((won / inquiries.length) * 1000) / 10,
+  };
+}
@@ -0,0 +1,54 @@
+import type { MapFilters } from '../components/PropertyMap';
+import type { MapPreset, SearchCriteria } from '../backend';
+import type { Principal } from '@dfinity/principal';
+
+/**
+ * Converts the property map's filters into the search criteria the backend filters and stores presets with.
+ * Zones are filtered in the browser, so the selected zone is not part of the criteria.
+ */
+export function mapFiltersToCriteria(filters: MapFilters): SearchCriteria {
+  return {
+    category: filters.category,
+    propertyType: filters.propertyType,
+    configuration: filters.configuration,
+    furnishing: filters.furnishing,
+    minPrice: filters.minPrice ? BigInt(filters.minPrice) : undefined,
+    maxPrice: filters.maxPrice ? BigInt(filters.maxPrice) : undefined,
+    status: filters.status,
+    lat: filters.centerLat,
+    lng: filters.centerLng,
+    radius: filters.radiusKm,
+    city: filters.city,
+    suburb: filters.suburb,
+    area: filters.area,
+    roadName: filters.roadName,
+  };
+}
+
+/**
+ * Turns saved criteria back into map filters.
+ * Every field is present, so merging the result over the current filters clears anything the preset leaves unset.
+ */
+export function criteriaToMapFilters(criteria: SearchCriteria): MapFilters {
+  return {
+    category: criteria.category,
+    propertyType: criteria.propertyType,
+    configuration: criteria.configuration,
+    furnishing: criteria.furnishing,
+    minPrice: criteria.minPrice !== undefined ? Number(criteria.minPrice) : undefined,
+    maxPrice: criteria.maxPrice !== undefined ? Number(criteria.maxPrice) : undefined,
+    status: criteria.status,
+    radiusKm: criteria.radius,
+    centerLat: criteria.lat,
+    centerLng: criteria.lng,
+    city: criteria.city,
+    suburb: criteria.suburb,
+    area: criteria.area,
+    roadName: criteria.roadName,
+    zoneId: undefined,
+  };
+}
+
+export function isPinnedBy(preset: MapPreset, principal: Principal | undefined): boolean {
+  return !!principal && preset.pinnedBy.some((p) => p.toString() === principal.toString());
+}
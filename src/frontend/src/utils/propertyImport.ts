@@ -0,0 +1,296 @@
+import { Category, Configuration, Furnishing, PropertyType, type Coordinates, type Location } from '../backend';
+
+export type ImportField =
+  | 'title'
+  | 'description'
+  | 'city'
+  | 'suburb'
+  | 'area'
+  | 'roadName'
+  | 'price'
+  | 'category'
+  | 'propertyType'
+  | 'configuration'
+  | 'furnishing'
+  | 'lat'
+  | 'lng';
+
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  required: boolean;
+  // Header names recognised when guessing the column mapping
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'listing', 'property'] },
+  { key: 'description', label: 'Description', required: false, aliases: ['description', 'details', 'notes'] },
+  { key: 'city', label: 'City', required: true, aliases: ['city'] },
+  { key: 'suburb', label: 'Suburb', required: true, aliases: ['suburb', 'locality'] },
+  { key: 'area', label: 'Area', required: true, aliases: ['area', 'neighbourhood', 'neighborhood'] },
+  { key: 'roadName', label: 'Road Name', required: false, aliases: ['roadname', 'road', 'street', 'address'] },
+  { key: 'price', label: 'Price', required: true, aliases: ['price', 'amount', 'rent', 'cost'] },
+  { key: 'category', label: 'Category', required: true, aliases: ['category', 'listingtype'] },
+  { key: 'propertyType', label: 'Property Type', required: true, aliases: ['propertytype', 'type', 'usage'] },
+  { key: 'configuration', label: 'Configuration', required: true, aliases: ['configuration', 'config', 'bhk', 'layout'] },
+  { key: 'furnishing', label: 'Furnishing', required: true, aliases: ['furnishing', 'furnished'] },
+  { key: 'lat', label: 'Latitude', required: true, aliases: ['lat', 'latitude'] },
+  { key: 'lng', label: 'Longitude', required: true, aliases: ['lng', 'lon', 'long', 'longitude'] },
+];
+
+// Rows are created concurrently in batches of this size
+export const IMPORT_BATCH_SIZE = 10;
+
+// Column index for each field, or null when the field is not mapped
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface PropertyImportInput {
+  title: string;
+  description: string;
+  location: Location;
+  coordinates: Coordinates;
+  price: bigint;
+  category: Category;
+  propertyType: PropertyType;
+  configuration: Configuration;
+  furnishing: Furnishing;
+}
+
+export interface PropertyImportFailure {
+  index: number;
+  message: string;
+}
+
+export interface PropertyImportResult {
+  createdCount: number;
+  failures: PropertyImportFailure[];
+}
+
+export interface PropertyImportRow {
+  // 1-based row number in the spreadsheet file, counting the header and any blank rows
+  rowNumber: number;
+  title: string;
+  input: PropertyImportInput | null;
+  errors: string[];
+}
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9.]/g, '');
+}
+
+function buildLookup<T extends string>(labels: Record<T, string[]>): Map<string, T> {
+  const lookup = new Map<string, T>();
+  for (const [value, names] of Object.entries(labels) as Array<[T, string[]]>) {
+    lookup.set(normalizeKey(value), value);
+    for (const name of names) {
+      lookup.set(normalizeKey(name), value);
+    }
+  }
+  return lookup;
+}
+
+// Accept both the backend enum values and the labels shown in the UI
+const CATEGORY_LOOKUP = buildLookup<Category>({
+  [Category.resale]: ['Resale', 'Sale'],
+  [Category.rental]: ['Rental', 'Rent'],
+  [Category.underConstruction]: ['Under Construction'],
+});
+
+const PROPERTY_TYPE_LOOKUP = buildLookup<PropertyType>({
+  [PropertyType.residential]: ['Residential'],
+  [PropertyType.commercial]: ['Commercial'],
+  [PropertyType.industrial]: ['Industrial'],
+});
+
+const CONFIGURATION_LOOKUP = buildLookup<Configuration>({
+  [Configuration.rk1]: ['1 RK', 'RK'],
+  [Configuration.bhk1]: ['1 BHK'],
+  [Configuration.bhk1_5]: ['1.5 BHK'],
+  [Configuration.bhk2]: ['2 BHK'],
+  [Configuration.bhk2_5]: ['2.5 BHK'],
+  [Configuration.bhk3]: ['3 BHK'],
+  [Configuration.bhk3_5]: ['3.5 BHK'],
+  [Configuration.bhk4]: ['4 BHK'],
+  [Configuration.bhk5]: ['5 BHK'],
+  [Configuration.jodiFlat]: ['Jodi Flat', 'Jodi'],
+  [Configuration.duplex]: ['Duplex'],
+  [Configuration.penthouse]: ['Penthouse'],
+  [Configuration.bungalow]: ['Bungalow'],
+  [Configuration.independentHouse]: ['Independent House'],
+});
+
+const FURNISHING_LOOKUP = buildLookup<Furnishing>({
+  [Furnishing.unfurnished]: ['Unfurnished'],
+  [Furnishing.semiFurnished]: ['Semi Furnished', 'Semi'],
+  [Furnishing.furnished]: ['Furnished', 'Fully Furnished'],
+});
+
+const PRICE_MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  l: 100_000,
+  lac: 100_000,
+  lakh: 100_000,
+  lakhs: 100_000,
+  cr: 10_000_000,
+  crore: 10_000_000,
+  crores: 10_000_000,
+};
+
+/**
+ * Parses a price such as "₹1,25,00,000", "85 L" or "1.2 Cr" into rupees. Large numeric cells
+ * can arrive from Excel in exponent form, e.g. "1.25E+7"
+ */
+export function parsePrice(value: string): bigint | null {
+  const match = value
+    .toLowerCase()
+    .replace(/[,\s]/g, '')
+    .replace(/^(₹|rs\.?|inr)/, '')
+    .match(/^(\d+(?:\.\d+)?(?:e[+-]?\d+)?)([a-z]*)$/);
+  if (!match) return null;
+
+  const multiplier = match[2] ? PRICE_MULTIPLIERS[match[2]] : 1;
+  if (multiplier === undefined) return null;
+
+  const price = Math.round(Number(match[1]) * multiplier);
+  if (!Number.isSafeInteger(price)) return null;
+
+  return BigInt(price);
+}
+
+/**
+ * Guesses the column for each field from the spreadsheet header names
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalizedHeaders = headers.map(normalizeKey);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of IMPORT_FIELDS) {
+    const index = normalizedHeaders.findIndex(
+      (header, i) => !used.has(i) && (header === normalizeKey(field.key) || field.aliases.includes(header))
+    );
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+
+  return mapping;
+}
+
+/**
+ * Returns the labels of required fields that have no column mapped
+ */
+export function getUnmappedRequiredFields(mapping: ColumnMapping): string[] {
+  return IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === null).map((field) => field.label);
+}
+
+/**
+ * Validates each spreadsheet row against the property fields and enums,
+ * collecting every problem in the row rather than stopping at the first
+ */
+export function validateImportRows(rows: string[][], rowNumbers: number[], mapping: ColumnMapping): PropertyImportRow[] {
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const cell = (field: ImportField): string => {
+      const column = mapping[field];
+      // Drops the quote the CSV export puts in front of text that would otherwise run as a formula
+      return column === null ? '' : (row[column] ?? '').trim().replace(/^'(?=[=+\-@\t\r])/, '').trim();
+    };
+
+    for (const field of IMPORT_FIELDS) {
+      if (field.required && !cell(field.key)) {
+        errors.push(`${field.label} is required`);
+      }
+    }
+
+    const parseEnum = <T extends string>(field: ImportField, label: string, lookup: Map<string, T>): T | null => {
+      const value = cell(field);
+      if (!value) return null;
+      const parsed = lookup.get(normalizeKey(value));
+      if (!parsed) errors.push(`Unknown ${label} "${value}"`);
+      return parsed ?? null;
+    };
+
+    const category = parseEnum('category', 'category', CATEGORY_LOOKUP);
+    const propertyType = parseEnum('propertyType', 'property type', PROPERTY_TYPE_LOOKUP);
+    const configuration = parseEnum('configuration', 'configuration', CONFIGURATION_LOOKUP);
+    const furnishing = parseEnum('furnishing', 'furnishing', FURNISHING_LOOKUP);
+
+    const priceText = cell('price');
+    const price = priceText ? parsePrice(priceText) : null;
+    if (priceText && price === null) {
+      errors.push(`Invalid price "${priceText}"`);
+    }
+
+    const parseCoordinate = (field: ImportField, label: string, limit: number): number | null => {
+      const value = cell(field);
+      if (!value) return null;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) {
+        errors.push(`Invalid ${label} "${value}"`);
+        return null;
+      }
+      return parsed;
+    };
+
+    const lat = parseCoordinate('lat', 'latitude', 90);
+    const lng = parseCoordinate('lng', 'longitude', 180);
+
+    const isValid =
+      errors.length === 0 &&
+      category !== null &&
+      propertyType !== null &&
+      configuration !== null &&
+      furnishing !== null &&
+      price !== null &&
+      lat !== null &&
+      lng !== null;
+
+    return {
+      rowNumber: rowNumbers[index],
+      title: cell('title'),
+      errors,
+      input: isValid
+        ? {
+            title: cell('title'),
+            description: cell('description'),
+            location: {
+              city: cell('city'),
+              suburb: cell('suburb'),
+              area: cell('area'),
+              roadName: cell('roadName'),
+            },
+            coordinates: { lat, lng },
+            price,
+            category,
+            propertyType,
+            configuration,
+            furnishing,
+          }
+        : null,
+    };
+  });
+}
+
+/**
+ * Builds a CSV template with one example row using the expected headers
+ */
+export function buildImportTemplate(): string {
+  const headers = IMPORT_FIELDS.map((field) => field.key);
+  const example = [
+    'Spacious 2 BHK near station',
+    'East facing, covered parking',
+    'Mumbai',
+    'Mulund',
+    'Mulund West',
+    'LBS Marg',
+    '1.2 Cr',
+    'Resale',
+    'Residential',
+    '2 BHK',
+    'Semi Furnished',
+    '19.1726',
+    '72.9425',
+  ];
+  return [headers, example].map((record) => record.map((value) => `"${value}"`).join(',')).join('\n');
+}
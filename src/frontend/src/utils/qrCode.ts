@@ -0,0 +1,33 @@
+import QRCode from 'qrcode';
+
+/**
+ * Encodes text as a QR code at error correction level M, choosing the smallest version that fits
+ *
+ * @param text - The text to encode
+ * @returns Rows of modules where true is dark, without the quiet zone
+ */
+export function encodeQrCode(text: string): boolean[][] {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  return Array.from({ length: modules.size }, (_, y) =>
+    Array.from({ length: modules.size }, (_, x) => modules.get(y, x) === 1)
+  );
+}
+
+/**
+ * Renders a QR code as a standalone SVG document with the standard four-module quiet zone
+ */
+export function qrCodeToSvg(modules: boolean[][], moduleSize = 8): string {
+  const border = 4;
+  const dimension = (modules.length + border * 2) * moduleSize;
+  const path = modules
+    .flatMap((row, y) =>
+      row.map((dark, x) =>
+        dark ? `M${(x + border) * moduleSize},${(y + border) * moduleSize}h${moduleSize}v${moduleSize}h-${moduleSize}z` : ''
+      )
+    )
+    .join('');
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" width="${dimension}" height="${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/><path d="${path}" fill="#000000"/></svg>`
+  );
+}
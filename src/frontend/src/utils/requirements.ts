@@ -0,0 +1,79 @@
+import type { AdvancedFilter, Category, Configuration, Furnishing, Requirement } from '../backend';
+
+/**
+ * What a buyer is looking for, as edited in the requirement form
+ */
+export interface RequirementCriteria {
+  // Budget in rupees; 0 leaves that end of the range open
+  budgetMin: bigint;
+  budgetMax: bigint;
+  suburbs: string[];
+  configurations: Configuration[];
+  categories: Category[];
+  furnishings: Furnishing[];
+  // Radius around a map point, in the same units as the property map's radius filter
+  nearby: { lat: number; lng: number; radiusKm: number } | null;
+}
+
+/**
+ * Builds the advanced filter the backend matches listings against.
+ * Suburbs become locations with the other fields left empty, which the backend treats as "any".
+ */
+export function toAdvancedFilter(criteria: RequirementCriteria): AdvancedFilter {
+  const hasBudget = criteria.budgetMin > 0n || criteria.budgetMax > 0n;
+  return {
+    locations: criteria.suburbs.map((suburb) => ({ city: '', suburb, area: '', roadName: '' })),
+    categories: criteria.categories,
+    propertyTypes: [],
+    configurations: criteria.configurations,
+    furnishings: criteria.furnishings,
+    priceRanges: hasBudget
+      ? [[criteria.budgetMin > 0n ? criteria.budgetMin : null, criteria.budgetMax > 0n ? criteria.budgetMax : null]]
+      : [],
+    statuses: [],
+    coordinateFilters: criteria.nearby
+      ? [{ lat: criteria.nearby.lat, lng: criteria.nearby.lng, radius: criteria.nearby.radiusKm }]
+      : [],
+  };
+}
+
+export function fromAdvancedFilter(filter: AdvancedFilter): RequirementCriteria {
+  const [budgetMin, budgetMax] = filter.priceRanges[0] ?? [null, null];
+  const point = filter.coordinateFilters[0];
+  return {
+    budgetMin: budgetMin ?? 0n,
+    budgetMax: budgetMax ?? 0n,
+    suburbs: filter.locations.map((l) => l.suburb).filter(Boolean),
+    configurations: filter.configurations,
+    categories: filter.categories,
+    furnishings: filter.furnishings,
+    nearby: point ? { lat: point.lat, lng: point.lng, radiusKm: point.radius } : null,
+  };
+}
+
+/**
+ * A requirement with nothing in it would match every new listing
+ */
+export function hasCriteria(criteria: RequirementCriteria): boolean {
+  return (
+    criteria.budgetMin > 0n ||
+    criteria.budgetMax > 0n ||
+    criteria.suburbs.length > 0 ||
+    criteria.configurations.length > 0 ||
+    criteria.categories.length > 0 ||
+    criteria.furnishings.length > 0 ||
+    criteria.nearby !== null
+  );
+}
+
+/**
+ * The customer's requirements, open ones first and then newest first
+ */
+export function getCustomerRequirements(requirements: Requirement[], customerId: string): Requirement[] {
+  return requirements
+    .filter((r) => r.customerId === customerId)
+    .sort((a, b) => {
+      if (a.open !== b.open) return a.open ? -1 : 1;
+      return a.createdAt > b.createdAt ? -1 : a.createdAt < b.createdAt ? 1 : 0;
+    });
+}
@@ -0,0 +1,260 @@
+import { Category, Configuration, Furnishing, PropertyType, Source, Status } from '../backend';
+import type { MapFilters } from '../components/PropertyMap';
+
+/**
+ * Search param schemas for each routed page. Every field is optional so that
+ * default state keeps a clean URL, and anything unrecognised in a pasted link
+ * is dropped rather than breaking the page.
+ */
+
+export const PROPERTIES_TABS = ['all', 'resale', 'rental', 'underConstruction', 'archived'] as const;
+export type PropertiesTab = (typeof PROPERTIES_TABS)[number];
+
+// Distance sorts only apply while the map has a radius filter set
+export const PROPERTIES_SORTS = ['nearest', 'farthest'] as const;
+export type PropertiesSort = (typeof PROPERTIES_SORTS)[number];
+
+export const INQUIRIES_TABS = ['all', 'new', 'inProgress', 'followUp', 'closed', 'overdue', 'dueToday'] as const;
+export type InquiriesTab = (typeof INQUIRIES_TABS)[number];
+
+export const REPORTS_TABS = ['overview', 'properties', 'location', 'map-insights', 'inquiries', 'agents'] as const;
+export type ReportsTab = (typeof REPORTS_TABS)[number];
+
+export const VISITS_VIEWS = ['day', 'week'] as const;
+export type VisitsView = (typeof VISITS_VIEWS)[number];
+
+export const REPORTS_PRICE_RANGES = ['low', 'medium', 'high'] as const;
+export type ReportsPriceRange = (typeof REPORTS_PRICE_RANGES)[number];
+
+/**
+ * Multi-select filters sent to advancedFilterProperties. Prices are plain numbers
+ * because bigints cannot go into a URL; a null price leaves that end of a range open.
+ */
+export interface AdvancedSearch {
+  categories?: Category[];
+  propertyTypes?: PropertyType[];
+  configurations?: Configuration[];
+  furnishings?: Furnishing[];
+  statuses?: Status[];
+  // Empty fields match any value, so { suburb: 'Bhandup', area: '' } covers the whole suburb
+  locations?: { city: string; suburb: string; area: string; roadName: string }[];
+  priceRanges?: [number | null, number | null][];
+  coordinateFilters?: { lat: number; lng: number; radius: number }[];
+}
+
+export interface PropertiesSearch extends MapFilters {
+  tab?: PropertiesTab;
+  map?: boolean;
+  edit?: string;
+  advanced?: AdvancedSearch;
+  sort?: PropertiesSort;
+}
+
+export interface InquiriesSearch {
+  tab?: InquiriesTab;
+  board?: boolean;
+  // Board filters; agent is a principal in text form
+  agent?: string;
+  source?: Source;
+  edit?: string;
+}
+
+export interface VisitsSearch {
+  view?: VisitsView;
+  // Local calendar day as YYYY-MM-DD; today when absent
+  date?: string;
+  agent?: string;
+  // Inquiry to open the booking dialog for
+  schedule?: string;
+}
+
+export interface CustomersSearch {
+  q?: string;
+  // Customer whose inquiries are shown
+  customer?: string;
+  edit?: string;
+  // Requirement whose matching listings are shown
+  requirement?: string;
+}
+
+export interface ReportsSearch {
+  tab?: ReportsTab;
+  category?: Category;
+  price?: ReportsPriceRange;
+}
+
+export interface AgentsSearch {
+  edit?: string;
+}
+
+export interface ListingsSearch {
+  category?: Category;
+  propertyType?: PropertyType;
+  configuration?: Configuration;
+  suburb?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  map?: boolean;
+  property?: string;
+}
+
+function parseOneOf<T extends string>(value: unknown, options: readonly T[]): T | undefined {
+  return typeof value === 'string' && (options as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+function parseString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function parseNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseList<T>(value: unknown, parseItem: (item: unknown) => T | undefined): T[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(parseItem).filter((item): item is T => item !== undefined);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseAdvancedSearch(value: unknown): AdvancedSearch | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const search = value as Record<string, unknown>;
+  const advanced: AdvancedSearch = {
+    categories: parseList(search.categories, (v) => parseOneOf(v, Object.values(Category))),
+    propertyTypes: parseList(search.propertyTypes, (v) => parseOneOf(v, Object.values(PropertyType))),
+    configurations: parseList(search.configurations, (v) => parseOneOf(v, Object.values(Configuration))),
+    furnishings: parseList(search.furnishings, (v) => parseOneOf(v, Object.values(Furnishing))),
+    statuses: parseList(search.statuses, (v) => parseOneOf(v, Object.values(Status))),
+    locations: parseList(search.locations, (v) => {
+      if (typeof v !== 'object' || v === null) return undefined;
+      const location = v as Record<string, unknown>;
+      const parsed = {
+        city: parseString(location.city) ?? '',
+        suburb: parseString(location.suburb) ?? '',
+        area: parseString(location.area) ?? '',
+        roadName: parseString(location.roadName) ?? '',
+      };
+      return parsed.city || parsed.suburb || parsed.area || parsed.roadName ? parsed : undefined;
+    }),
+    priceRanges: parseList(search.priceRanges, (v): [number | null, number | null] | undefined => {
+      if (!Array.isArray(v) || v.length !== 2) return undefined;
+      const min = parseNumber(v[0]) ?? null;
+      const max = parseNumber(v[1]) ?? null;
+      return min !== null || max !== null ? [min, max] : undefined;
+    }),
+    coordinateFilters: parseList(search.coordinateFilters, (v) => {
+      if (typeof v !== 'object' || v === null) return undefined;
+      const circle = v as Record<string, unknown>;
+      const lat = parseNumber(circle.lat);
+      const lng = parseNumber(circle.lng);
+      const radius = parseNumber(circle.radius);
+      return lat !== undefined && lng !== undefined && radius !== undefined && radius > 0 ? { lat, lng, radius } : undefined;
+    }),
+  };
+  return Object.values(advanced).some((v) => v !== undefined) ? advanced : undefined;
+}
+
+export function validatePropertiesSearch(search: Record<string, unknown>): PropertiesSearch {
+  return {
+    tab: parseOneOf(search.tab, PROPERTIES_TABS),
+    map: search.map === true || search.map === 'true' ? true : undefined,
+    edit: parseString(search.edit),
+    advanced: parseAdvancedSearch(search.advanced),
+    sort: parseOneOf(search.sort, PROPERTIES_SORTS),
+    category: parseOneOf(search.category, Object.values(Category)),
+    propertyType: parseOneOf(search.propertyType, Object.values(PropertyType)),
+    configuration: parseOneOf(search.configuration, Object.values(Configuration)),
+    furnishing: parseOneOf(search.furnishing, Object.values(Furnishing)),
+    minPrice: parseNumber(search.minPrice),
+    maxPrice: parseNumber(search.maxPrice),
+    status: parseOneOf(search.status, Object.values(Status)),
+    radiusKm: parseNumber(search.radiusKm),
+    centerLat: parseNumber(search.centerLat),
+    centerLng: parseNumber(search.centerLng),
+    city: parseString(search.city),
+    suburb: parseString(search.suburb),
+    area: parseString(search.area),
+    roadName: parseString(search.roadName),
+    zoneId: parseString(search.zoneId),
+  };
+}
+
+export function validateInquiriesSearch(search: Record<string, unknown>): InquiriesSearch {
+  return {
+    tab: parseOneOf(search.tab, INQUIRIES_TABS),
+    board: search.board === true || search.board === 'true' ? true : undefined,
+    agent: parseString(search.agent),
+    source: parseOneOf(search.source, Object.values(Source)),
+    edit: parseString(search.edit),
+  };
+}
+
+export function validateVisitsSearch(search: Record<string, unknown>): VisitsSearch {
+  return {
+    view: parseOneOf(search.view, VISITS_VIEWS),
+    date: parseString(search.date),
+    agent: parseString(search.agent),
+    schedule: parseString(search.schedule),
+  };
+}
+
+export function validateCustomersSearch(search: Record<string, unknown>): CustomersSearch {
+  return {
+    q: parseString(search.q),
+    customer: parseString(search.customer),
+    edit: parseString(search.edit),
+    requirement: parseString(search.requirement),
+  };
+}
+
+export function validateReportsSearch(search: Record<string, unknown>): ReportsSearch {
+  return {
+    tab: parseOneOf(search.tab, REPORTS_TABS),
+    category: parseOneOf(search.category, Object.values(Category)),
+    price: parseOneOf(search.price, REPORTS_PRICE_RANGES),
+  };
+}
+
+export function validateAgentsSearch(search: Record<string, unknown>): AgentsSearch {
+  return {
+    edit: parseString(search.edit),
+  };
+}
+
+export function validateListingsSearch(search: Record<string, unknown>): ListingsSearch {
+  return {
+    category: parseOneOf(search.category, Object.values(Category)),
+    propertyType: parseOneOf(search.propertyType, Object.values(PropertyType)),
+    configuration: parseOneOf(search.configuration, Object.values(Configuration)),
+    suburb: parseString(search.suburb),
+    minPrice: parseNumber(search.minPrice),
+    maxPrice: parseNumber(search.maxPrice),
+    map: search.map === true || search.map === 'true' ? true : undefined,
+    property: parseString(search.property),
+  };
+}
+
+/**
+ * Picks the map filter fields out of the properties page search params
+ */
+export function mapFiltersFromSearch(search: PropertiesSearch): MapFilters {
+  return {
+    category: search.category,
+    propertyType: search.propertyType,
+    configuration: search.configuration,
+    furnishing: search.furnishing,
+    minPrice: search.minPrice,
+    maxPrice: search.maxPrice,
+    status: search.status,
+    radiusKm: search.radiusKm,
+    centerLat: search.centerLat,
+    centerLng: search.centerLng,
+    city: search.city,
+    suburb: search.suburb,
+    area: search.area,
+    roadName: search.roadName,
+    zoneId: search.zoneId,
+  };
+}
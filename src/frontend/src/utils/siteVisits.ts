@@ -0,0 +1,73 @@
+import { VisitOutcome, type SiteVisit } from '../backend';
+
+export const VISIT_OUTCOME_LABELS: Record<VisitOutcome, string> = {
+  [VisitOutcome.done]: 'Done',
+  [VisitOutcome.noShow]: 'No-show',
+};
+
+// Offered when booking; most viewings take about an hour
+export const VISIT_DURATIONS_MINUTES = [30, 45, 60, 90, 120] as const;
+
+export function visitStart(visit: SiteVisit): Date {
+  // Backend timestamps are in nanoseconds
+  return new Date(Number(visit.startsAt / 1_000_000n));
+}
+
+export function visitEnd(visit: SiteVisit): Date {
+  return new Date(Number(visit.endsAt / 1_000_000n));
+}
+
+export function toTime(date: Date): bigint {
+  return BigInt(date.getTime()) * 1_000_000n;
+}
+
+/**
+ * Returns the agent's visit that overlaps the given slot, matching the backend double-booking check.
+ * Visits touching end to start do not clash, so back-to-back bookings are allowed.
+ */
+export function findClashingVisit(
+  visits: SiteVisit[],
+  agentId: string,
+  startsAt: bigint,
+  endsAt: bigint,
+  ignoreVisitId?: string
+): SiteVisit | undefined {
+  return visits.find(
+    (v) => v.id !== ignoreVisitId && v.agent.toString() === agentId && v.startsAt < endsAt && startsAt < v.endsAt
+  );
+}
+
+/**
+ * Local calendar day as "YYYY-MM-DD", the format of the visits page date search param
+ */
+export function toDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function fromDateKey(key: string | undefined): Date | null {
+  const match = key?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Monday of the week containing the date, at local midnight
+ */
+export function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return a.toDateString() === b.toDateString();
+}
+
+export function formatVisitTime(visit: SiteVisit): string {
+  const options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+  return `${visitStart(visit).toLocaleTimeString([], options)} – ${visitEnd(visit).toLocaleTimeString([], options)}`;
+}
@@ -0,0 +1,272 @@
+/**
+ * Minimal spreadsheet readers for importing tabular data
+ * Supports CSV text files and the first worksheet of XLSX workbooks
+ */
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+  // 1-based row in the file for each of rows, so messages still point at the right row after blank rows are dropped
+  rowNumbers: number[];
+}
+
+/**
+ * Parses CSV text following RFC 4180 quoting rules
+ *
+ * @param text - The raw CSV content
+ * @returns All records, including the header record
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+const UNSUPPORTED_ARCHIVE = 'XLSX workbook uses the Zip64 format, which is not supported; save it as CSV and upload that instead';
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+
+  // The end of central directory record sits in the last 64 KB of the archive
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('File is not a valid XLSX workbook');
+  }
+
+  // Only plain single-part archives are read. Zip64 marks its records with all-ones sizes and offsets
+  // and a locator just before this record; reading on would land on garbage offsets
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const isZip64 =
+    (eocd >= 20 && view.getUint32(eocd - 20, true) === 0x07064b50) || entryCount === 0xffff || offset === 0xffffffff;
+  if (isZip64) {
+    throw new Error(UNSUPPORTED_ARCHIVE);
+  }
+  if (view.getUint16(eocd + 4, true) !== 0) {
+    throw new Error('Split XLSX archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > eocd || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('XLSX workbook is corrupted');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    const entry = {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    };
+    if (entry.compressedSize === 0xffffffff || entry.localHeaderOffset === 0xffffffff) {
+      throw new Error(UNSUPPORTED_ARCHIVE);
+    }
+    if (view.getUint16(offset + 8, true) & 0x1) {
+      throw new Error('Password-protected XLSX workbooks are not supported');
+    }
+    entries.set(name, entry);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipText(buffer: ArrayBuffer, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(buffer);
+  if (entry.localHeaderOffset + 30 > buffer.byteLength || view.getUint32(entry.localHeaderOffset, true) !== 0x04034b50) {
+    throw new Error('XLSX workbook is corrupted');
+  }
+  const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+  const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+  const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  if (start + entry.compressedSize > buffer.byteLength) {
+    throw new Error('XLSX workbook is corrupted');
+  }
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error('XLSX workbook uses an unsupported compression method');
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function textContent(element: Element): string {
+  return elements(element, 't').map((t) => t.textContent ?? '').join('');
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+async function resolveFirstSheetPath(buffer: ArrayBuffer, entries: Map<string, ZipEntry>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbookXml = await readZipText(buffer, entries, 'xl/workbook.xml');
+  const relsXml = await readZipText(buffer, entries, 'xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !relsXml) return fallback;
+
+  const sheet = elements(parseXml(workbookXml), 'sheet')[0];
+  const relationshipId = sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const relationship = elements(parseXml(relsXml), 'Relationship').find((r) => r.getAttribute('Id') === relationshipId);
+  const target = relationship?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Reads the cell values of the first worksheet in an XLSX workbook
+ *
+ * @param buffer - The raw workbook bytes
+ * @returns All rows as text, with empty cells and the empty rows Excel leaves out filled in
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = readZipEntries(buffer);
+
+  const sharedStringsXml = await readZipText(buffer, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? elements(parseXml(sharedStringsXml), 'si').map(textContent) : [];
+
+  const sheetXml = await readZipText(buffer, entries, await resolveFirstSheetPath(buffer, entries));
+  if (!sheetXml) {
+    throw new Error('XLSX workbook has no worksheets');
+  }
+
+  const rows: string[][] = [];
+  for (const row of elements(parseXml(sheetXml), 'row')) {
+    const rowRef = Number(row.getAttribute('r'));
+    const rowIndex = rowRef > 0 ? rowRef - 1 : rows.length;
+    const values: string[] = [];
+    for (const cell of elements(row, 'c')) {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : values.length;
+      const type = cell.getAttribute('t');
+      const rawValue = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = textContent(cell);
+      } else {
+        value = rawValue;
+      }
+
+      while (values.length < index) values.push('');
+      values[index] = value;
+    }
+
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = values;
+  }
+  return rows;
+}
+
+/**
+ * Reads a CSV or XLSX file into a header row and data rows
+ * Blank rows are dropped and every row is padded to the header width
+ *
+ * @param file - The uploaded file
+ * @returns The header names, the remaining rows and where each row sits in the file
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  const name = file.name.toLowerCase();
+  let records: string[][];
+
+  if (name.endsWith('.xlsx')) {
+    records = await parseXlsx(await file.arrayBuffer());
+  } else if (name.endsWith('.csv')) {
+    records = parseCsv(await file.text());
+  } else {
+    throw new Error('Please upload a .csv or .xlsx file');
+  }
+
+  const nonEmpty = records
+    .map((record, index) => ({ record, rowNumber: index + 1 }))
+    .filter(({ record }) => record.some((value) => value.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('The file does not contain any rows');
+  }
+
+  const headers = nonEmpty[0].record.map((header) => header.trim());
+  const dataRows = nonEmpty.slice(1);
+  const rows = dataRows.map(({ record }) => headers.map((_, i) => (record[i] ?? '').trim()));
+
+  return { headers, rows, rowNumbers: dataRows.map(({ rowNumber }) => rowNumber) };
+}
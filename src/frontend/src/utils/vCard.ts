@@ -0,0 +1,114 @@
+import { Role, type Profile } from '../backend';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  [Role.admin]: 'Admin',
+  [Role.agent]: 'Agent',
+  [Role.juniorAgent]: 'Junior Agent',
+  [Role.assistant]: 'Assistant',
+};
+
+export const VCARD_ORGANIZATION = "Mulund Real Estate Agents' Association";
+
+export type VCardVersion = '3.0' | '4.0';
+
+function escapeValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line at 75 octets as RFC 6350 requires, without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// Backend timestamps are in nanoseconds; vCard wants a basic format UTC timestamp
+function formatRevision(time: bigint): string {
+  return new Date(Number(time / 1_000_000n)).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Builds a vCard for an agent. Contact info holding an email address is written
+ * as EMAIL, anything else as a work phone number.
+ */
+export function buildVCard(agent: Profile, version: VCardVersion): string {
+  const name = agent.name.trim();
+  const words = name.split(/\s+/);
+  // Agents only have a display name, so treat the last word as the family name
+  const familyName = words.length > 1 ? words[words.length - 1] : name;
+  const givenNames = words.length > 1 ? words.slice(0, -1).join(' ') : '';
+  const contact = agent.contactInfo.trim();
+
+  const lines = ['BEGIN:VCARD', `VERSION:${version}`];
+  if (version === '4.0') lines.push('KIND:individual');
+  lines.push(`FN:${escapeValue(name)}`);
+  lines.push(`N:${escapeValue(familyName)};${escapeValue(givenNames)};;;`);
+  lines.push(`ORG:${escapeValue(VCARD_ORGANIZATION)}`);
+  lines.push(`TITLE:${escapeValue(ROLE_LABELS[agent.role])}`);
+
+  if (contact.includes('@')) {
+    lines.push(version === '4.0' ? `EMAIL;TYPE=work:${escapeValue(contact)}` : `EMAIL;TYPE=INTERNET,WORK:${escapeValue(contact)}`);
+  } else if (/\d/.test(contact)) {
+    // Contact text without any digits is not a phone number and would leave an empty tel: URI
+    lines.push(
+      version === '4.0'
+        ? `TEL;TYPE=work,voice;VALUE=uri:tel:${contact.replace(/[^\d+]/g, '')}`
+        : `TEL;TYPE=WORK,VOICE:${escapeValue(contact)}`
+    );
+  }
+
+  lines.push(version === '4.0' ? `UID;VALUE=text:${agent.id.toString()}` : `UID:${agent.id.toString()}`);
+  lines.push(`REV:${formatRevision(agent.updatedAt)}`);
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Builds a single .vcf holding a card for every active agent, sorted by name
+ */
+export function buildRosterVCards(agents: Profile[], version: VCardVersion): string {
+  return agents
+    .filter((agent) => agent.active)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((agent) => buildVCard(agent, version))
+    .join('');
+}
+
+export function vCardFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'agent'}.vcf`;
+}
+
+export function downloadVCard(vCard: string, fileName: string): void {
+  const blob = new Blob([vCard], { type: 'text/vcard;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,29 @@
+import type { Coordinates, Property, Zone } from '../backend';
+
+/**
+ * Ray casting test treating lat/lng as flat x/y, which is accurate enough at the
+ * scale of a neighbourhood. Points exactly on an edge may fall either side.
+ */
+export function isPointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  if (polygon.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = a.lat > point.lat !== b.lat > point.lat;
+    if (crosses && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Keeps the properties inside the zone. The map and the reports both filter through
+ * this so a zone always selects the same listings; an unknown zone filters nothing.
+ */
+export function filterByZone(properties: Property[], zone: Zone | undefined): Property[] {
+  if (!zone) return properties;
+  return properties.filter((p) => isPointInPolygon(p.coordinates, zone.points));
+}